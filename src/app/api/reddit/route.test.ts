@@ -0,0 +1,161 @@
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 使用 __fixtures__ 中录制的响应回放，不访问网络
+vi.stubEnv('REDDIT_TRANSPORT', 'replay');
+vi.stubEnv('REDDIT_FIXTURES_DIR', path.join(__dirname, '__fixtures__'));
+vi.stubEnv('REDDIT_CLIENT_ID', '');
+vi.stubEnv('REDDIT_CACHE', 'memory');
+
+let GET: typeof import('./route').GET;
+let ipCounter = 0;
+
+beforeAll(async () => {
+  ({ GET } = await import('./route'));
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const request = (params: Record<string, string>, ip = `10.0.0.${++ipCounter}`, signal?: AbortSignal) =>
+  GET(new NextRequest(`http://localhost/api/reddit?${new URLSearchParams(params)}`, {
+    headers: { 'x-forwarded-for': ip },
+    signal
+  }));
+
+const THREAD_URL = 'https://www.reddit.com/r/test/comments/abc123/hello_world/';
+
+describe('GET /api/reddit', () => {
+  it('requires a url', async () => {
+    const response = await request({});
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: '缺少URL参数' });
+  });
+
+  it('rejects an unknown deleted mode', async () => {
+    const response = await request({ url: THREAD_URL, deleted: 'hide' });
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects an invalid maxMore', async () => {
+    const response = await request({ url: THREAD_URL, maxMore: 'abc' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('maxMore');
+    expect((await request({ url: THREAD_URL, maxMore: '-5' })).status).toBe(400);
+    expect((await request({ url: THREAD_URL, maxMore: '51' })).status).toBe(400);
+  });
+
+  it('rejects invalid upstream sort, limit and depth', async () => {
+    const response = await request({ url: THREAD_URL, sort: 'hot' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('sort');
+    expect((await request({ url: THREAD_URL, depth: '0' })).status).toBe(400);
+  });
+
+  it('rejects invalid crawl limits', async () => {
+    const response = await request({ url: 'https://www.reddit.com/r/test/new/', since: '200', until: '100' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('since');
+    expect((await request({ url: 'https://www.reddit.com/r/test/new/', maxPages: '0' })).status).toBe(400);
+  });
+
+  it('rejects links outside Reddit before fetching', async () => {
+    const response = await request({ url: 'https://example.com/r/test/comments/abc123/' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('example.com');
+  });
+
+  it('follows share links to the post they point at', async () => {
+    const response = await request({ url: 'https://www.reddit.com/r/test/s/AbCdEf', refresh: '1' });
+    expect(response.status).toBe(200);
+    expect((await response.json()).post).toMatchObject({ id: 'abc123' });
+  });
+
+  it('returns post, comments and more stats', async () => {
+    const response = await request({ url: THREAD_URL });
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.post).toMatchObject({ id: 'abc123', title: 'Hello world', subreddit: 'test' });
+    expect(data.more).toEqual({ resolved: 1, unresolved: 0, requests: 1 });
+    expect(data.upstream).toEqual({ sort: null, limit: null, depth: null });
+    expect(data.comments.map((comment: { id: string }) => comment.id)).toEqual(['c1', 'c3', 'c4']);
+    expect(data.comments[1]).toMatchObject({ status: 'deleted', body: '' });
+    expect(data.comments[2].replies[0]).toMatchObject({ id: 'c6', author: 'dave', depth: 1 });
+  });
+
+  it('skips more resolution when maxMore is 0', async () => {
+    const data = await (await request({ url: THREAD_URL, maxMore: '0', deleted: 'drop' })).json();
+    expect(data.more).toEqual({ resolved: 0, unresolved: 1, requests: 0 });
+    expect(data.comments.map((comment: { id: string }) => comment.id)).toEqual(['c1']);
+  });
+
+  it('serves repeated extractions from the cache until refresh=1', async () => {
+    const first = await request({ url: THREAD_URL, deleted: 'flag' });
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+
+    const second = await request({ url: THREAD_URL.replace('www.', 'old.'), deleted: 'flag' });
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(second.headers.get('Age')).toMatch(/^\d+$/);
+    expect(await second.json()).toEqual(await first.json());
+
+    const refreshed = await request({ url: THREAD_URL, deleted: 'flag', refresh: '1' });
+    expect(refreshed.headers.get('X-Cache')).toBe('MISS');
+  });
+
+  it.each([
+    ['forbidden', 403, '访问被拒绝'],
+    ['limited', 429, '请求过于频繁'],
+    ['down', 502, 'Reddit服务器错误']
+  ])('maps upstream failures for %s', async (name, status, message) => {
+    const response = await request({ url: `https://www.reddit.com/r/test/comments/${name}/x` });
+    expect(response.status).toBe(status);
+    expect((await response.json()).error).toContain(message);
+  });
+
+  it('streams progress events followed by the result when stream=1', async () => {
+    const response = await request({ url: THREAD_URL, stream: '1', refresh: '1' });
+    expect(response.headers.get('Content-Type')).toContain('application/x-ndjson');
+
+    const messages = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+    const types = messages.map(message => message.type);
+    expect(types.slice(0, 2)).toEqual(['attempt', 'response']);
+    expect(types).toContain('parsed');
+    expect(types).toContain('more');
+    expect(types.slice(-2)).toEqual(['cache', 'result']);
+    expect(messages.at(-1).comments.map((comment: { id: string }) => comment.id)).toEqual(['c1', 'c3', 'c4']);
+  });
+
+  it('streams a failure message when the extraction fails', async () => {
+    const response = await request({ url: 'https://www.reddit.com/r/test/comments/forbidden/x', stream: '1' });
+    expect(response.status).toBe(200);
+
+    const messages = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(messages.filter(message => message.type === 'attempt')).toHaveLength(25);
+    expect(messages.at(-1)).toMatchObject({ type: 'failed', status: 403, partial: null });
+  });
+
+  it('stops the extraction when the client has gone away', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const response = await request({ url: THREAD_URL, refresh: '1' }, undefined, controller.signal);
+    expect(response.status).toBe(499);
+    expect(await response.json()).toEqual({ error: '提取已取消' });
+  });
+
+  it('limits requests per client IP', async () => {
+    const ip = '10.1.0.1';
+    for (let i = 0; i < 10; i++) {
+      await request({ url: 'https://www.reddit.com/r/test/comments/forbidden/x' }, ip);
+    }
+    const response = await request({ url: THREAD_URL }, ip);
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(Number(response.headers.get('Retry-After'))).toBeLessThanOrEqual(60);
+    expect(await response.json()).toEqual({ error: '请求过于频繁，请稍后重试' });
+  });
+});
@@ -1,193 +1,573 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
-import * as XLSX from 'xlsx';
-
-interface Comment {
-  id: string;
-  author: string;
-  body: string;
-  score: number;
-  created_utc: number;
-  replies?: Comment[];
+import { useState, useMemo, useRef, useDeferredValue, useEffect } from 'react';
+import AnalyticsPanel from '@/components/AnalyticsPanel';
+import BatchPanel from '@/components/BatchPanel';
+import CrawlPanel from '@/components/CrawlPanel';
+import CommentTree from '@/components/CommentTree';
+import FilterPanel, { EMPTY_FILTER_FORM, FilterForm, toCommentFilter } from '@/components/FilterPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import Markdown from '@/components/Markdown';
+import TextAnalysisPanel from '@/components/TextAnalysisPanel';
+import { analyzeThread } from '@/lib/analysis/analytics';
+import { SENTIMENT_LABELS } from '@/lib/analysis/sentiment';
+import {
+  BodyFormat,
+  buildDiffExport,
+  buildExport,
+  DIFF_EXPORT_FORMATS,
+  DIFF_EXPORTERS,
+  DiffExportFormat,
+  EXPORT_FORMATS,
+  EXPORTERS,
+  ExportFormat,
+  getDiffExportFilename,
+  getExportFilename
+} from '@/lib/export';
+import { BODY_FORMAT_LABELS, BODY_FORMATS, describeUpstreamParams, formatDate, STATUS_LABELS } from '@/lib/export/fields';
+import { createSnapshot, createSnapshotStore, Snapshot, SnapshotStore } from '@/lib/history/snapshots';
+import { fetchExtraction, RateLimitError } from '@/lib/reddit/api';
+import { CHANGE_KINDS, CHANGE_LABELS, ChangeKind, diffThreads, mergeComments, pruneToChanges, ThreadDiff } from '@/lib/reddit/diff';
+import { filterComments, getFilterError, getHighlightPattern, isFilterActive, splitHighlights } from '@/lib/reddit/filter';
+import type { ExtractResult } from '@/lib/reddit/extract';
+import { countComments } from '@/lib/reddit/parse';
+import { CommentSort, DEFAULT_COMMENT_SORT, describeSortSpec, SORT_KEYS, SORT_LABELS, SortKey, SortOrder, SortSpec, sortComments } from '@/lib/reddit/sort';
+import { describeProgress, readStreamMessages } from '@/lib/reddit/progress';
+import type { ProgressEvent, StreamMessage } from '@/lib/reddit/progress';
+import type { DeletedMode, MoreStats, ParsedComment, ParsedPost, SentimentLabel } from '@/lib/reddit/types';
+import {
+  MAX_UPSTREAM_DEPTH,
+  MAX_UPSTREAM_LIMIT,
+  REDDIT_SORT_LABELS,
+  REDDIT_SORTS,
+  RedditSort,
+  UpstreamParams,
+  validateThreadUrl
+} from '@/lib/reddit/url';
+import { countNewComments, createWatchBaseline, DEFAULT_WATCH_INTERVAL, WATCH_INTERVALS, watchThread } from '@/lib/reddit/watch';
+
+interface CacheInfo {
+  hit: boolean;
+  age: number;
+}
+
+interface WatchStatus {
+  polls: number;
+  // 毫秒时间戳
+  nextAt: number | null;
+  error: string;
+}
+
+const INITIAL_WATCH_STATUS: WatchStatus = { polls: 0, nextAt: null, error: '' };
+
+const formatInterval = (seconds: number) => seconds < 60 ? `${seconds} 秒` : `${seconds / 60} 分钟`;
+
+// 正在对比的两份快照
+interface DiffState {
+  diff: ThreadDiff;
+  from: number;
+  to: number;
+  // 较新快照原本的评论树，退出对比时恢复
+  comments: ParsedComment[];
 }
 
-type SortBy = 'time' | 'score';
-type SortOrder = 'asc' | 'desc';
-
-interface ExcelRow {
-  '层级': number;
-  '评论ID': string;
-  '作者': string;
-  '内容': string;
-  '点赞数': number;
-  '发布时间': string;
-  '时间戳': number;
+interface ProgressState {
+  attempts: number;
+  lastStatus: number | null;
+  comments: number;
+  moreResolved: number;
+  morePending: number;
+  log: string[];
 }
 
+const INITIAL_PROGRESS: ProgressState = {
+  attempts: 0,
+  lastStatus: null,
+  comments: 0,
+  moreResolved: 0,
+  morePending: 0,
+  log: []
+};
+
+// 进度日志最多保留的行数
+const MAX_PROGRESS_LOG = 200;
+
+const applyProgress = (state: ProgressState, event: ProgressEvent): ProgressState => {
+  const next = { ...state, log: [...state.log, describeProgress(event)].slice(-MAX_PROGRESS_LOG) };
+  if (event.type === 'attempt') {
+    next.attempts++;
+  } else if (event.type === 'response') {
+    next.lastStatus = event.status;
+  } else if (event.type === 'parsed') {
+    next.comments = event.comments;
+    next.morePending = event.pending;
+  } else if (event.type === 'more') {
+    next.comments = event.comments;
+    next.moreResolved = event.resolved;
+    next.morePending = event.pending;
+  }
+  return next;
+};
+
+const SENTIMENT_BADGE_CLASSES: Record<SentimentLabel, string> = {
+  positive: 'bg-emerald-100 text-emerald-700',
+  neutral: 'bg-gray-100 text-gray-600',
+  negative: 'bg-orange-100 text-orange-700'
+};
+
+const CHANGE_BADGE_CLASSES: Record<ChangeKind, string> = {
+  added: 'bg-green-100 text-green-700',
+  deleted: 'bg-red-100 text-red-700',
+  edited: 'bg-amber-100 text-amber-700',
+  score: 'bg-sky-100 text-sky-700'
+};
+
+// 对比时评论卡片的边框颜色，按最主要的变化类型
+const CHANGE_CARD_CLASSES: Record<ChangeKind, string> = {
+  added: 'ring-2 ring-green-300',
+  deleted: 'ring-2 ring-red-300',
+  edited: 'ring-2 ring-amber-300',
+  score: ''
+};
+
 export default function Home() {
+  const [inputMode, setInputMode] = useState<'single' | 'batch' | 'crawl'>('single');
   const [url, setUrl] = useState('');
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [urlError, setUrlError] = useState('');
+  const [post, setPost] = useState<ParsedPost | null>(null);
+  const [comments, setComments] = useState<ParsedComment[]>([]);
+  const [moreStats, setMoreStats] = useState<MoreStats | null>(null);
+  const [cacheInfo, setCacheInfo] = useState<CacheInfo | null>(null);
+  const [progress, setProgress] = useState<ProgressState>(INITIAL_PROGRESS);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [sortBy, setSortBy] = useState<SortBy>('time');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const [deletedMode, setDeletedMode] = useState<DeletedMode>('placeholder');
+  // 转发给 Reddit 的请求参数，留空表示使用 Reddit 默认值
+  const [upstreamSort, setUpstreamSort] = useState<RedditSort | ''>('');
+  const [upstreamLimit, setUpstreamLimit] = useState('');
+  const [upstreamDepth, setUpstreamDepth] = useState('');
+  // 当前结果实际使用的请求参数
+  const [upstream, setUpstream] = useState<UpstreamParams | null>(null);
+  const [commentSort, setCommentSort] = useState<CommentSort>(DEFAULT_COMMENT_SORT);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [bodyFormat, setBodyFormat] = useState<BodyFormat>('markdown');
+  // 评论正文按 Markdown 渲染，或显示原文
+  const [bodyView, setBodyView] = useState<'rendered' | 'raw'>('rendered');
+  const [filterForm, setFilterForm] = useState<FilterForm>(EMPTY_FILTER_FORM);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showTextAnalysis, setShowTextAnalysis] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // 保存快照后递增，历史面板据此刷新
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // 当前结果来自历史快照时为其保存时间
+  const [snapshotTime, setSnapshotTime] = useState<number | null>(null);
+  const [diffState, setDiffState] = useState<DiffState | null>(null);
+  const [changesOnly, setChangesOnly] = useState(false);
+  const [diffExportFormat, setDiffExportFormat] = useState<DiffExportFormat>('csv');
+  const [watchInterval, setWatchInterval] = useState(DEFAULT_WATCH_INTERVAL);
+  const [watching, setWatching] = useState(false);
+  const [watchStatus, setWatchStatus] = useState<WatchStatus>(INITIAL_WATCH_STATUS);
+  // 开始监视时的评论ID和分数，停止后保留标记，直到下一次提取
+  const [watchBaseline, setWatchBaseline] = useState<Map<string, number> | null>(null);
 
-  // 递归排序评论函数
-  const sortComments = useCallback((comments: Comment[], sortBy: SortBy, sortOrder: SortOrder): Comment[] => {
-    const sorted = [...comments].sort((a, b) => {
-      let comparison = 0;
-      
-      if (sortBy === 'time') {
-        comparison = a.created_utc - b.created_utc;
-      } else if (sortBy === 'score') {
-        comparison = a.score - b.score;
-      }
-      
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
+  // 当前提取的取消控制器和序号，旧提取的响应不会覆盖新结果
+  const abortRef = useRef<AbortController | null>(null);
+  const requestIdRef = useRef(0);
+  // 在浏览器中首次使用时创建，服务端渲染时没有 IndexedDB
+  const storeRef = useRef<SnapshotStore | null>(null);
+  const getStore = () => storeRef.current ??= createSnapshotStore();
+  const watchRef = useRef<AbortController | null>(null);
 
-    // 递归排序回复
-    return sorted.map(comment => ({
-      ...comment,
-      replies: comment.replies ? sortComments(comment.replies, sortBy, sortOrder) : []
-    }));
-  }, []);
-
-  // 使用 useMemo 优化排序性能
-  const sortedComments = useMemo(() => {
-    return sortComments(comments, sortBy, sortOrder);
-  }, [comments, sortBy, sortOrder, sortComments]);
-
-  // 递归扁平化评论数据用于Excel导出
-  const flattenComments = (comments: Comment[], depth = 0): ExcelRow[] => {
-    const result: ExcelRow[] = [];
-    
-    comments.forEach(comment => {
-      result.push({
-        '层级': depth,
-        '评论ID': comment.id,
-        '作者': comment.author,
-        '内容': comment.body.replace(/\n/g, ' '), // 移除换行符
-        '点赞数': comment.score,
-        '发布时间': new Date(comment.created_utc * 1000).toLocaleString('zh-CN'),
-        '时间戳': comment.created_utc
-      });
-      
-      if (comment.replies && comment.replies.length > 0) {
-        result.push(...flattenComments(comment.replies, depth + 1));
-      }
-    });
-    
-    return result;
-  };
+  useEffect(() => () => watchRef.current?.abort(), []);
+
+  // 对比时可以只看有变化的评论及其父评论
+  const treeComments = useMemo(
+    () => diffState && changesOnly ? pruneToChanges(comments, diffState.diff.changes) : comments,
+    [comments, diffState, changesOnly]
+  );
+
+  // 使用 useMemo 优化排序性能，导出沿用同样的顺序
+  const sortedComments = useMemo(() => sortComments(treeComments, commentSort), [treeComments, commentSort]);
 
-  // 导出到Excel
-  const exportToExcel = () => {
-    if (sortedComments.length === 0) {
+  // 单个提取、批量提取和列表抓取共用的接口参数
+  const requestParams = useMemo(() => {
+    const params: Record<string, string> = { deleted: deletedMode };
+    if (upstreamSort) {
+      params.sort = upstreamSort;
+    }
+    if (upstreamLimit.trim()) {
+      params.limit = upstreamLimit.trim();
+    }
+    if (upstreamDepth.trim()) {
+      params.depth = upstreamDepth.trim();
+    }
+    return params;
+  }, [deletedMode, upstreamSort, upstreamLimit, upstreamDepth]);
+
+  const updateSort = (level: keyof CommentSort, spec: Partial<SortSpec>) =>
+    setCommentSort(sort => ({ ...sort, [level]: { ...sort[level], ...spec } }));
+
+  // 筛选在输入时延后计算，大帖子中输入不会卡顿
+  const filter = useMemo(() => toCommentFilter(filterForm), [filterForm]);
+  const deferredFilter = useDeferredValue(filter);
+  const filterActive = isFilterActive(deferredFilter);
+  const { comments: visibleComments, matchedIds } = useMemo(
+    () => filterComments(sortedComments, deferredFilter),
+    [sortedComments, deferredFilter]
+  );
+  const highlightPattern = useMemo(() => getHighlightPattern(deferredFilter), [deferredFilter]);
+  const totalCount = useMemo(() => countComments(comments), [comments]);
+  const newSinceWatch = useMemo(() => watchBaseline ? countNewComments(comments, watchBaseline) : 0, [comments, watchBaseline]);
+
+  // 统计基于筛选后的评论树，收起时不计算
+  const analytics = useMemo(
+    () => showAnalytics ? analyzeThread(visibleComments, post) : null,
+    [showAnalytics, visibleComments, post]
+  );
+
+  // 词频不受选中的词影响，选中后词云保持不变
+  const textSource = useMemo(() => {
+    if (!showTextAnalysis) {
+      return [];
+    }
+    return deferredFilter.term ? filterComments(sortedComments, { ...deferredFilter, term: null }).comments : visibleComments;
+  }, [showTextAnalysis, sortedComments, deferredFilter, visibleComments]);
+
+  // 按当前排序和筛选导出评论树，文件在浏览器中生成并下载
+  const exportComments = () => {
+    if (visibleComments.length === 0) {
       alert('没有评论数据可导出');
       return;
     }
 
     try {
-      // 扁平化评论数据
-      const flatData = flattenComments(sortedComments);
-      
-      // 创建工作簿
-      const wb = XLSX.utils.book_new();
-      
-      // 创建工作表
-      const ws = XLSX.utils.json_to_sheet(flatData);
-      
-      // 设置列宽
-      const colWidths = [
-        { wch: 8 },  // 层级
-        { wch: 15 }, // 评论ID
-        { wch: 20 }, // 作者
-        { wch: 50 }, // 内容
-        { wch: 10 }, // 点赞数
-        { wch: 20 }, // 发布时间
-        { wch: 15 }  // 时间戳
-      ];
-      ws['!cols'] = colWidths;
-      
-      // 添加工作表到工作簿
-      XLSX.utils.book_append_sheet(wb, ws, 'Reddit评论');
-      
-      // 生成文件名
-      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-      const filename = `Reddit评论_${timestamp}.xlsx`;
-      
-      // 导出文件
-      XLSX.writeFile(wb, filename);
-      
-      alert(`成功导出 ${flatData.length} 条评论到 ${filename}`);
+      const exportedAt = new Date();
+      const blob = buildExport(exportFormat, { post, comments: visibleComments, exportedAt, upstream }, bodyFormat);
+      const filename = getExportFilename(exportFormat, exportedAt, upstream);
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+
+      alert(`成功导出 ${countComments(visibleComments)} 条评论到 ${filename}`);
+    } catch (error) {
+      console.error('导出时出错:', error);
+      alert('导出失败，请重试');
+    }
+  };
+
+  // 导出对比结果中有变化的评论，不受筛选影响
+  const exportDiff = () => {
+    if (!diffState) {
+      return;
+    }
+    try {
+      const input = { post, diff: diffState.diff, from: diffState.from, to: diffState.to, exportedAt: new Date() };
+      const blob = buildDiffExport(diffExportFormat, input);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = getDiffExportFilename(diffExportFormat, input);
+      link.click();
+      URL.revokeObjectURL(link.href);
     } catch (error) {
-      console.error('导出Excel时出错:', error);
+      console.error('导出时出错:', error);
       alert('导出失败，请重试');
     }
   };
 
-  const extractComments = async () => {
-    if (!url) {
-      setError('请输入Reddit帖子URL');
+  // 每次完整的提取保存为一份快照，保存失败不影响页面
+  const saveSnapshot = async (threadUrl: string, result: ExtractResult) => {
+    const snapshot = createSnapshot(threadUrl, result, deletedMode);
+    if (!snapshot) {
+      return;
+    }
+    try {
+      await getStore().save(snapshot);
+      setHistoryVersion(version => version + 1);
+    } catch (error) {
+      console.error('保存快照失败:', error);
+    }
+  };
+
+  const stopWatch = () => {
+    watchRef.current?.abort();
+    watchRef.current = null;
+    setWatching(false);
+    setWatchStatus(status => ({ ...status, nextAt: null }));
+  };
+
+  // 新的结果不再与之前的监视比较
+  const resetWatch = () => {
+    stopWatch();
+    setWatchBaseline(null);
+    setWatchStatus(INITIAL_WATCH_STATUS);
+  };
+
+  // 按间隔重新提取当前帖子 (跳过缓存)，按评论ID合并到现有评论树中
+  const startWatch = () => {
+    if (!post || watchRef.current) {
+      return;
+    }
+    const controller = new AbortController();
+    watchRef.current = controller;
+    const threadUrl = url.trim();
+    setWatching(true);
+    setWatchBaseline(createWatchBaseline(comments));
+    setWatchStatus(INITIAL_WATCH_STATUS);
+
+    watchThread(signal => fetchExtraction(threadUrl, { ...requestParams, refresh: '1' }, signal), {
+      interval: watchInterval,
+      signal: controller.signal,
+      onResult: result => {
+        setPost(result.post);
+        setComments(current => mergeComments(current, result.comments));
+        setMoreStats(result.more);
+        setUpstream(result.upstream);
+        setWatchStatus(status => ({ ...status, polls: status.polls + 1, error: '' }));
+      },
+      onError: (error, delay) => {
+        // 限流时 Retry-After 已计入 delay
+        const message = error instanceof RateLimitError ? '请求过于频繁' : error instanceof Error ? error.message : '刷新失败';
+        setWatchStatus(status => ({ ...status, error: `${message}，${formatInterval(delay)}后重试` }));
+      },
+      onWait: nextAt => setWatchStatus(status => ({ ...status, nextAt }))
+    });
+  };
+
+  const extractComments = async (refresh = false) => {
+    // 在请求接口之前校验链接，错误显示在输入框下方
+    const validation = validateThreadUrl(url);
+    if (validation) {
+      setUrlError(validation);
       return;
     }
 
+    // 开始新的提取前取消仍在进行的提取
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestIdRef.current === requestId;
+
     setLoading(true);
     setError('');
+    setPost(null);
     setComments([]);
+    setMoreStats(null);
+    setUpstream(null);
+    setCacheInfo(null);
+    setSnapshotTime(null);
+    setDiffState(null);
+    resetWatch();
+    setProgress(INITIAL_PROGRESS);
 
-    try {
-      // 将Reddit URL转换为JSON API URL
-      let jsonUrl = url;
-      if (url.includes('reddit.com/r/')) {
-        jsonUrl = url.replace(/\/$/, '') + '.json';
-      }
+    const query = new URLSearchParams({ ...requestParams, url: url.trim(), stream: '1' });
+    if (refresh) {
+      query.set('refresh', '1');
+    }
 
-      const response = await fetch(`/api/reddit?url=${encodeURIComponent(jsonUrl)}`);
+    try {
+      const response = await fetch(`/api/reddit?${query}`, { signal: controller.signal });
       
-      if (!response.ok) {
-        throw new Error('获取评论失败');
+      // 参数错误和频率限制在开始推送前以普通 JSON 返回
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '获取评论失败');
       }
 
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error);
-      }
+      // 逐行读取 NDJSON 进度流
+      let finished = false;
+
+      const handleMessage = (message: StreamMessage) => {
+        if (!isCurrent()) {
+          return;
+        }
+        if (message.type === 'cache') {
+          setCacheInfo({ hit: message.hit, age: message.age });
+        } else if (message.type === 'result') {
+          finished = true;
+          setPost(message.post);
+          setComments(message.comments);
+          setMoreStats(message.more);
+          setUpstream(message.upstream);
+          saveSnapshot(url.trim(), message);
+        } else if (message.type === 'failed') {
+          finished = true;
+          // 失败前已解析的评论仍然展示
+          if (message.partial) {
+            setPost(message.partial.post);
+            setComments(message.partial.comments);
+            setMoreStats(message.partial.more);
+            setUpstream(message.partial.upstream);
+            setError(`${message.error} (已显示失败前获取的部分评论)`);
+          } else {
+            setError(message.error);
+          }
+        } else if (message.type !== 'crawl') {
+          setProgress(state => applyProgress(state, message));
+        }
+      };
 
-      setComments(data.comments || []);
+      await readStreamMessages(response.body, handleMessage);
+
+      if (!finished && isCurrent()) {
+        throw new Error('连接中断，未收到提取结果');
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : '获取评论时发生错误');
+      if (!isCurrent()) {
+        return;
+      }
+      if (controller.signal.aborted) {
+        setError('已取消提取');
+      } else {
+        setError(err instanceof Error ? err.message : '获取评论时发生错误');
+      }
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        setLoading(false);
+        abortRef.current = null;
+      }
     }
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp * 1000).toLocaleString('zh-CN');
+  const cancelExtraction = () => {
+    abortRef.current?.abort();
   };
 
-  const renderComment = (comment: Comment, depth = 0) => (
-    <div key={comment.id} className={`border-l-2 border-gray-200 pl-4 mb-4 ${depth > 0 ? 'ml-4' : ''}`}>
-      <div className="bg-white rounded-lg shadow-sm p-4">
+  // 在评论树中查看批量提取或列表抓取的某个帖子，进行中的单个提取会被丢弃
+  const openBatchResult = (threadUrl: string, result: ExtractResult) => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    requestIdRef.current++;
+    setLoading(false);
+    setError('');
+    setUrl(threadUrl);
+    setPost(result.post);
+    setComments(result.comments);
+    setMoreStats(result.more);
+    setUpstream(result.upstream);
+    setCacheInfo(null);
+    setSnapshotTime(null);
+    setDiffState(null);
+    resetWatch();
+    setProgress(INITIAL_PROGRESS);
+  };
+
+  // 打开历史快照，不请求网络
+  const openSnapshot = (snapshot: Snapshot) => {
+    openBatchResult(snapshot.url, { ...snapshot, upstream: snapshot.options.upstream });
+    setDeletedMode(snapshot.options.deletedMode);
+    setSnapshotTime(snapshot.savedAt);
+  };
+
+  // 在较新快照的评论树上标出相对较早快照的变化
+  const compareSnapshots = (before: Snapshot, after: Snapshot) => {
+    const diff = diffThreads(before.comments, after.comments);
+    openBatchResult(after.url, { post: after.post, comments: diff.comments, more: after.more, upstream: after.options.upstream });
+    setSnapshotTime(after.savedAt);
+    setDiffState({ diff, from: before.savedAt, to: after.savedAt, comments: after.comments });
+    setChangesOnly(false);
+  };
+
+  const exitDiff = () => {
+    if (diffState) {
+      setComments(diffState.comments);
+      setDiffState(null);
+    }
+  };
+
+  // 单条评论的卡片，层级、折叠和滚动由 CommentTree 处理
+  // 筛选时未命中的评论只是上下文，淡化显示
+  // 对比快照时标出变化，编辑过的评论附上原内容
+  const renderComment = (comment: ParsedComment) => {
+    const change = diffState?.diff.changes.get(comment.id);
+    const watchDelta = watchBaseline?.has(comment.id) ? comment.score - watchBaseline.get(comment.id)! : 0;
+    return (
+      <div className={`bg-white rounded-lg shadow-sm p-4 ${filterActive && !matchedIds.has(comment.id) ? 'opacity-50' : ''} ${change ? CHANGE_CARD_CLASSES[change.kinds[0]] : ''}`}>
         <div className="flex items-center justify-between mb-2">
-          <span className="font-semibold text-blue-600">u/{comment.author}</span>
+          <div className="flex items-center space-x-2">
+            {!comment.author || comment.author === '[deleted]' ? (
+              <span className="font-semibold text-gray-400">[已注销]</span>
+            ) : (
+              <span className="font-semibold text-blue-600">u/{comment.author}</span>
+            )}
+            {comment.status !== 'active' && (
+              <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                {STATUS_LABELS[comment.status]}
+              </span>
+            )}
+            {comment.is_submitter && (
+              <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full text-xs font-medium">楼主</span>
+            )}
+            {comment.distinguished && (
+              <span className="bg-green-100 text-green-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                {comment.distinguished === 'admin' ? '管理员' : '版主'}
+              </span>
+            )}
+            {comment.stickied && (
+              <span className="bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full text-xs font-medium">置顶</span>
+            )}
+            {comment.status === 'active' && (
+              <span
+                title={`情绪分 ${comment.sentiment.score}，攻击性 ${comment.sentiment.toxicity}`}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${SENTIMENT_BADGE_CLASSES[comment.sentiment.label]}`}
+              >
+                {SENTIMENT_LABELS[comment.sentiment.label]}
+              </span>
+            )}
+            {comment.sentiment.toxic && (
+              <span className="bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full text-xs font-medium">有害</span>
+            )}
+            {watchBaseline && !watchBaseline.has(comment.id) && (
+              <span className="bg-green-100 text-green-700 px-2 py-0.5 rounded-full text-xs font-medium">新</span>
+            )}
+            {watchDelta !== 0 && (
+              <span title="开始监视以来的分数变化" className="bg-sky-100 text-sky-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                {watchDelta > 0 ? '+' : ''}{watchDelta}
+              </span>
+            )}
+            {change?.kinds.map(kind => (
+              <span key={kind} className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_BADGE_CLASSES[kind]}`}>
+                {kind === 'score' ? `${change.scoreDelta > 0 ? '+' : ''}${change.scoreDelta}` : CHANGE_LABELS[kind]}
+              </span>
+            ))}
+          </div>
           <div className="flex items-center space-x-2 text-sm text-gray-500">
-            <span>👍 {comment.score}</span>
-            <span>{formatDate(comment.created_utc)}</span>
+            <span>👍 {comment.score}{comment.controversiality > 0 && ' †'}</span>
+            <a href={comment.permalink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600 hover:underline">
+              {formatDate(comment.created_utc)}
+            </a>
+            {comment.edited && (
+              <span title={`编辑于 ${formatDate(comment.edited)}`}>(已编辑)</span>
+            )}
           </div>
         </div>
-        <p className="text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+        {comment.status !== 'active' && !comment.body ? (
+          <p className="text-gray-400 italic">
+            {comment.status === 'removed' ? '[该评论已被版主移除]' : '[该评论已被作者删除]'}
+          </p>
+        ) : bodyView === 'rendered' ? (
+          <div className={comment.status === 'active' ? 'text-gray-800' : 'text-gray-400'}>
+            <Markdown source={comment.body} highlight={matchedIds.has(comment.id) ? highlightPattern : null} />
+          </div>
+        ) : (
+          <p className={`whitespace-pre-wrap ${comment.status === 'active' ? 'text-gray-800' : 'text-gray-400'}`}>
+            {splitHighlights(comment.body, matchedIds.has(comment.id) ? highlightPattern : null).map((part, index) =>
+              part.match ? <mark key={index} className="bg-yellow-200 rounded-sm">{part.text}</mark> : part.text
+            )}
+          </p>
+        )}
+        {change?.kinds.includes('edited') && (
+          <p className="mt-2 text-sm text-gray-400 whitespace-pre-wrap line-through">{change.previousBody}</p>
+        )}
+        {change?.kinds.includes('deleted') && comment.status !== 'active' && change.previousBody && (
+          <p className="mt-2 text-sm text-gray-400 whitespace-pre-wrap">删除前: {change.previousBody}</p>
+        )}
       </div>
-      {comment.replies && comment.replies.length > 0 && (
-        <div className="mt-2">
-          {comment.replies.map(reply => renderComment(reply, depth + 1))}
-        </div>
-      )}
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
@@ -202,23 +582,186 @@ export default function Home() {
         </div>
 
         <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
-          <div className="flex flex-col sm:flex-row gap-4">
-            <input
-              type="url"
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              placeholder="输入Reddit帖子URL (例如: https://www.reddit.com/r/example/comments/...)"
-              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-            />
+          <div className="flex gap-2 mb-4 text-sm" role="tablist">
+            {([['single', '单个帖子'], ['batch', '批量提取'], ['crawl', '版块/用户']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                role="tab"
+                aria-selected={inputMode === mode}
+                onClick={() => setInputMode(mode)}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  inputMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* 切换模式时保留批量任务和抓取结果的状态 */}
+          <div className={inputMode === 'batch' ? '' : 'hidden'}>
+            <BatchPanel requestParams={requestParams} commentSort={commentSort} onOpen={openBatchResult} onExtracted={saveSnapshot} />
+          </div>
+          <div className={inputMode === 'crawl' ? '' : 'hidden'}>
+            <CrawlPanel requestParams={requestParams} commentSort={commentSort} onOpen={openBatchResult} />
+          </div>
+
+          <div className={`flex flex-col sm:flex-row gap-4 ${inputMode === 'single' ? '' : 'hidden'}`}>
+            <div className="flex-1">
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => {
+                  setUrl(e.target.value);
+                  setUrlError('');
+                }}
+                onBlur={() => setUrlError(url.trim() ? validateThreadUrl(url) ?? '' : '')}
+                placeholder="输入Reddit帖子URL (例如: https://www.reddit.com/r/example/comments/...)"
+                aria-invalid={!!urlError}
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:border-transparent outline-none ${
+                  urlError ? 'border-red-400 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+                }`}
+              />
+              {urlError && (
+                <p className="mt-1 text-sm text-red-600">{urlError}</p>
+              )}
+            </div>
             <button
-              onClick={extractComments}
-              disabled={loading}
+              onClick={() => extractComments()}
               className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
             >
-              {loading ? '提取中...' : '提取评论'}
+              {loading ? '重新提取' : '提取评论'}
             </button>
+            {loading && (
+              <button
+                onClick={cancelExtraction}
+                className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                取消
+              </button>
+            )}
+          </div>
+
+          <div className="mt-4 flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">已删除/移除的评论:</label>
+            <select
+              value={deletedMode}
+              onChange={(e) => setDeletedMode(e.target.value as DeletedMode)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+            >
+              <option value="placeholder">保留占位 (保留其回复)</option>
+              <option value="flag">保留并标记</option>
+              <option value="drop">丢弃 (连同回复)</option>
+            </select>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2">
+            <span className="text-sm font-medium text-gray-700">Reddit 请求参数:</span>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>排序</span>
+              <select
+                value={upstreamSort}
+                onChange={(e) => setUpstreamSort(e.target.value as RedditSort | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+              >
+                <option value="">默认</option>
+                {REDDIT_SORTS.map(sort => (
+                  <option key={sort} value={sort}>{REDDIT_SORT_LABELS[sort]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>数量上限</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_UPSTREAM_LIMIT}
+                value={upstreamLimit}
+                onChange={(e) => setUpstreamLimit(e.target.value)}
+                placeholder="默认"
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>层数上限</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_UPSTREAM_DEPTH}
+                value={upstreamDepth}
+                onChange={(e) => setUpstreamDepth(e.target.value)}
+                placeholder="默认"
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+              />
+            </label>
           </div>
 
+          {cacheInfo?.hit && !loading && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between">
+              <p className="text-sm text-amber-700">
+                ⚡ 当前结果来自缓存 ({cacheInfo.age < 60 ? `${cacheInfo.age} 秒前` : `${Math.floor(cacheInfo.age / 60)} 分钟前`}提取)
+              </p>
+              <button
+                onClick={() => extractComments(true)}
+                className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm font-medium"
+              >
+                强制刷新
+              </button>
+            </div>
+          )}
+
+          {post && !diffState && !loading && (
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+              <span className="font-medium">监视模式:</span>
+              <label className="flex items-center space-x-2">
+                <span>每</span>
+                <select
+                  value={watchInterval}
+                  onChange={(e) => setWatchInterval(Number(e.target.value))}
+                  disabled={watching}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+                >
+                  {WATCH_INTERVALS.map(seconds => (
+                    <option key={seconds} value={seconds}>{formatInterval(seconds)}</option>
+                  ))}
+                </select>
+                <span>刷新一次</span>
+              </label>
+              <button
+                onClick={watching ? stopWatch : startWatch}
+                className={`px-3 py-1 rounded-lg transition-colors font-medium ${
+                  watching ? 'bg-gray-200 text-gray-700 hover:bg-gray-300' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                }`}
+              >
+                {watching ? '停止监视' : '开始监视'}
+              </button>
+              {watchBaseline && (
+                <span className="bg-green-100 text-green-700 px-3 py-1 rounded-full">自开始监视以来新增 {newSinceWatch} 条评论</span>
+              )}
+              {watching && (
+                <span className="text-gray-500">
+                  已刷新 {watchStatus.polls} 次
+                  {watchStatus.nextAt && ` · 下次 ${new Date(watchStatus.nextAt).toLocaleTimeString('zh-CN')}`}
+                </span>
+              )}
+              {watchStatus.error && <span className="text-amber-600">{watchStatus.error}</span>}
+            </div>
+          )}
+
+          {snapshotTime !== null && !loading && (
+            <div className="mt-4 p-3 bg-slate-50 border border-slate-200 rounded-lg flex items-center justify-between">
+              <p className="text-sm text-slate-700">
+                🕘 当前结果来自 {new Date(snapshotTime).toLocaleString('zh-CN')} 保存的快照
+              </p>
+              <button
+                onClick={() => extractComments()}
+                className="px-3 py-1 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors text-sm font-medium"
+              >
+                重新提取
+              </button>
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
               <p className="text-red-600">{error}</p>
@@ -226,56 +769,135 @@ export default function Home() {
           )}
         </div>
 
+        {/* 历史快照 */}
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-800">🕘 历史快照</h3>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              {showHistory ? '收起' : '展开'}
+            </button>
+          </div>
+          {showHistory && (
+            <div className="mt-4">
+              <HistoryPanel store={getStore()} version={historyVersion} onOpen={openSnapshot} onCompare={compareSnapshots} />
+            </div>
+          )}
+        </div>
+
+        {/* 帖子信息 */}
+        {post && (
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500 mb-2">
+              <span className="font-semibold text-gray-700">r/{post.subreddit}</span>
+              <span>·</span>
+              <span>u/{post.author}</span>
+              <span>·</span>
+              <span>{formatDate(post.created_utc)}</span>
+              {post.flair && (
+                <span className="bg-gray-100 px-2 py-0.5 rounded-full text-xs text-gray-600">{post.flair}</span>
+              )}
+            </div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-3">
+              <a href={post.permalink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">
+                {post.title}
+              </a>
+            </h2>
+            {post.selftext && (
+              bodyView === 'rendered' ? (
+                <div className="text-gray-700 mb-3"><Markdown source={post.selftext} highlight={null} /></div>
+              ) : (
+                <p className="text-gray-700 whitespace-pre-wrap mb-3">{post.selftext}</p>
+              )
+            )}
+            {post.url && post.url !== post.permalink && (
+              <a href={post.url} target="_blank" rel="noopener noreferrer" className="block text-sm text-blue-600 hover:underline truncate mb-3">
+                {post.url}
+              </a>
+            )}
+            <div className="flex items-center space-x-4 text-sm text-gray-500">
+              <span>👍 {post.score}</span>
+              <span>好评率 {Math.round(post.upvote_ratio * 100)}%</span>
+              <span>💬 {post.num_comments}</span>
+            </div>
+          </div>
+        )}
+
         {/* 排序控制面板 */}
         {comments.length > 0 && (
           <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4">排序选项</h3>
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="flex items-center space-x-2">
-                <label className="text-sm font-medium text-gray-700">排序依据:</label>
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">排序与筛选</h3>
+            <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
+              {([['topLevel', '顶层评论'], ['replies', '回复']] as const).map(([level, title]) => (
+                <div key={level} className="flex items-center space-x-2">
+                  <label className="text-sm font-medium text-gray-700">{title}:</label>
+                  <select
+                    value={commentSort[level].by}
+                    onChange={(e) => updateSort(level, { by: e.target.value as SortKey })}
+                    aria-label={`${title}排序依据`}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    {SORT_KEYS.map(key => (
+                      <option key={key} value={key}>{SORT_LABELS[key].label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={commentSort[level].order}
+                    onChange={(e) => updateSort(level, { order: e.target.value as SortOrder })}
+                    aria-label={`${title}排序方式`}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    <option value="desc">{SORT_LABELS[commentSort[level].by].desc}</option>
+                    <option value="asc">{SORT_LABELS[commentSort[level].by].asc}</option>
+                  </select>
+                </div>
+              ))}
+
+              <div className="flex items-center space-x-3">
+                <span className="bg-blue-50 px-3 py-1 rounded-full text-sm text-gray-600">
+                  {describeSortSpec(commentSort.topLevel)}
+                </span>
+                
                 <select
-                  value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as SortBy)}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  aria-label="导出格式"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
                 >
-                  <option value="time">时间</option>
-                  <option value="score">点赞数</option>
+                  {EXPORT_FORMATS.map(format => (
+                    <option key={format} value={format}>{EXPORTERS[format].label}</option>
+                  ))}
                 </select>
-              </div>
-              
-              <div className="flex items-center space-x-2">
-                <label className="text-sm font-medium text-gray-700">排序方式:</label>
                 <select
-                  value={sortOrder}
-                  onChange={(e) => setSortOrder(e.target.value as SortOrder)}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  value={bodyFormat}
+                  onChange={(e) => setBodyFormat(e.target.value as BodyFormat)}
+                  aria-label="正文格式"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
                 >
-                  <option value="desc">
-                    {sortBy === 'time' ? '最新优先' : '最高优先'}
-                  </option>
-                  <option value="asc">
-                    {sortBy === 'time' ? '最早优先' : '最低优先'}
-                  </option>
+                  {BODY_FORMATS.map(format => (
+                    <option key={format} value={format}>{BODY_FORMAT_LABELS[format]}</option>
+                  ))}
                 </select>
-              </div>
-
-              <div className="flex items-center space-x-3">
-                <span className="bg-blue-50 px-3 py-1 rounded-full text-sm text-gray-600">
-                  {sortBy === 'time' 
-                    ? (sortOrder === 'desc' ? '📅 最新优先' : '📅 最早优先')
-                    : (sortOrder === 'desc' ? '👍 最高优先' : '👎 最低优先')
-                  }
-                </span>
-                
                 <button
-                  onClick={exportToExcel}
+                  onClick={exportComments}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium text-sm flex items-center space-x-2"
                 >
                   <span>📊</span>
-                  <span>导出Excel</span>
+                  <span>导出</span>
                 </button>
               </div>
             </div>
+
+            <FilterPanel
+              form={filterForm}
+              onChange={setFilterForm}
+              error={getFilterError(filter)}
+              matched={matchedIds.size}
+              total={totalCount}
+              active={filterActive}
+            />
           </div>
         )}
 
@@ -286,14 +908,134 @@ export default function Home() {
           </div>
         )}
 
-        {sortedComments.length > 0 && (
+        {/* 提取进度日志 */}
+        {(loading || error) && progress.log.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <div className="flex flex-wrap gap-3 mb-4 text-sm">
+              <span className="bg-blue-50 px-3 py-1 rounded-full text-gray-600">请求次数 {progress.attempts}</span>
+              <span className="bg-blue-50 px-3 py-1 rounded-full text-gray-600">最近状态 {progress.lastStatus ?? '-'}</span>
+              <span className="bg-blue-50 px-3 py-1 rounded-full text-gray-600">已解析评论 {progress.comments}</span>
+              <span className="bg-blue-50 px-3 py-1 rounded-full text-gray-600">
+                折叠节点 {progress.moreResolved} 已展开 / {progress.morePending} 待展开
+              </span>
+            </div>
+            <div className="max-h-48 overflow-y-auto bg-gray-50 rounded-lg p-3 font-mono text-xs text-gray-600 space-y-1">
+              {progress.log.map((line, index) => (
+                <div key={index}>{line}</div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {filterActive && visibleComments.length === 0 && comments.length > 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-600">没有符合筛选条件的评论</p>
+          </div>
+        )}
+
+        {visibleComments.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-800">📈 统计分析</h3>
+              <button
+                onClick={() => setShowAnalytics(!showAnalytics)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                {showAnalytics ? '收起' : '展开'}
+              </button>
+            </div>
+            {analytics && (
+              <div className="mt-4">
+                <AnalyticsPanel analytics={analytics} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {visibleComments.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-800">🔤 词频分析</h3>
+              <button
+                onClick={() => setShowTextAnalysis(!showTextAnalysis)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                {showTextAnalysis ? '收起' : '展开'}
+              </button>
+            </div>
+            {showTextAnalysis && (
+              <div className="mt-4">
+                <TextAnalysisPanel
+                  comments={textSource}
+                  selected={filterForm.term}
+                  onSelectTerm={(term) => setFilterForm({ ...filterForm, term })}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {visibleComments.length > 0 && (
           <div className="bg-white rounded-xl shadow-lg p-6">
-            <h2 className="text-2xl font-bold text-gray-800 mb-6">
-              评论 ({sortedComments.length})
-            </h2>
-            <div className="space-y-4">
-              {sortedComments.map(comment => renderComment(comment))}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <h2 className="text-2xl font-bold text-gray-800">
+                评论 ({filterActive ? `${matchedIds.size} / ${totalCount}` : totalCount})
+              </h2>
+              <div role="group" aria-label="正文显示方式" className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                {([['rendered', '渲染'], ['raw', '原文']] as const).map(([view, label]) => (
+                  <button
+                    key={view}
+                    onClick={() => setBodyView(view)}
+                    aria-pressed={bodyView === view}
+                    className={`px-3 py-1 transition-colors ${bodyView === view ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
             </div>
+            {moreStats && (moreStats.resolved > 0 || moreStats.unresolved > 0) && (
+              <p className={`-mt-4 mb-6 text-sm ${moreStats.unresolved > 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+                已展开 {moreStats.resolved} 个折叠的评论节点
+                {moreStats.unresolved > 0 && `，仍有 ${moreStats.unresolved} 个未展开，评论可能不完整`}
+              </p>
+            )}
+            {upstream && (upstream.sort || upstream.limit !== null || upstream.depth !== null) && (
+              <p className="-mt-4 mb-6 text-sm text-gray-500">Reddit 请求参数: {describeUpstreamParams(upstream)}</p>
+            )}
+            {diffState && (
+              <div className="mb-6 p-3 bg-indigo-50 border border-indigo-200 rounded-lg flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-indigo-800">
+                  对比 {new Date(diffState.from).toLocaleString('zh-CN')} → {new Date(diffState.to).toLocaleString('zh-CN')}
+                </span>
+                {CHANGE_KINDS.map(kind => (
+                  <span key={kind} className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_BADGE_CLASSES[kind]}`}>
+                    {CHANGE_LABELS[kind]} {diffState.diff.counts[kind]}
+                  </span>
+                ))}
+                <label className="flex items-center space-x-1 text-gray-700">
+                  <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+                  <span>只看有变化的评论</span>
+                </label>
+                <select
+                  value={diffExportFormat}
+                  onChange={(e) => setDiffExportFormat(e.target.value as DiffExportFormat)}
+                  aria-label="对比导出格式"
+                  className="ml-auto px-2 py-1 border border-gray-300 rounded-lg outline-none text-sm"
+                >
+                  {DIFF_EXPORT_FORMATS.map(format => (
+                    <option key={format} value={format}>{DIFF_EXPORTERS[format].label}</option>
+                  ))}
+                </select>
+                <button onClick={exportDiff} className="px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
+                  导出变化
+                </button>
+                <button onClick={exitDiff} className="text-indigo-700 hover:underline">
+                  退出对比
+                </button>
+              </div>
+            )}
+            <CommentTree comments={visibleComments} renderComment={renderComment} />
           </div>
         )}
 
@@ -0,0 +1,107 @@
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { CliIO, EXIT_CODES, getExitCode, run } from './index';
+
+// 回放接口路由测试录制的响应，不访问网络
+const FIXTURES_DIR = path.join(__dirname, '../app/api/reddit/__fixtures__');
+const THREAD_URL = 'https://www.reddit.com/r/test/comments/abc123/hello_world/';
+const DOWN_URL = 'https://www.reddit.com/r/test/comments/down/post/';
+
+const createIO = (stdin: string | null = null) => {
+  const output: (string | Uint8Array)[] = [];
+  const files = new Map<string, string | Uint8Array>();
+  let errors = '';
+  const io: CliIO = {
+    readStdin: async () => stdin ?? '',
+    stdinIsTTY: stdin === null,
+    stdout: data => output.push(data),
+    stderr: text => {
+      errors += text;
+    },
+    writeFile: async (file, data) => {
+      files.set(file, data);
+    },
+    env: {
+      NODE_ENV: 'test',
+      REDDIT_TRANSPORT: 'replay',
+      REDDIT_FIXTURES_DIR: FIXTURES_DIR,
+      REDDIT_CACHE: 'off'
+    },
+    now: () => new Date('2024-01-01T00:00:00Z')
+  };
+  return { io, output, files, errors: () => errors };
+};
+
+describe('run', () => {
+  it('exports one thread sorted as requested to stdout', async () => {
+    const { io, output, errors } = createIO();
+    const code = await run(['extract', THREAD_URL, '--format', 'json', '--sort', 'score', '--order', 'asc', '--out', '-'], io);
+
+    expect(code).toBe(EXIT_CODES.ok);
+    const data = JSON.parse(output.join(''));
+    expect(data.post).toMatchObject({ id: 'abc123' });
+    const scores = data.comments.map((comment: { score: number }) => comment.score);
+    expect(scores).toEqual([...scores].sort((a, b) => a - b));
+    expect(errors()).toContain('✅');
+  });
+
+  it('reads a url list from stdin, skipping comments and duplicates', async () => {
+    const { io, files } = createIO(`# 每日任务\n${THREAD_URL}\n\n${THREAD_URL}\n`);
+    const code = await run(['extract', '--format', 'csv', '--body', 'plain'], io);
+
+    expect(code).toBe(EXIT_CODES.ok);
+    expect([...files.keys()]).toEqual(['Reddit评论_2024-01-01T00-00-00.csv']);
+  });
+
+  it('combines several threads, still exporting the successful ones, and exits with the first failure', async () => {
+    const { io, files, errors } = createIO(`${THREAD_URL}\n${DOWN_URL}\n`);
+    const code = await run(['extract', '--format', 'xlsx', '--out', 'out.xlsx'], io);
+
+    expect(code).toBe(EXIT_CODES.upstream);
+    expect(files.get('out.xlsx')).toBeInstanceOf(Uint8Array);
+    expect(errors()).toContain(`❌ ${DOWN_URL}`);
+  });
+
+  it('writes request logs to stderr only with --verbose', async () => {
+    const log = vi.spyOn(console, 'log');
+    const quiet = createIO();
+    await run(['extract', THREAD_URL, '--out', '-'], quiet.io);
+    const verbose = createIO();
+    await run(['extract', THREAD_URL, '--out', '-', '--verbose'], verbose.io);
+
+    expect(quiet.errors()).not.toContain('Attempt 1/');
+    expect(verbose.errors()).toContain('Attempt 1/');
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('rejects invalid arguments before fetching', async () => {
+    const extract = vi.fn();
+    const check = async (argv: string[], stdin: string | null = null) => {
+      const { io, errors } = createIO(stdin);
+      io.extractor = { extract, crawl: vi.fn() };
+      return [await run(argv, io), errors()];
+    };
+
+    expect(await check(['extract', 'https://example.com/r/test/comments/abc123/'])).toEqual([EXIT_CODES.usage, expect.stringContaining('example.com')]);
+    expect(await check(['extract', THREAD_URL, '--sort', 'likes'])).toEqual([EXIT_CODES.usage, expect.stringContaining('--sort')]);
+    expect(await check(['extract', THREAD_URL, '--depth', '0'])).toEqual([EXIT_CODES.usage, expect.stringContaining('depth')]);
+    expect(await check(['extract', THREAD_URL, '--unknown'])).toEqual([EXIT_CODES.usage, expect.stringContaining('unknown')]);
+    expect(await check(['extract', '--format', 'html'], `${THREAD_URL}\n${DOWN_URL}`)).toEqual([EXIT_CODES.usage, expect.stringContaining('html')]);
+    expect(await check(['extract'])).toEqual([EXIT_CODES.usage, expect.stringContaining('缺少链接')]);
+    expect(await check(['crawl'])).toEqual([EXIT_CODES.usage, expect.stringContaining('crawl')]);
+    expect(extract).not.toHaveBeenCalled();
+  });
+
+  it('prints the usage', async () => {
+    const { io, output } = createIO();
+    expect(await run(['--help'], io)).toBe(EXIT_CODES.ok);
+    expect(output.join('')).toContain('reddit-comments extract');
+  });
+});
+
+describe('getExitCode', () => {
+  it('maps the route status codes to exit codes', () => {
+    expect([400, 403, 404, 429, 499, 502, 500].map(getExitCode)).toEqual([2, 3, 4, 5, 130, 6, 1]);
+  });
+});
@@ -0,0 +1,268 @@
+import { format as formatLog, parseArgs } from 'util';
+import { createExtractor, exportThread, exportThreads, Extractor, getExtractorConfigFromEnv, ThreadTarget } from '@/lib/core';
+import {
+  BATCH_EXPORT_FORMATS,
+  BatchExportFormat,
+  BodyFormat,
+  EXPORT_FORMATS,
+  ExportFormat,
+  getBatchExportFilename,
+  getExportFilename
+} from '@/lib/export';
+import { BODY_FORMATS } from '@/lib/export/fields';
+import { parseUrlList } from '@/lib/reddit/batch';
+import { describeRedditError } from '@/lib/reddit/errors';
+import type { ExtractResult } from '@/lib/reddit/extract';
+import { countComments, DELETED_MODES } from '@/lib/reddit/parse';
+import { CommentSort, DEFAULT_COMMENT_SORT, SORT_KEYS, SortKey, SortOrder, SortSpec } from '@/lib/reddit/sort';
+import { RedditLogger } from '@/lib/reddit/transport';
+import { DeletedMode } from '@/lib/reddit/types';
+import {
+  DEFAULT_MAX_MORE_REQUESTS,
+  MAX_MORE_REQUESTS_LIMIT,
+  parseRedditUrl,
+  parseUpstreamParams,
+  validateThreadUrl,
+  validateUpstreamParams
+} from '@/lib/reddit/url';
+
+// 命令行：不经过浏览器提取评论并导出，供定时任务使用
+// 退出码与接口路由的错误分类一一对应
+
+export const EXIT_CODES = {
+  ok: 0,
+  // 500: 其他错误
+  error: 1,
+  // 400: 参数或链接无效
+  usage: 2,
+  // 403: Reddit 拒绝访问
+  forbidden: 3,
+  // 404: 帖子不存在
+  notFound: 4,
+  // 429: 请求过于频繁
+  rateLimited: 5,
+  // 502: Reddit 服务器错误
+  upstream: 6,
+  // 499: 提取被取消 (Ctrl+C)
+  cancelled: 130
+} as const;
+
+const STATUS_EXIT_CODES: Record<number, number> = {
+  400: EXIT_CODES.usage,
+  403: EXIT_CODES.forbidden,
+  404: EXIT_CODES.notFound,
+  429: EXIT_CODES.rateLimited,
+  499: EXIT_CODES.cancelled,
+  502: EXIT_CODES.upstream
+};
+
+// describeRedditError 给出的状态码转换为退出码
+export const getExitCode = (status: number) => STATUS_EXIT_CODES[status] ?? EXIT_CODES.error;
+
+export interface CliIO {
+  readStdin: () => Promise<string>;
+  // 标准输入是终端时不读取链接列表
+  stdinIsTTY: boolean;
+  stdout: (data: string | Uint8Array) => void;
+  stderr: (text: string) => void;
+  writeFile: (path: string, data: string | Uint8Array) => Promise<void>;
+  signal?: AbortSignal;
+  // 默认按 env (默认 process.env) 创建，测试时注入
+  extractor?: Extractor;
+  env?: NodeJS.ProcessEnv;
+  now?: () => Date;
+}
+
+// 命令行没有真实的客户端 IP，与接口路由缺少请求头时的默认值一致
+const CLI_CLIENT_IP = '127.0.0.1';
+
+export const USAGE = `用法: reddit-comments extract [选项] <链接...>
+
+不给出链接 (或给出 -) 时从标准输入读取链接列表，每行一个，忽略空行和 # 开头的注释。
+一个链接按单帖导出，多个链接合并导出到一个文件。
+
+选项:
+  -f, --format <格式>     单帖: ${EXPORT_FORMATS.join('|')}；多帖: ${BATCH_EXPORT_FORMATS.join('|')} (默认 csv)
+  -o, --out <文件>        输出文件，- 表示标准输出 (默认按导出时间生成文件名)
+  -s, --sort <字段>       顶层评论和回复的排序: ${SORT_KEYS.join('|')} (默认 time)
+      --order <顺序>      desc|asc (默认 desc)
+      --body <格式>       正文格式: ${BODY_FORMATS.join('|')} (默认 markdown)
+      --deleted <方式>    已删除评论: ${DELETED_MODES.join('|')} (默认 placeholder)
+      --max-more <次数>   展开 "加载更多评论" 的请求上限 (默认 ${DEFAULT_MAX_MORE_REQUESTS}，最多 ${MAX_MORE_REQUESTS_LIMIT})
+      --reddit-sort <值>  转发给 Reddit 的 sort 参数
+      --limit <数量>      转发给 Reddit 的 limit 参数
+      --depth <层数>      转发给 Reddit 的 depth 参数
+      --refresh           跳过提取结果缓存
+  -v, --verbose           在标准错误输出请求日志
+  -h, --help              显示帮助
+
+退出码:
+  0 成功  1 其他错误  2 参数或链接无效  3 访问被拒绝 (403)  4 帖子不存在 (404)
+  5 请求过于频繁 (429)  6 Reddit 服务器错误  130 已取消
+  多个链接时为第一个失败链接的退出码，成功的链接仍会导出。
+`;
+
+const EXTRACT_OPTIONS = {
+  format: { type: 'string', short: 'f', default: 'csv' },
+  out: { type: 'string', short: 'o' },
+  sort: { type: 'string', short: 's' },
+  order: { type: 'string' },
+  body: { type: 'string', default: 'markdown' },
+  deleted: { type: 'string', default: 'placeholder' },
+  'max-more': { type: 'string' },
+  'reddit-sort': { type: 'string' },
+  limit: { type: 'string' },
+  depth: { type: 'string' },
+  refresh: { type: 'boolean', default: false },
+  verbose: { type: 'boolean', short: 'v', default: false },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+const usageError = (io: CliIO, message: string) => {
+  io.stderr(`${message}\n\n运行 reddit-comments --help 查看用法\n`);
+  return EXIT_CODES.usage;
+};
+
+// 参数中的链接逐个校验，标准输入的链接列表与批量提取的规则一致
+const readUrls = async (positionals: string[], io: CliIO): Promise<string[] | string> => {
+  if (positionals.length > 0 && !(positionals.length === 1 && positionals[0] === '-')) {
+    for (const url of positionals) {
+      const error = validateThreadUrl(url);
+      if (error) {
+        return `${url}: ${error}`;
+      }
+    }
+    return [...new Set(positionals)];
+  }
+  if (io.stdinIsTTY) {
+    return '缺少链接：在参数中给出链接，或从标准输入每行传入一个';
+  }
+  const { urls, errors } = parseUrlList(await io.readStdin());
+  if (errors.length > 0) {
+    return errors.join('\n');
+  }
+  return urls.length > 0 ? urls : '标准输入中没有链接';
+};
+
+async function extract(args: string[], io: CliIO): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: EXTRACT_OPTIONS, allowPositionals: true });
+  } catch (error) {
+    return usageError(io, error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return EXIT_CODES.ok;
+  }
+  if (values.sort && !SORT_KEYS.includes(values.sort as SortKey)) {
+    return usageError(io, `无效的 --sort，可选值: ${SORT_KEYS.join(', ')}`);
+  }
+  if (values.order && values.order !== 'asc' && values.order !== 'desc') {
+    return usageError(io, '无效的 --order，可选值: desc, asc');
+  }
+  if (!BODY_FORMATS.includes(values.body as BodyFormat)) {
+    return usageError(io, `无效的 --body，可选值: ${BODY_FORMATS.join(', ')}`);
+  }
+  if (!DELETED_MODES.includes(values.deleted as DeletedMode)) {
+    return usageError(io, `无效的 --deleted，可选值: ${DELETED_MODES.join(', ')}`);
+  }
+  const maxMore = values['max-more'] === undefined ? DEFAULT_MAX_MORE_REQUESTS : Number(values['max-more']);
+  if (!Number.isInteger(maxMore) || maxMore < 0) {
+    return usageError(io, '无效的 --max-more，应为非负整数');
+  }
+
+  // sort/limit/depth 与接口的查询参数使用同一套校验
+  const upstreamParams = new URLSearchParams();
+  (['reddit-sort', 'limit', 'depth'] as const).forEach(option => {
+    const value = values[option];
+    if (value !== undefined) {
+      upstreamParams.set(option === 'reddit-sort' ? 'sort' : option, value);
+    }
+  });
+  const upstreamError = validateUpstreamParams(upstreamParams);
+  if (upstreamError) {
+    return usageError(io, upstreamError);
+  }
+
+  const urls = await readUrls(positionals, io);
+  if (typeof urls === 'string') {
+    return usageError(io, urls);
+  }
+
+  const batch = urls.length > 1;
+  const formats: string[] = batch ? BATCH_EXPORT_FORMATS : EXPORT_FORMATS;
+  if (!formats.includes(values.format)) {
+    return usageError(io, `${batch ? '多个链接' : '单个链接'}不支持格式 ${values.format}，可选值: ${formats.join(', ')}`);
+  }
+
+  const spec = (level: SortSpec): SortSpec => ({
+    by: (values.sort as SortKey | undefined) ?? level.by,
+    order: (values.order as SortOrder | undefined) ?? level.order
+  });
+  const sort: CommentSort = { topLevel: spec(DEFAULT_COMMENT_SORT.topLevel), replies: spec(DEFAULT_COMMENT_SORT.replies) };
+  const options = {
+    deletedMode: values.deleted as DeletedMode,
+    maxMoreRequests: Math.min(maxMore, MAX_MORE_REQUESTS_LIMIT),
+    upstream: parseUpstreamParams(upstreamParams)
+  };
+
+  // 提取过程的日志写到标准错误，标准输出只用于导出内容
+  const toStderr = (...data: unknown[]) => io.stderr(formatLog(...data) + '\n');
+  const logger: RedditLogger = values.verbose ? { log: toStderr, error: toStderr } : { log: () => {}, error: () => {} };
+  const extractor = io.extractor ?? createExtractor(getExtractorConfigFromEnv(io.env, logger));
+
+  const results: ExtractResult[] = [];
+  let exitCode: number = EXIT_CODES.ok;
+  for (const url of urls) {
+    try {
+      const target = parseRedditUrl(url) as ThreadTarget;
+      const { result } = await extractor.extract(target, options, CLI_CLIENT_IP, values.refresh, { signal: io.signal });
+      results.push(result);
+      io.stderr(`✅ ${url}: ${countComments(result.comments)} 条评论\n`);
+    } catch (error) {
+      const { status, message } = describeRedditError(error);
+      io.stderr(`❌ ${url}: ${message}\n`);
+      exitCode = exitCode || getExitCode(status);
+      if (exitCode === EXIT_CODES.cancelled) {
+        break;
+      }
+    }
+  }
+
+  if (results.length === 0 || exitCode === EXIT_CODES.cancelled) {
+    return exitCode;
+  }
+
+  const exportedAt = io.now?.() ?? new Date();
+  const settings = { sort, bodyFormat: values.body as BodyFormat, exportedAt };
+  const content = batch
+    ? exportThreads(values.format as BatchExportFormat, results, settings)
+    : exportThread(values.format as ExportFormat, results[0], settings);
+  const data = typeof content === 'string' ? content : new Uint8Array(content);
+  const out = values.out ?? (batch
+    ? getBatchExportFilename(values.format as BatchExportFormat, exportedAt, results.length)
+    : getExportFilename(values.format as ExportFormat, exportedAt, results[0].upstream));
+
+  if (out === '-') {
+    io.stdout(data);
+  } else {
+    await io.writeFile(out, data);
+    io.stderr(`📁 已写入 ${out}\n`);
+  }
+  return exitCode;
+}
+
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    io.stdout(USAGE);
+    return EXIT_CODES.ok;
+  }
+  if (command !== 'extract') {
+    return usageError(io, `未知命令: ${command}`);
+  }
+  return extract(args, io);
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import { EXIT_CODES, run } from './index';
+
+// 命令行入口: npm run reddit-comments -- extract <链接> --format csv --out comments.csv
+
+const controller = new AbortController();
+process.on('SIGINT', () => controller.abort());
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+run(process.argv.slice(2), {
+  readStdin,
+  stdinIsTTY: !!process.stdin.isTTY,
+  stdout: data => process.stdout.write(data),
+  stderr: text => process.stderr.write(text),
+  writeFile: (path, data) => fs.writeFile(path, data),
+  signal: controller.signal
+})
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error('命令执行失败:', error);
+    process.exitCode = EXIT_CODES.error;
+  });
@@ -0,0 +1,247 @@
+'use client';
+
+import { SentimentCounts, SentimentSummary, ThreadAnalytics, TOP_LIMIT } from '@/lib/analysis/analytics';
+import { SENTIMENT_LABELS } from '@/lib/analysis/sentiment';
+import { AuthorStats } from '@/lib/export/stats';
+import { formatDate, getAuthorLabel } from '@/lib/export/fields';
+
+// 统计图表用纯 CSS 绘制，不依赖图表库或外部服务
+
+interface Bar {
+  label: string;
+  value: number;
+  title?: string;
+}
+
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+// 竖直柱状图，用于时间分布
+function ColumnChart({ bars }: { bars: Bar[] }) {
+  const max = Math.max(...bars.map(bar => bar.value), 1);
+  return (
+    <div>
+      <div className="flex items-end h-40 gap-px bg-gray-50 rounded-lg p-2">
+        {bars.map((bar, index) => (
+          <div
+            key={index}
+            title={bar.title ?? `${bar.label}: ${bar.value}`}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 rounded-t-sm min-w-px"
+            style={{ height: `${(bar.value / max) * 100}%` }}
+          />
+        ))}
+      </div>
+      {bars.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{bars[0].label}</span>
+          <span>{bars[bars.length - 1].label}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 水平条形图，用于点赞分布和层级分布
+function BarList({ bars }: { bars: Bar[] }) {
+  const max = Math.max(...bars.map(bar => bar.value), 1);
+  return (
+    <div className="space-y-1">
+      {bars.map(bar => (
+        <div key={bar.label} className="flex items-center text-xs text-gray-600">
+          <span className="w-20 shrink-0 text-right pr-2">{bar.label}</span>
+          <div className="flex-1 bg-gray-50 rounded-sm h-4">
+            <div className="bg-indigo-500 h-4 rounded-sm" style={{ width: `${(bar.value / max) * 100}%` }} />
+          </div>
+          <span className="w-12 shrink-0 pl-2">{bar.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 平均情绪分的正负柱状图，中线为 0
+function SentimentTimeline({ timeline }: { timeline: SentimentSummary['timeline'] }) {
+  return (
+    <div>
+      <div className="flex h-32 gap-px bg-gray-50 rounded-lg p-2">
+        {timeline.map((bucket, index) => (
+          <div
+            key={index}
+            title={`${formatDate(bucket.start)}: ${bucket.comments} 条，平均情绪分 ${bucket.mean}`}
+            className="flex-1 flex flex-col min-w-px"
+          >
+            <div className="h-1/2 flex items-end">
+              {bucket.mean > 0 && <div className="w-full bg-emerald-500 rounded-t-sm" style={{ height: `${bucket.mean * 100}%` }} />}
+            </div>
+            <div className="h-1/2 flex items-start border-t border-gray-300">
+              {bucket.mean < 0 && <div className="w-full bg-orange-500 rounded-b-sm" style={{ height: `${-bucket.mean * 100}%` }} />}
+            </div>
+          </div>
+        ))}
+      </div>
+      {timeline.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{formatDate(timeline[0].start)}</span>
+          <span>{formatDate(timeline[timeline.length - 1].start)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 正面、中性、负面评论的比例条
+function SentimentShare({ counts }: { counts: SentimentCounts }) {
+  const width = (value: number) => `${counts.comments ? (value / counts.comments) * 100 : 0}%`;
+  return (
+    <div
+      title={`${SENTIMENT_LABELS.positive} ${counts.positive} / ${SENTIMENT_LABELS.neutral} ${counts.neutral} / ${SENTIMENT_LABELS.negative} ${counts.negative}`}
+      className="flex h-3 w-full rounded-sm overflow-hidden bg-gray-100"
+    >
+      <div className="bg-emerald-500" style={{ width: width(counts.positive) }} />
+      <div className="bg-gray-300" style={{ width: width(counts.neutral) }} />
+      <div className="bg-orange-500" style={{ width: width(counts.negative) }} />
+    </div>
+  );
+}
+
+function AuthorTable({ title, authors }: { title: string; authors: AuthorStats[] }) {
+  return (
+    <div>
+      <h4 className="font-medium text-gray-700 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal pb-1">作者</th>
+            <th className="font-normal pb-1 text-right">评论</th>
+            <th className="font-normal pb-1 text-right">总点赞</th>
+          </tr>
+        </thead>
+        <tbody>
+          {authors.map(stats => (
+            <tr key={stats.author} className="border-t border-gray-100">
+              <td className="py-1 text-blue-600 truncate max-w-40">
+                {getAuthorLabel(stats.author)}
+                {stats.isSubmitter && <span className="ml-1 text-xs text-blue-700">楼主</span>}
+              </td>
+              <td className="py-1 text-right">{stats.comments}</td>
+              <td className="py-1 text-right">{stats.totalScore}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-blue-50 rounded-lg p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-semibold text-gray-800">{value}</div>
+    </div>
+  );
+}
+
+export default function AnalyticsPanel({ analytics }: { analytics: ThreadAnalytics }) {
+  const { summary, volume, scores, depth, op, sentiment } = analytics;
+
+  if (summary.comments === 0) {
+    return <p className="text-sm text-gray-500">没有可统计的评论</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <Stat label="评论数" value={summary.comments} />
+        <Stat label="参与作者" value={summary.authors} />
+        <Stat label="最大层级" value={depth.maxDepth} />
+        <Stat label="楼主参与讨论串" value={`${op.threads} (${percent(op.threadShare)})`} />
+        <Stat label="楼主评论占比" value={percent(op.commentShare)} />
+        <Stat label="点赞 平均 / 中位数" value={`${scores.mean} / ${scores.median}`} />
+        <Stat label="平均回复数" value={depth.averageBranching} />
+        <Stat label="无回复评论" value={percent(depth.leafRatio)} />
+      </div>
+
+      <div>
+        <h4 className="font-medium text-gray-700 mb-2">
+          评论数量随时间变化 (每柱 {volume.bucketSeconds >= 86400 ? `${volume.bucketSeconds / 86400} 天` : volume.bucketSeconds >= 3600 ? `${volume.bucketSeconds / 3600} 小时` : `${volume.bucketSeconds / 60} 分钟`})
+        </h4>
+        <ColumnChart
+          bars={volume.buckets.map(bucket => ({
+            label: formatDate(bucket.start),
+            value: bucket.count,
+            title: `${formatDate(bucket.start)}: ${bucket.count} 条`
+          }))}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-medium text-gray-700 mb-2">点赞分布</h4>
+          <BarList bars={scores.buckets.map(bucket => ({ label: bucket.label, value: bucket.count }))} />
+        </div>
+        <div>
+          <h4 className="font-medium text-gray-700 mb-2">层级分布</h4>
+          <BarList bars={depth.perDepth.map((count, level) => ({ label: `第 ${level} 层`, value: count }))} />
+        </div>
+      </div>
+
+      {sentiment.overall.comments > 0 && (
+        <div className="space-y-4">
+          <h4 className="font-medium text-gray-700">情绪分析</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <Stat label={SENTIMENT_LABELS.positive} value={`${sentiment.overall.positive} (${percent(sentiment.overall.positive / sentiment.overall.comments)})`} />
+            <Stat label={SENTIMENT_LABELS.neutral} value={sentiment.overall.neutral} />
+            <Stat label={SENTIMENT_LABELS.negative} value={`${sentiment.overall.negative} (${percent(sentiment.overall.negative / sentiment.overall.comments)})`} />
+            <Stat label="有害" value={sentiment.overall.toxic} />
+            <Stat label="平均情绪分" value={sentiment.overall.mean} />
+          </div>
+          <SentimentTimeline timeline={sentiment.timeline} />
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-normal pb-1">顶层讨论串</th>
+                <th className="font-normal pb-1 text-right">评论</th>
+                <th className="font-normal pb-1 text-right">平均</th>
+                <th className="font-normal pb-1 w-32 pl-4">分布</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sentiment.branches.slice(0, TOP_LIMIT).map(branch => (
+                <tr key={branch.id} className="border-t border-gray-100">
+                  <td className="py-1 truncate max-w-64">
+                    <a href={branch.permalink} target="_blank" rel="noopener noreferrer" className="text-gray-700 hover:text-blue-600 hover:underline">
+                      {branch.excerpt}
+                    </a>
+                  </td>
+                  <td className="py-1 text-right">{branch.comments}</td>
+                  <td className="py-1 text-right">{branch.mean}</td>
+                  <td className="py-1 pl-4"><SentimentShare counts={branch} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <AuthorTable title="评论最多的作者" authors={analytics.topAuthorsByCount} />
+        <AuthorTable title="总点赞最高的作者" authors={analytics.topAuthorsByScore} />
+      </div>
+
+      <div>
+        <h4 className="font-medium text-gray-700 mb-2">讨论最多的顶层评论</h4>
+        <ol className="space-y-2 text-sm">
+          {analytics.topThreads.map(thread => (
+            <li key={thread.id} className="flex items-start justify-between gap-4 border-t border-gray-100 pt-2">
+              <a href={thread.permalink} target="_blank" rel="noopener noreferrer" className="text-gray-700 hover:text-blue-600 hover:underline">
+                <span className="text-blue-600 mr-2">{getAuthorLabel(thread.author)}</span>
+                {thread.excerpt}
+              </a>
+              <span className="shrink-0 text-gray-500">💬 {thread.subtreeSize} · 👍 {thread.score}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { ChangeEvent, useRef, useState } from 'react';
+import { BATCH_EXPORT_FORMATS, BATCH_EXPORTERS, BatchExportFormat, BodyFormat, buildBatchExport, getBatchExportFilename } from '@/lib/export';
+import { BODY_FORMAT_LABELS, BODY_FORMATS } from '@/lib/export/fields';
+import { fetchExtraction } from '@/lib/reddit/api';
+import {
+  BatchItem,
+  BatchStatus,
+  createBatchItems,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  parseUrlList,
+  runBatch
+} from '@/lib/reddit/batch';
+import type { ExtractResult } from '@/lib/reddit/extract';
+import { countComments } from '@/lib/reddit/parse';
+import { CommentSort, sortComments } from '@/lib/reddit/sort';
+
+// 批量提取：粘贴或上传链接列表，逐个提取后合并导出，失败的链接可以单独重试
+
+interface BatchPanelProps {
+  // 与单个提取共用的接口参数 (deleted/sort/limit/depth)
+  requestParams: Record<string, string>;
+  // 导出前按页面当前的排序整理每个帖子的评论
+  commentSort: CommentSort;
+  onOpen: (url: string, result: ExtractResult) => void;
+  // 每个链接提取完成时调用，用于保存快照
+  onExtracted: (url: string, result: ExtractResult) => void;
+}
+
+const STATUS_BADGES: Record<BatchStatus, { label: string; className: string }> = {
+  pending: { label: '等待中', className: 'bg-gray-100 text-gray-600' },
+  running: { label: '提取中', className: 'bg-blue-100 text-blue-700' },
+  done: { label: '完成', className: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: '失败', className: 'bg-red-100 text-red-700' }
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+export default function BatchPanel({ requestParams, commentSort, onOpen, onExtracted }: BatchPanelProps) {
+  const [text, setText] = useState('');
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [running, setRunning] = useState(false);
+  const [exportFormat, setExportFormat] = useState<BatchExportFormat>('xlsx');
+  const [bodyFormat, setBodyFormat] = useState<BodyFormat>('markdown');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // indexes 为要提取的条目，重试时只包含失败的链接
+  const run = async (targets: BatchItem[], indexes: number[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setItems(targets.map((item, index) => indexes.includes(index) ? { ...item, status: 'pending', error: null } : item));
+
+    await runBatch(indexes.map(index => targets[index].url), (url, signal) => fetchExtraction(url, requestParams, signal), {
+      concurrency,
+      signal: controller.signal,
+      // 取消或重新开始后，旧任务的状态更新不再生效
+      onUpdate: (position, update) => {
+        if (!controller.signal.aborted) {
+          setItems(current => current.map((item, index) => index === indexes[position] ? { ...item, ...update } : item));
+          if (update.result) {
+            onExtracted(targets[indexes[position]].url, update.result);
+          }
+        }
+      }
+    });
+
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const start = () => {
+    const { urls, errors } = parseUrlList(text);
+    setParseErrors(errors);
+    if (urls.length === 0) {
+      return;
+    }
+    abortRef.current?.abort();
+    const next = createBatchItems(urls);
+    run(next, next.map((_, index) => index));
+  };
+
+  const retryFailed = () => {
+    const indexes = items.flatMap((item, index) => item.status === 'failed' || item.status === 'pending' ? [index] : []);
+    run(items, indexes);
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(false);
+    setItems(current => current.map(item => item.status === 'running' ? { ...item, status: 'pending' } : item));
+  };
+
+  const loadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const content = await file.text();
+      setText(current => current.trim() ? `${current.trimEnd()}\n${content}` : content);
+    }
+    event.target.value = '';
+  };
+
+  const exportAll = () => {
+    const threads = items.flatMap(item => item.result
+      ? [{ post: item.result.post, comments: sortComments(item.result.comments, commentSort), upstream: item.result.upstream }]
+      : []);
+    if (threads.length === 0) {
+      alert('没有已完成的帖子可导出');
+      return;
+    }
+
+    try {
+      const exportedAt = new Date();
+      const blob = buildBatchExport(exportFormat, { threads, exportedAt }, bodyFormat);
+      const filename = getBatchExportFilename(exportFormat, exportedAt, threads.length);
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('导出时出错:', error);
+      alert('导出失败，请重试');
+    }
+  };
+
+  const counts = items.reduce((total, item) => ({ ...total, [item.status]: total[item.status] + 1 }), { pending: 0, running: 0, done: 0, failed: 0 });
+  const retryable = counts.failed + (running ? 0 : counts.pending);
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={6}
+        placeholder="每行一个 Reddit 帖子链接，# 开头的行会被忽略"
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm font-mono"
+      />
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="px-3 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer">
+          从文本文件导入
+          <input type="file" accept=".txt,text/plain" onChange={loadFile} className="hidden" />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>并发数</span>
+          <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className={inputClass}>
+            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={start}
+          disabled={!text.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {running ? '重新开始' : '开始批量提取'}
+        </button>
+        {running && (
+          <button onClick={cancel} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium">
+            取消
+          </button>
+        )}
+        {!running && retryable > 0 && (
+          <button onClick={retryFailed} className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors font-medium">
+            重试未完成的链接 ({retryable})
+          </button>
+        )}
+      </div>
+
+      {parseErrors.length > 0 && (
+        <ul className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600 space-y-1">
+          {parseErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {items.length > 0 && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-3 mb-2 text-sm text-gray-600">
+            <span>共 {items.length} 个链接 · 完成 {counts.done} · 失败 {counts.failed} · 进行中 {counts.running}</span>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as BatchExportFormat)}
+              aria-label="合并导出格式"
+              className={`ml-auto ${inputClass}`}
+            >
+              {BATCH_EXPORT_FORMATS.map(format => (
+                <option key={format} value={format}>{BATCH_EXPORTERS[format].label}</option>
+              ))}
+            </select>
+            <select
+              value={bodyFormat}
+              onChange={(e) => setBodyFormat(e.target.value as BodyFormat)}
+              aria-label="正文格式"
+              className={inputClass}
+            >
+              {BODY_FORMATS.map(format => (
+                <option key={format} value={format}>{BODY_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            <button
+              onClick={exportAll}
+              disabled={counts.done === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              合并导出 ({counts.done})
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">链接</th>
+                  <th className="px-3 py-2 text-left w-20">状态</th>
+                  <th className="px-3 py-2 text-right w-20">评论数</th>
+                  <th className="px-3 py-2 w-16" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={index} className="border-t border-gray-100 align-top">
+                    <td className="px-3 py-2">
+                      <p className="text-gray-800 break-all">{item.result?.post?.title ?? item.url}</p>
+                      {item.result?.post && <p className="text-xs text-gray-400 break-all">{item.url}</p>}
+                      {item.error && <p className={`text-xs ${item.status === 'failed' ? 'text-red-600' : 'text-amber-600'}`}>{item.error}</p>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_BADGES[item.status].className}`}>
+                        {STATUS_BADGES[item.status].label}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {item.result ? countComments(item.result.comments) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {item.result && (
+                        <button onClick={() => onOpen(item.url, item.result!)} className="text-blue-600 hover:underline">
+                          查看
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
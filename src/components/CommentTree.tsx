@@ -0,0 +1,281 @@
+'use client';
+
+import { KeyboardEvent, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  collapseBelowDepth,
+  findCommentPath,
+  findFirstChildIndex,
+  findParentIndex,
+  findSiblingIndex,
+  flattenTree,
+  MAX_NEST_LEVEL,
+  TreeRow
+} from '@/lib/reddit/tree';
+import { ParsedComment } from '@/lib/reddit/types';
+
+// 可折叠的评论树，只渲染滚动区域附近的行，上万条评论也能流畅滚动
+// 行高在渲染后测量，尚未测量的行按估计值占位
+
+interface CommentTreeProps {
+  comments: ParsedComment[];
+  renderComment: (comment: ParsedComment) => ReactNode;
+}
+
+const ESTIMATED_ROW_HEIGHT = 140;
+// 可视区域上下额外渲染的高度
+const OVERSCAN = 800;
+const INDENT = 16;
+
+const getRowKey = (row: TreeRow) => row.type === 'comment' ? row.comment.id : `${row.comment.id}:continue`;
+
+// 第一个大于 value 的下标
+const upperBound = (offsets: number[], value: number) => {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle] <= value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+export default function CommentTree({ comments, renderComment }: CommentTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  // "继续查看此讨论串" 时作为根节点的评论
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [collapseDepth, setCollapseDepth] = useState('1');
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  // 筛选后聚焦的评论可能已不在树中，此时回到完整视图
+  const focusPath = useMemo(() => focusId ? findCommentPath(comments, focusId) : null, [comments, focusId]);
+  const roots = useMemo(() => focusPath ? [focusPath[focusPath.length - 1]] : comments, [focusPath, comments]);
+  const rows = useMemo(() => flattenTree(roots, collapsed), [roots, collapsed]);
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    rows.forEach((row, index) => result.push(result[index] + (heights.get(getRowKey(row)) ?? ESTIMATED_ROW_HEIGHT)));
+    return result;
+  }, [rows, heights]);
+
+  const start = Math.max(upperBound(offsets, scrollTop - OVERSCAN) - 1, 0);
+  const end = Math.min(upperBound(offsets, scrollTop + viewportHeight + OVERSCAN), rows.length);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // 每一行挂载时开始观察其高度，卸载时停止
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (!element) {
+      return;
+    }
+    observerRef.current ??= new ResizeObserver(entries => {
+      setHeights(previous => {
+        let next = previous;
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.key!;
+          const height = Math.ceil(entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height);
+          if (height > 0 && previous.get(key) !== height) {
+            if (next === previous) {
+              next = new Map(previous);
+            }
+            next.set(key, height);
+          }
+        }
+        return next;
+      });
+    });
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (!next.delete(id)) {
+      next.add(id);
+    }
+    setCollapsed(next);
+  };
+
+  const openThread = (id: string | null) => {
+    setFocusId(id);
+    setSelectedKey(id);
+    containerRef.current?.scrollTo({ top: 0 });
+  };
+
+  // 把选中的行滚动到可视区域内
+  const select = (index: number) => {
+    setSelectedKey(getRowKey(rows[index]));
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    if (offsets[index] < container.scrollTop) {
+      container.scrollTop = offsets[index];
+    } else if (offsets[index + 1] > container.scrollTop + container.clientHeight) {
+      container.scrollTop = offsets[index + 1] - container.clientHeight;
+    }
+  };
+
+  // ↑↓ 同级评论，← 上级评论，→ 第一条回复，Enter/空格 折叠或展开
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (rows.length === 0 || (event.target as HTMLElement).closest('a, button, input, select')) {
+      return;
+    }
+    const index = rows.findIndex(row => getRowKey(row) === selectedKey);
+    if (index === -1) {
+      if (['ArrowDown', 'ArrowUp', 'ArrowLeft', 'ArrowRight'].includes(event.key)) {
+        event.preventDefault();
+        select(upperBound(offsets, containerRef.current?.scrollTop ?? 0) - 1);
+      }
+      return;
+    }
+
+    const row = rows[index];
+    let target: number | null = null;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'j':
+        target = findSiblingIndex(rows, index, 1);
+        break;
+      case 'ArrowUp':
+      case 'k':
+        target = findSiblingIndex(rows, index, -1);
+        break;
+      case 'ArrowLeft':
+      case 'h':
+        target = findParentIndex(rows, index);
+        break;
+      case 'ArrowRight':
+      case 'l':
+        if (row.type === 'comment' && row.collapsed) {
+          toggle(row.comment.id);
+        } else {
+          target = findFirstChildIndex(rows, index);
+        }
+        break;
+      case 'Enter':
+      case ' ':
+        if (row.type === 'continue') {
+          openThread(row.comment.id);
+        } else if (row.descendants > 0) {
+          toggle(row.comment.id);
+        }
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    if (target !== null) {
+      select(target);
+    }
+  };
+
+  const parentOfFocus = focusPath && focusPath.length > MAX_NEST_LEVEL ? focusPath[focusPath.length - 1 - MAX_NEST_LEVEL] : null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+        <button onClick={() => setCollapsed(new Set())} className="text-blue-600 hover:underline">全部展开</button>
+        <button onClick={() => setCollapsed(collapseBelowDepth(roots, 0))} className="text-blue-600 hover:underline">只看顶层</button>
+        <label className="flex items-center space-x-2">
+          <span>折叠第</span>
+          <input type="number" min={0} value={collapseDepth} onChange={(e) => setCollapseDepth(e.target.value)} className={`w-16 ${inputClass}`} />
+          <span>层以下</span>
+        </label>
+        <button
+          onClick={() => setCollapsed(collapseBelowDepth(roots, Math.max(parseInt(collapseDepth, 10) || 0, 0)))}
+          className="px-3 py-1 bg-gray-100 rounded-lg hover:bg-gray-200"
+        >
+          应用
+        </button>
+        <span className="text-xs text-gray-400 ml-auto">↑↓ 同级 · ← 上级 · → 回复 · Enter 折叠/展开</span>
+      </div>
+
+      {focusPath && (
+        <div className="flex items-center gap-4 mb-4 text-sm">
+          <button onClick={() => openThread(null)} className="text-blue-600 hover:underline">← 返回完整评论树</button>
+          {parentOfFocus && (
+            <button onClick={() => openThread(parentOfFocus.id)} className="text-blue-600 hover:underline">返回上一段</button>
+          )}
+          <span className="text-gray-500">正在查看第 {focusPath.length - 1} 层开始的讨论串</span>
+        </div>
+      )}
+
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        role="tree"
+        aria-label="评论"
+        className="h-[75vh] overflow-y-auto outline-none focus-visible:ring-2 focus-visible:ring-blue-300 rounded-lg"
+      >
+        <div style={{ paddingTop: offsets[start], paddingBottom: offsets[rows.length] - offsets[end] }}>
+          {rows.slice(start, end).map(row => {
+            const key = getRowKey(row);
+            return (
+              <div
+                key={key}
+                ref={measureRow}
+                data-key={key}
+                role="treeitem"
+                aria-level={row.level + 1}
+                aria-expanded={row.type === 'comment' && row.descendants > 0 ? !row.collapsed : undefined}
+                aria-selected={key === selectedKey}
+                onClick={() => setSelectedKey(key)}
+                className="pb-4"
+                style={{ marginLeft: row.level * INDENT }}
+              >
+                {row.type === 'continue' ? (
+                  <button
+                    onClick={() => openThread(row.comment.id)}
+                    className={`border-l-2 border-gray-200 pl-4 text-sm text-blue-600 hover:underline ${key === selectedKey ? 'ring-2 ring-blue-400 rounded' : ''}`}
+                  >
+                    继续查看此讨论串 ({row.descendants} 条回复) →
+                  </button>
+                ) : (
+                  <div className={`border-l-2 border-gray-200 pl-4 ${key === selectedKey ? 'ring-2 ring-blue-400 rounded-lg' : ''}`}>
+                    {renderComment(row.comment)}
+                    {row.descendants > 0 && (
+                      <button
+                        onClick={() => {
+                          toggle(row.comment.id);
+                          setSelectedKey(key);
+                        }}
+                        aria-label={row.collapsed ? `展开 ${row.descendants} 条回复` : '收起回复'}
+                        className="mt-1 text-xs text-gray-500 hover:text-blue-600"
+                      >
+                        {row.collapsed ? `▸ 展开 ${row.descendants} 条回复` : `▾ 收起 ${row.descendants} 条回复`}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
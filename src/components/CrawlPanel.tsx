@@ -0,0 +1,333 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { BATCH_EXPORT_FORMATS, BATCH_EXPORTERS, BatchExportFormat, BodyFormat, buildBatchExport, getBatchExportFilename } from '@/lib/export';
+import { BODY_FORMAT_LABELS, BODY_FORMATS } from '@/lib/export/fields';
+import type { ExtractResult } from '@/lib/reddit/extract';
+import type { CrawlResult, CrawlStopReason } from '@/lib/reddit/listing';
+import { countComments } from '@/lib/reddit/parse';
+import { describeProgress, readStreamMessages, StreamMessage } from '@/lib/reddit/progress';
+import { CommentSort, sortComments } from '@/lib/reddit/sort';
+import {
+  DEFAULT_CRAWL_LIMITS,
+  DEFAULT_UPSTREAM_PARAMS,
+  describeListing,
+  InvalidRedditUrlError,
+  MAX_CRAWL_ITEMS,
+  MAX_CRAWL_PAGES,
+  MAX_CRAWL_THREADS,
+  parseListingUrl,
+  RedditListingRef
+} from '@/lib/reddit/url';
+import { toTimestamp } from './FilterPanel';
+
+// 版块/用户抓取：沿列表分页收集帖子或评论，结果按帖子分组，可逐个查看或合并导出
+
+interface CrawlPanelProps {
+  // 与单个提取共用的接口参数 (deleted/sort/limit/depth)
+  requestParams: Record<string, string>;
+  // 导出前按页面当前的排序整理每个帖子的评论
+  commentSort: CommentSort;
+  onOpen: (url: string, result: ExtractResult) => void;
+}
+
+const STOP_REASON_LABELS: Record<CrawlStopReason, string> = {
+  exhausted: '列表已读完',
+  max_items: '达到数量上限',
+  max_pages: '达到页数上限',
+  since: '已读到起始日期之前',
+  error: '读取列表出错'
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+const parseListing = (url: string): RedditListingRef | null => {
+  try {
+    return parseListingUrl(url.trim());
+  } catch {
+    return null;
+  }
+};
+
+export default function CrawlPanel({ requestParams, commentSort, onOpen }: CrawlPanelProps) {
+  const [url, setUrl] = useState('');
+  const [maxItems, setMaxItems] = useState(String(DEFAULT_CRAWL_LIMITS.maxItems));
+  const [maxPages, setMaxPages] = useState(String(DEFAULT_CRAWL_LIMITS.maxPages));
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [includeComments, setIncludeComments] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<CrawlResult | null>(null);
+  const [exportFormat, setExportFormat] = useState<BatchExportFormat>('xlsx');
+  const [bodyFormat, setBodyFormat] = useState<BodyFormat>('markdown');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const listing = parseListing(url);
+  const itemLimit = listing?.type === 'subreddit' && includeComments ? MAX_CRAWL_THREADS : MAX_CRAWL_ITEMS;
+
+  const start = async () => {
+    try {
+      parseListingUrl(url.trim());
+    } catch (error) {
+      setError(error instanceof InvalidRedditUrlError ? error.message : '无效的URL格式');
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError('');
+    setResult(null);
+    setProgress('');
+
+    const params: Record<string, string> = { ...requestParams, url: url.trim(), stream: '1', maxItems, maxPages };
+    const sinceTimestamp = toTimestamp(since, false);
+    const untilTimestamp = toTimestamp(until, true);
+    if (sinceTimestamp !== null) {
+      params.since = String(sinceTimestamp);
+    }
+    if (untilTimestamp !== null) {
+      params.until = String(untilTimestamp);
+    }
+    if (listing?.type === 'subreddit' && includeComments) {
+      params.comments = '1';
+    }
+
+    const handleMessage = (message: StreamMessage) => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (message.type === 'crawl') {
+        setResult(message);
+      } else if (message.type === 'failed') {
+        setError(message.error);
+      } else if (message.type !== 'cache' && message.type !== 'result') {
+        setProgress(describeProgress(message));
+      }
+    };
+
+    try {
+      const response = await fetch(`/api/reddit?${new URLSearchParams(params)}`, { signal: controller.signal });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '抓取失败');
+      }
+      await readStreamMessages(response.body, handleMessage);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setError(error instanceof Error ? error.message : '抓取失败');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(false);
+    setProgress('');
+  };
+
+  const threadUrl = (thread: ExtractResult) => thread.post?.permalink ?? url.trim();
+
+  // 用户评论分散在多个帖子中，合并成一棵没有帖子信息的评论树
+  const openAll = () => {
+    if (!result) {
+      return;
+    }
+    onOpen(url.trim(), {
+      post: null,
+      comments: result.threads.flatMap(thread => thread.comments),
+      more: { resolved: 0, unresolved: 0, requests: 0 },
+      upstream: result.threads[0]?.upstream ?? DEFAULT_UPSTREAM_PARAMS
+    });
+  };
+
+  const exportAll = () => {
+    if (!result || result.threads.length === 0) {
+      alert('没有可导出的内容');
+      return;
+    }
+
+    try {
+      const exportedAt = new Date();
+      const threads = result.threads.map(thread => ({
+        post: thread.post,
+        comments: sortComments(thread.comments, commentSort),
+        upstream: thread.upstream
+      }));
+      const blob = buildBatchExport(exportFormat, { threads, exportedAt }, bodyFormat);
+      const filename = getBatchExportFilename(exportFormat, exportedAt, threads.length);
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('导出时出错:', error);
+      alert('导出失败，请重试');
+    }
+  };
+
+  const totalComments = result ? result.threads.reduce((total, thread) => total + countComments(thread.comments), 0) : 0;
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="https://www.reddit.com/r/<版块>/new 、/r/<版块>/top?t=week 或 /user/<用户名>/comments"
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+      />
+      {listing && <p className="mt-1 text-xs text-gray-500">{describeListing(listing)}</p>}
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>最多</span>
+          <input
+            type="number"
+            min={1}
+            max={itemLimit}
+            value={maxItems}
+            onChange={(e) => setMaxItems(e.target.value)}
+            className={`w-24 ${inputClass}`}
+          />
+          <span>{listing?.type === 'user' ? '条评论' : '个帖子'}</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>最多</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_CRAWL_PAGES}
+            value={maxPages}
+            onChange={(e) => setMaxPages(e.target.value)}
+            className={`w-20 ${inputClass}`}
+          />
+          <span>页</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>日期</span>
+          <input type="date" value={since} onChange={(e) => setSince(e.target.value)} className={inputClass} />
+          <span>至</span>
+          <input type="date" value={until} onChange={(e) => setUntil(e.target.value)} className={inputClass} />
+        </label>
+        {listing?.type === 'subreddit' && (
+          <label className="flex items-center space-x-2" title={`获取评论时最多 ${MAX_CRAWL_THREADS} 个帖子`}>
+            <input type="checkbox" checked={includeComments} onChange={(e) => setIncludeComments(e.target.checked)} />
+            <span>同时获取每个帖子的评论</span>
+          </label>
+        )}
+        <button
+          onClick={start}
+          disabled={!url.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {running ? '重新开始' : '开始抓取'}
+        </button>
+        {running && (
+          <button onClick={cancel} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium">
+            取消
+          </button>
+        )}
+      </div>
+
+      {running && progress && <p className="mt-3 text-sm text-gray-500">{progress}</p>}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">{error}</div>
+      )}
+
+      {result && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-3 mb-2 text-sm text-gray-600">
+            <span>
+              {describeListing(result.listing)} · 读取 {result.pages} 页 · 收集 {result.items} 条 · {result.threads.length} 个帖子 · {totalComments} 条评论 · {STOP_REASON_LABELS[result.stopReason]}
+            </span>
+            <button onClick={openAll} disabled={totalComments === 0} className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline">
+              合并查看全部评论
+            </button>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as BatchExportFormat)}
+              aria-label="合并导出格式"
+              className={`ml-auto ${inputClass}`}
+            >
+              {BATCH_EXPORT_FORMATS.map(format => (
+                <option key={format} value={format}>{BATCH_EXPORTERS[format].label}</option>
+              ))}
+            </select>
+            <select
+              value={bodyFormat}
+              onChange={(e) => setBodyFormat(e.target.value as BodyFormat)}
+              aria-label="正文格式"
+              className={inputClass}
+            >
+              {BODY_FORMATS.map(format => (
+                <option key={format} value={format}>{BODY_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            <button
+              onClick={exportAll}
+              disabled={result.threads.length === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              合并导出 ({result.threads.length})
+            </button>
+          </div>
+
+          {result.errors.length > 0 && (
+            <ul className="mb-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700 space-y-1">
+              {result.errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">帖子</th>
+                  <th className="px-3 py-2 text-right w-20">分数</th>
+                  <th className="px-3 py-2 text-right w-20">评论数</th>
+                  <th className="px-3 py-2 w-16" />
+                </tr>
+              </thead>
+              <tbody>
+                {result.threads.map(thread => (
+                  <tr key={thread.post?.id} className="border-t border-gray-100 align-top">
+                    <td className="px-3 py-2">
+                      <p className="text-gray-800 break-all">{thread.post?.title}</p>
+                      <p className="text-xs text-gray-400">r/{thread.post?.subreddit} · u/{thread.post?.author}</p>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {result.listing.type === 'subreddit' ? thread.post?.score : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {thread.comments.length > 0 ? countComments(thread.comments) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {thread.comments.length > 0 && (
+                        <button onClick={() => onOpen(threadUrl(thread), thread)} className="text-blue-600 hover:underline">
+                          查看
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
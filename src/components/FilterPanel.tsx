@@ -0,0 +1,172 @@
+'use client';
+
+import { SENTIMENT_LABELS } from '@/lib/analysis/sentiment';
+import { CommentFilter, parseAuthorList } from '@/lib/reddit/filter';
+import { SentimentLabel } from '@/lib/reddit/types';
+
+// 筛选表单保存输入框的原始文本，提交给筛选逻辑前再转换
+
+export interface FilterForm {
+  query: string;
+  regex: boolean;
+  includeAuthors: string;
+  excludeAuthors: string;
+  minScore: string;
+  maxScore: string;
+  from: string;
+  to: string;
+  maxDepth: string;
+  opOnly: boolean;
+  sentiment: SentimentLabel | '';
+  toxicOnly: boolean;
+  // 来自词频统计的点选，不在表单中直接编辑
+  term: CommentFilter['term'];
+}
+
+export const EMPTY_FILTER_FORM: FilterForm = {
+  query: '',
+  regex: false,
+  includeAuthors: '',
+  excludeAuthors: '',
+  minScore: '',
+  maxScore: '',
+  from: '',
+  to: '',
+  maxDepth: '',
+  opOnly: false,
+  sentiment: '',
+  toxicOnly: false,
+  term: null
+};
+
+const toNumber = (value: string) => {
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? null : number;
+};
+
+// 日期输入框的值按本地时区解释，结束日期包含当天
+export const toTimestamp = (date: string, endOfDay: boolean) =>
+  date ? Math.floor(new Date(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}`).getTime() / 1000) : null;
+
+export const toCommentFilter = (form: FilterForm): CommentFilter => ({
+  query: form.query,
+  regex: form.regex,
+  includeAuthors: parseAuthorList(form.includeAuthors),
+  excludeAuthors: parseAuthorList(form.excludeAuthors),
+  minScore: toNumber(form.minScore),
+  maxScore: toNumber(form.maxScore),
+  from: toTimestamp(form.from, false),
+  to: toTimestamp(form.to, true),
+  maxDepth: toNumber(form.maxDepth),
+  opOnly: form.opOnly,
+  sentiment: form.sentiment || null,
+  toxicOnly: form.toxicOnly,
+  term: form.term
+});
+
+interface FilterPanelProps {
+  form: FilterForm;
+  onChange: (form: FilterForm) => void;
+  error: string | null;
+  matched: number;
+  total: number;
+  active: boolean;
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+export default function FilterPanel({ form, onChange, error, matched, total, active }: FilterPanelProps) {
+  const update = <K extends keyof FilterForm>(key: K, value: FilterForm[K]) => onChange({ ...form, [key]: value });
+
+  return (
+    <div className="border-t border-gray-200 mt-4 pt-4 space-y-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={form.query}
+          onChange={(e) => update('query', e.target.value)}
+          placeholder={form.regex ? '正则表达式，例如: (bug|crash)' : '搜索评论内容，多个关键词以空格分隔'}
+          aria-invalid={!!error}
+          className={`flex-1 ${inputClass} ${error ? 'border-red-400' : ''}`}
+        />
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={form.regex} onChange={(e) => update('regex', e.target.checked)} />
+          <span>正则</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={form.opOnly} onChange={(e) => update('opOnly', e.target.checked)} />
+          <span>只看楼主</span>
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {form.term && (
+        <div className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>包含词语</span>
+          <span className="inline-flex items-center bg-yellow-100 text-yellow-800 rounded-full pl-3 pr-1 py-0.5">
+            {form.term.text}
+            <button onClick={() => update('term', null)} title="移除该条件" className="ml-1 px-1 rounded-full hover:bg-yellow-200">
+              ×
+            </button>
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          value={form.includeAuthors}
+          onChange={(e) => update('includeAuthors', e.target.value)}
+          placeholder="只看这些作者 (逗号分隔)"
+          className={inputClass}
+        />
+        <input
+          value={form.excludeAuthors}
+          onChange={(e) => update('excludeAuthors', e.target.value)}
+          placeholder="排除这些作者 (逗号分隔)"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>点赞</span>
+          <input type="number" value={form.minScore} onChange={(e) => update('minScore', e.target.value)} placeholder="最低" className={`w-24 ${inputClass}`} />
+          <span>-</span>
+          <input type="number" value={form.maxScore} onChange={(e) => update('maxScore', e.target.value)} placeholder="最高" className={`w-24 ${inputClass}`} />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>日期</span>
+          <input type="date" value={form.from} onChange={(e) => update('from', e.target.value)} className={inputClass} />
+          <span>-</span>
+          <input type="date" value={form.to} onChange={(e) => update('to', e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>最大层级</span>
+          <input type="number" min={0} value={form.maxDepth} onChange={(e) => update('maxDepth', e.target.value)} placeholder="不限" className={`w-20 ${inputClass}`} />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>情绪</span>
+          <select value={form.sentiment} onChange={(e) => update('sentiment', e.target.value as FilterForm['sentiment'])} className={inputClass}>
+            <option value="">全部</option>
+            {(Object.keys(SENTIMENT_LABELS) as SentimentLabel[]).map(label => (
+              <option key={label} value={label}>{SENTIMENT_LABELS[label]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={form.toxicOnly} onChange={(e) => update('toxicOnly', e.target.checked)} />
+          <span>只看有害</span>
+        </label>
+      </div>
+
+      {active && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">匹配 {matched} / {total} 条评论，未匹配的上级评论作为上下文保留</span>
+          <button onClick={() => onChange(EMPTY_FILTER_FORM)} className="text-blue-600 hover:underline">
+            清除筛选
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
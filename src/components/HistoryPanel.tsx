@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { describeUpstreamParams } from '@/lib/export/fields';
+import { Snapshot, SnapshotStore, SnapshotSummary } from '@/lib/history/snapshots';
+
+// 提取历史：按帖子分组列出保存的快照，可以离线打开，或勾选同一帖子的两份快照进行对比
+
+interface HistoryPanelProps {
+  store: SnapshotStore;
+  // 保存新快照后递增，触发重新读取列表
+  version: number;
+  onOpen: (snapshot: Snapshot) => void;
+  onCompare: (before: Snapshot, after: Snapshot) => void;
+}
+
+const DELETED_MODE_LABELS: Record<Snapshot['options']['deletedMode'], string> = {
+  placeholder: '保留占位',
+  flag: '保留并标记',
+  drop: '丢弃'
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString('zh-CN');
+
+// 按帖子分组，组内和组间都按最近保存的时间倒序
+const groupByPost = (summaries: SnapshotSummary[]) => {
+  const groups = new Map<string, SnapshotSummary[]>();
+  summaries.forEach(summary => groups.set(summary.postId, [...groups.get(summary.postId) ?? [], summary]));
+  return [...groups.values()];
+};
+
+export default function HistoryPanel({ store, version, onOpen, onCompare }: HistoryPanelProps) {
+  const [summaries, setSummaries] = useState<SnapshotSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    store.list()
+      .then(list => {
+        if (!cancelled) {
+          setSummaries(list);
+          setError('');
+        }
+      })
+      .catch(error => {
+        console.error('读取历史快照失败:', error);
+        if (!cancelled) {
+          setError('读取历史快照失败');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [store, version, reload]);
+
+  const load = async (id: string) => {
+    const snapshot = await store.get(id);
+    if (!snapshot) {
+      throw new Error('快照已被删除');
+    }
+    return snapshot;
+  };
+
+  const open = async (id: string) => {
+    try {
+      onOpen(await load(id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '打开快照失败');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await store.remove(id);
+      setSelected(current => current.filter(item => item !== id));
+      setReload(value => value + 1);
+    } catch (error) {
+      console.error('删除快照失败:', error);
+      setError('删除快照失败');
+    }
+  };
+
+  // 只能勾选同一帖子的快照，最多两份
+  const toggle = (summary: SnapshotSummary) => {
+    setSelected(current => {
+      if (current.includes(summary.id)) {
+        return current.filter(id => id !== summary.id);
+      }
+      const samePost = current.filter(id => summaries.find(item => item.id === id)?.postId === summary.postId);
+      return [...samePost, summary.id].slice(-2);
+    });
+  };
+
+  const compare = async () => {
+    try {
+      const [first, second] = await Promise.all(selected.map(load));
+      const [before, after] = first.savedAt <= second.savedAt ? [first, second] : [second, first];
+      onCompare(before, after);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '对比快照失败');
+    }
+  };
+
+  if (summaries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        {error || '还没有保存的快照。每次提取完成后，结果会自动保存在浏览器中。'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {groupByPost(summaries).map(group => {
+        const canCompare = selected.length === 2 && group.some(summary => summary.id === selected[0]);
+        return (
+          <div key={group[0].postId} className="border border-gray-200 rounded-lg">
+            <div className="flex flex-wrap items-center gap-3 px-3 py-2 bg-gray-50 rounded-t-lg text-sm">
+              <span className="font-medium text-gray-800">{group[0].title}</span>
+              <span className="text-gray-500">r/{group[0].subreddit} · {group.length} 份快照</span>
+              {canCompare && (
+                <button onClick={compare} className="ml-auto px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                  对比所选
+                </button>
+              )}
+            </div>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {group.map(summary => (
+                <li key={summary.id} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                  {group.length > 1 && (
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(summary.id)}
+                      onChange={() => toggle(summary)}
+                      aria-label={`选择 ${formatTime(summary.savedAt)} 的快照进行对比`}
+                    />
+                  )}
+                  <span className="text-gray-700">{formatTime(summary.savedAt)}</span>
+                  <span className="text-gray-500">{summary.commentCount} 条评论</span>
+                  <span className="text-xs text-gray-400">
+                    {DELETED_MODE_LABELS[summary.options.deletedMode]} · {describeUpstreamParams(summary.options.upstream)}
+                  </span>
+                  <span className="ml-auto flex gap-3">
+                    <button onClick={() => open(summary.id)} className="text-blue-600 hover:underline">打开</button>
+                    <button onClick={() => remove(summary.id)} className="text-red-600 hover:underline">删除</button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-400">勾选同一帖子的两份快照后可以对比新增、删除、编辑和分数变化</p>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { ReactNode, useMemo, useState } from 'react';
+import { splitHighlights } from '@/lib/reddit/filter';
+import { BlockNode, InlineNode, parseMarkdown, TableAlign } from '@/lib/reddit/markdown';
+
+// 按语法树渲染 Reddit Markdown，只生成 React 元素，正文中的 HTML 原样显示为文字
+
+interface MarkdownProps {
+  source: string;
+  // 筛选命中的关键词，在文字节点中高亮
+  highlight: RegExp | null;
+}
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm'];
+
+const ALIGN_CLASSES: Record<Exclude<TableAlign, null>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right'
+};
+
+const LINK_CLASS = 'text-blue-600 hover:underline break-words';
+
+// 剧透默认遮住，点击后显示
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+  return (
+    <span
+      role="button"
+      tabIndex={revealed ? -1 : 0}
+      title={revealed ? undefined : '点击显示剧透'}
+      onClick={() => setRevealed(true)}
+      onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && setRevealed(true)}
+      className={`rounded px-0.5 ${revealed ? 'bg-gray-100' : 'bg-gray-700 cursor-pointer'}`}
+    >
+      <span className={revealed ? '' : 'invisible'}>{children}</span>
+    </span>
+  );
+}
+
+const renderText = (text: string, highlight: RegExp | null, key: string) =>
+  splitHighlights(text, highlight).map((part, index) =>
+    part.match ? <mark key={`${key}.${index}`} className="bg-yellow-200 rounded-sm">{part.text}</mark> : part.text
+  );
+
+const renderInline = (nodes: InlineNode[], highlight: RegExp | null, prefix = ''): ReactNode[] => nodes.map((node, index) => {
+  const key = `${prefix}${index}`;
+  switch (node.type) {
+    case 'text':
+      return renderText(node.text, highlight, key);
+    case 'break':
+      return <br key={key} />;
+    case 'code':
+      return <code key={key} className="px-1 rounded bg-gray-100 font-mono text-sm">{node.text}</code>;
+    case 'strong':
+      return <strong key={key}>{renderInline(node.children, highlight, `${key}.`)}</strong>;
+    case 'em':
+      return <em key={key}>{renderInline(node.children, highlight, `${key}.`)}</em>;
+    case 'del':
+      return <del key={key}>{renderInline(node.children, highlight, `${key}.`)}</del>;
+    case 'sup':
+      return <sup key={key}>{renderInline(node.children, highlight, `${key}.`)}</sup>;
+    case 'spoiler':
+      return <Spoiler key={key}>{renderInline(node.children, highlight, `${key}.`)}</Spoiler>;
+    case 'link':
+      return (
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className={LINK_CLASS}>
+          {renderInline(node.children, highlight, `${key}.`)}
+        </a>
+      );
+    case 'mention':
+      return (
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+          {renderText(`${node.kind}/${node.name}`, highlight, key)}
+        </a>
+      );
+  }
+});
+
+const renderBlocks = (blocks: BlockNode[], highlight: RegExp | null, prefix = ''): ReactNode[] => blocks.map((block, index) => {
+  const key = `${prefix}${index}`;
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} className="my-2 first:mt-0 last:mb-0">{renderInline(block.children, highlight)}</p>;
+    case 'heading': {
+      const Heading = `h${block.level}` as 'h1';
+      return (
+        <Heading key={key} className={`my-2 first:mt-0 font-bold ${HEADING_CLASSES[block.level - 1]}`}>
+          {renderInline(block.children, highlight)}
+        </Heading>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={key} className="my-2 first:mt-0 last:mb-0 pl-3 border-l-4 border-gray-300 text-gray-600">
+          {renderBlocks(block.children, highlight, `${key}.`)}
+        </blockquote>
+      );
+    case 'list': {
+      const items = block.items.map((item, itemIndex) => (
+        <li key={itemIndex}>{renderBlocks(item, highlight, `${key}.${itemIndex}.`)}</li>
+      ));
+      return block.ordered
+        ? <ol key={key} start={block.start} className="my-2 first:mt-0 last:mb-0 pl-6 list-decimal">{items}</ol>
+        : <ul key={key} className="my-2 first:mt-0 last:mb-0 pl-6 list-disc">{items}</ul>;
+    }
+    case 'code':
+      return (
+        <pre key={key} className="my-2 first:mt-0 last:mb-0 p-3 rounded-lg bg-gray-100 font-mono text-sm overflow-x-auto">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'table':
+      return (
+        <div key={key} className="my-2 first:mt-0 last:mb-0 overflow-x-auto">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} className={`px-2 py-1 border border-gray-200 bg-gray-50 ${ALIGN_CLASSES[block.align[column] ?? 'left']}`}>
+                    {renderInline(cell, highlight)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} className={`px-2 py-1 border border-gray-200 ${ALIGN_CLASSES[block.align[column] ?? 'left']}`}>
+                      {renderInline(cell, highlight)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={key} className="my-3 border-gray-200" />;
+  }
+});
+
+export default function Markdown({ source, highlight }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className="break-words">{renderBlocks(blocks, highlight)}</div>;
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { buildStopwords, countTerms, NgramSize, TermCount } from '@/lib/analysis/text';
+import { ParsedComment } from '@/lib/reddit/types';
+
+// 词云和词频表，点击词语后按该词筛选评论树
+
+interface TextAnalysisPanelProps {
+  comments: ParsedComment[];
+  selected: { text: string; n: NgramSize } | null;
+  onSelectTerm: (term: { text: string; n: NgramSize } | null) => void;
+}
+
+const NGRAM_LABELS: Record<NgramSize, string> = { 1: '单词', 2: '二元短语', 3: '三元短语' };
+
+// 词云和表格展示的词数
+const CLOUD_LIMIT = 60;
+const TABLE_LIMIT = 30;
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+// 字号按对数缩放，避免头部几个词过大
+const getFontSize = (value: number, max: number) =>
+  0.75 + (max > 1 ? Math.log(value) / Math.log(max) : 1) * 1.5;
+
+export default function TextAnalysisPanel({ comments, selected, onSelectTerm }: TextAnalysisPanelProps) {
+  const [n, setN] = useState<NgramSize>(1);
+  const [weightByScore, setWeightByScore] = useState(false);
+  const [useDefaults, setUseDefaults] = useState(true);
+  const [extraStopwords, setExtraStopwords] = useState('');
+
+  const stopwords = useMemo(() => buildStopwords(extraStopwords, useDefaults), [extraStopwords, useDefaults]);
+  const terms = useMemo(
+    () => countTerms(comments, { n, weightByScore, stopwords, limit: Math.max(CLOUD_LIMIT, TABLE_LIMIT) }),
+    [comments, n, weightByScore, stopwords]
+  );
+
+  const valueOf = (term: TermCount) => weightByScore ? term.weight : term.count;
+  const max = Math.max(...terms.map(valueOf), 1);
+  const isSelected = (term: TermCount) => selected?.text === term.term && selected.n === term.n;
+  const toggle = (term: TermCount) => onSelectTerm(isSelected(term) ? null : { text: term.term, n: term.n });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <select value={n} onChange={(e) => setN(Number(e.target.value) as NgramSize)} className={inputClass}>
+          {([1, 2, 3] as NgramSize[]).map(size => (
+            <option key={size} value={size}>{NGRAM_LABELS[size]}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={weightByScore} onChange={(e) => setWeightByScore(e.target.checked)} />
+          <span>按点赞加权</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={useDefaults} onChange={(e) => setUseDefaults(e.target.checked)} />
+          <span>内置停用词</span>
+        </label>
+        <input
+          value={extraStopwords}
+          onChange={(e) => setExtraStopwords(e.target.value)}
+          placeholder="额外的停用词 (逗号分隔)"
+          className={`flex-1 min-w-48 ${inputClass}`}
+        />
+      </div>
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-gray-500">没有可统计的词语</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1 bg-gray-50 rounded-lg p-4">
+            {terms.slice(0, CLOUD_LIMIT).map(term => (
+              <button
+                key={term.term}
+                onClick={() => toggle(term)}
+                title={`${term.term}: ${term.count} 次，${term.comments} 条评论`}
+                className={`leading-tight rounded px-1 hover:text-blue-700 ${isSelected(term) ? 'bg-yellow-200 text-yellow-900' : 'text-blue-600'}`}
+                style={{ fontSize: `${getFontSize(valueOf(term), max)}rem` }}
+              >
+                {term.term}
+              </button>
+            ))}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-normal pb-1">词语</th>
+                <th className="font-normal pb-1 text-right">次数</th>
+                <th className="font-normal pb-1 text-right">评论数</th>
+                <th className="font-normal pb-1 text-right">加权</th>
+              </tr>
+            </thead>
+            <tbody>
+              {terms.slice(0, TABLE_LIMIT).map(term => (
+                <tr key={term.term} className={`border-t border-gray-100 ${isSelected(term) ? 'bg-yellow-50' : ''}`}>
+                  <td className="py-1">
+                    <button onClick={() => toggle(term)} className="text-blue-600 hover:underline text-left">
+                      {term.term}
+                    </button>
+                  </td>
+                  <td className="py-1 text-right">{term.count}</td>
+                  <td className="py-1 text-right">{term.comments}</td>
+                  <td className="py-1 text-right">{term.weight}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from '@/lib/export/__fixtures__/thread';
+import { makeComment } from '@/lib/reddit/__fixtures__/factories';
+import { parseComments } from '@/lib/reddit/parse';
+import { analyzeThread, buildScoreStats, buildSentimentSummary, buildVolumeHistogram } from './analytics';
+
+describe('buildVolumeHistogram', () => {
+  it('picks the smallest interval that fits and counts every comment', () => {
+    const times = [0, 100, 3599, 3600, 3600 * 30];
+    const { bucketSeconds, buckets } = buildVolumeHistogram(times);
+
+    expect(bucketSeconds).toBe(3600);
+    expect(buckets).toHaveLength(31);
+    expect(buckets[0]).toEqual({ start: 0, end: 3600, count: 3 });
+    expect(buckets.reduce((total, bucket) => total + bucket.count, 0)).toBe(times.length);
+  });
+
+  it('returns no buckets for an empty thread', () => {
+    expect(buildVolumeHistogram([]).buckets).toEqual([]);
+  });
+});
+
+describe('buildScoreStats', () => {
+  it('computes mean, median and open-ended ranges', () => {
+    const stats = buildScoreStats([-20, 0, 1, 3, 1000]);
+    expect(stats).toMatchObject({ mean: 196.8, median: 1, min: -20, max: 1000 });
+    expect(stats.buckets[0]).toEqual({ label: '≤ -10', min: null, max: -10, count: 1 });
+    expect(stats.buckets[stats.buckets.length - 1]).toMatchObject({ min: 501, max: null, count: 1 });
+  });
+});
+
+describe('buildSentimentSummary', () => {
+  const comments = parseComments([
+    makeComment({ id: 'a1', body: 'Great launch, love it', created_utc: 0 }, [
+      makeComment({ id: 'a2', parent_id: 't1_a1', body: 'Agreed, awesome', created_utc: 100 }),
+      makeComment({ id: 'a3', parent_id: 't1_a1', body: '[removed]', created_utc: 200 })
+    ]),
+    makeComment({ id: 'b1', body: 'Terrible, you idiots broke it', created_utc: 3600 })
+  ], 'flag');
+
+  it('aggregates over time and per top-level branch, skipping removed comments', () => {
+    const summary = buildSentimentSummary(comments);
+
+    expect(summary.overall).toMatchObject({ comments: 3, positive: 2, neutral: 0, negative: 1, toxic: 1 });
+    expect(summary.bucketSeconds).toBe(300);
+    expect(summary.timeline[0]).toMatchObject({ start: 0, comments: 2, positive: 2 });
+    expect(summary.timeline[summary.timeline.length - 1]).toMatchObject({ start: 3600, comments: 1, negative: 1 });
+    expect(summary.branches.map(branch => [branch.id, branch.comments])).toEqual([['a1', 2], ['b1', 1]]);
+    expect(summary.branches[0].mean).toBeGreaterThan(0);
+    expect(summary.branches[1].mean).toBeLessThan(0);
+  });
+});
+
+describe('analyzeThread', () => {
+  it('reports depth, OP participation and the busiest threads', () => {
+    const { post, comments } = makeExportInput();
+    const analytics = analyzeThread(comments, post);
+
+    expect(analytics.depth).toEqual({
+      maxDepth: 2,
+      averageDepth: 0.75,
+      perDepth: [2, 1, 1],
+      averageBranching: 1,
+      maxReplies: 1,
+      leafRatio: 0.5
+    });
+    expect(analytics.op).toEqual({ author: 'op_user', comments: 1, commentShare: 0.25, threads: 1, threadShare: 0.5 });
+    expect(analytics.topThreads.map(thread => [thread.id, thread.subtreeSize])).toEqual([['c1', 3], ['c4', 1]]);
+    expect(analytics.topAuthorsByScore[0].author).toBe('op_user');
+    expect(analytics.topAuthorsByCount.map(stats => stats.author)).not.toContain('[deleted]');
+  });
+});
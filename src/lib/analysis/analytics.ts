@@ -0,0 +1,298 @@
+import { AuthorStats, summarizeAuthors, summarizeThread, ThreadSummary } from '@/lib/export/stats';
+import { countComments } from '@/lib/reddit/parse';
+import { ParsedComment, ParsedPost } from '@/lib/reddit/types';
+
+// 评论树的统计分析，页面图表、JSON 摘要和工作簿统计表共用
+
+export interface VolumeBucket {
+  // Unix 秒，左闭右开
+  start: number;
+  end: number;
+  count: number;
+}
+
+// min/max 为 null 表示该端不设限
+export interface ScoreBucket {
+  label: string;
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+export interface DepthStats {
+  maxDepth: number;
+  averageDepth: number;
+  // 每一层的评论数，下标为层级
+  perDepth: number[];
+  // 有回复的评论平均的直接回复数
+  averageBranching: number;
+  maxReplies: number;
+  // 没有回复的评论占比
+  leafRatio: number;
+}
+
+export interface OpParticipation {
+  author: string | null;
+  comments: number;
+  // 楼主评论占全部评论的比例
+  commentShare: number;
+  // 楼主参与回复的顶层讨论串数量和比例
+  threads: number;
+  threadShare: number;
+}
+
+export interface TopThread {
+  id: string;
+  author: string;
+  excerpt: string;
+  score: number;
+  replies: number;
+  subtreeSize: number;
+  permalink: string;
+}
+
+export interface SentimentCounts {
+  comments: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  toxic: number;
+  // 平均情绪分，-1 ~ 1
+  mean: number;
+}
+
+export interface SentimentBucket extends SentimentCounts {
+  start: number;
+  end: number;
+}
+
+export interface BranchSentiment extends SentimentCounts {
+  id: string;
+  author: string;
+  excerpt: string;
+  permalink: string;
+}
+
+// 只统计正常状态的评论，已删除和被移除的不计入
+export interface SentimentSummary {
+  overall: SentimentCounts;
+  bucketSeconds: number;
+  timeline: SentimentBucket[];
+  // 每个顶层评论及其回复，按评论数排列
+  branches: BranchSentiment[];
+}
+
+export interface ThreadAnalytics {
+  summary: ThreadSummary;
+  volume: { bucketSeconds: number; buckets: VolumeBucket[] };
+  scores: { mean: number; median: number; min: number; max: number; buckets: ScoreBucket[] };
+  depth: DepthStats;
+  topAuthorsByCount: AuthorStats[];
+  topAuthorsByScore: AuthorStats[];
+  op: OpParticipation;
+  topThreads: TopThread[];
+  sentiment: SentimentSummary;
+}
+
+// 排行榜保留的条目数
+export const TOP_LIMIT = 10;
+
+// 时间直方图最多的柱数，按此从候选间隔中选最小的
+const MAX_VOLUME_BUCKETS = 48;
+const VOLUME_INTERVALS = [300, 900, 1800, 3600, 3 * 3600, 6 * 3600, 12 * 3600, 86400, 7 * 86400, 30 * 86400];
+
+const SCORE_RANGES: Omit<ScoreBucket, 'count'>[] = [
+  { label: '≤ -10', min: null, max: -10 },
+  { label: '-9 ~ -1', min: -9, max: -1 },
+  { label: '0', min: 0, max: 0 },
+  { label: '1', min: 1, max: 1 },
+  { label: '2 ~ 5', min: 2, max: 5 },
+  { label: '6 ~ 10', min: 6, max: 10 },
+  { label: '11 ~ 50', min: 11, max: 50 },
+  { label: '51 ~ 100', min: 51, max: 100 },
+  { label: '101 ~ 500', min: 101, max: 500 },
+  { label: '> 500', min: 501, max: null }
+];
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const walk = (comments: ParsedComment[], visit: (comment: ParsedComment) => void) => {
+  for (const comment of comments) {
+    visit(comment);
+    walk(comment.replies, visit);
+  }
+};
+
+export const buildVolumeHistogram = (times: number[]) => {
+  if (times.length === 0) {
+    return { bucketSeconds: VOLUME_INTERVALS[0], buckets: [] };
+  }
+
+  const first = times.reduce((min, time) => Math.min(min, time));
+  const last = times.reduce((max, time) => Math.max(max, time));
+  const bucketSeconds = VOLUME_INTERVALS.find(interval => (last - first) / interval < MAX_VOLUME_BUCKETS)
+    ?? VOLUME_INTERVALS[VOLUME_INTERVALS.length - 1];
+
+  const origin = Math.floor(first / bucketSeconds) * bucketSeconds;
+  const buckets: VolumeBucket[] = [];
+  for (let start = origin; start <= last; start += bucketSeconds) {
+    buckets.push({ start, end: start + bucketSeconds, count: 0 });
+  }
+  for (const time of times) {
+    buckets[Math.floor((time - origin) / bucketSeconds)].count++;
+  }
+  return { bucketSeconds, buckets };
+};
+
+export const buildScoreStats = (scores: number[]) => {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length === 0 ? 0 : sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+  return {
+    mean: sorted.length ? round(sorted.reduce((total, score) => total + score, 0) / sorted.length) : 0,
+    median,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    buckets: SCORE_RANGES.map(range => ({
+      ...range,
+      count: sorted.filter(score => (range.min === null || score >= range.min) && (range.max === null || score <= range.max)).length
+    }))
+  };
+};
+
+const buildDepthStats = (comments: ParsedComment[]): DepthStats => {
+  const perDepth: number[] = [];
+  let total = 0;
+  let depthSum = 0;
+  let parents = 0;
+  let replySum = 0;
+  let maxReplies = 0;
+
+  walk(comments, comment => {
+    perDepth[comment.depth] = (perDepth[comment.depth] ?? 0) + 1;
+    total++;
+    depthSum += comment.depth;
+    if (comment.replies.length > 0) {
+      parents++;
+      replySum += comment.replies.length;
+      maxReplies = Math.max(maxReplies, comment.replies.length);
+    }
+  });
+
+  return {
+    maxDepth: Math.max(perDepth.length - 1, 0),
+    averageDepth: total ? round(depthSum / total) : 0,
+    perDepth: Array.from(perDepth, count => count ?? 0),
+    averageBranching: parents ? round(replySum / parents) : 0,
+    maxReplies,
+    leafRatio: total ? round((total - parents) / total, 4) : 0
+  };
+};
+
+const containsSubmitter = (comment: ParsedComment): boolean =>
+  comment.is_submitter || comment.replies.some(containsSubmitter);
+
+const buildOpParticipation = (comments: ParsedComment[], post: ParsedPost | null, summary: ThreadSummary): OpParticipation => {
+  const threads = comments.filter(containsSubmitter).length;
+  return {
+    author: post?.author ?? null,
+    comments: summary.submitterComments,
+    commentShare: summary.comments ? round(summary.submitterComments / summary.comments, 4) : 0,
+    threads,
+    threadShare: comments.length ? round(threads / comments.length, 4) : 0
+  };
+};
+
+const EXCERPT_LENGTH = 80;
+
+const getExcerpt = (body: string) => body.length > EXCERPT_LENGTH ? body.slice(0, EXCERPT_LENGTH) + '…' : body;
+
+// 按子树大小 (包括自身) 排列的顶层评论
+const buildTopThreads = (comments: ParsedComment[]): TopThread[] =>
+  comments
+    .map(comment => ({
+      id: comment.id,
+      author: comment.author,
+      excerpt: getExcerpt(comment.body),
+      score: comment.score,
+      replies: comment.replies.length,
+      subtreeSize: 1 + countComments(comment.replies),
+      permalink: comment.permalink
+    }))
+    .sort((a, b) => b.subtreeSize - a.subtreeSize || b.score - a.score)
+    .slice(0, TOP_LIMIT);
+
+const collectScored = (comments: ParsedComment[]) => {
+  const scored: ParsedComment[] = [];
+  walk(comments, comment => {
+    if (comment.status === 'active') {
+      scored.push(comment);
+    }
+  });
+  return scored;
+};
+
+const countSentiment = (comments: ParsedComment[]): SentimentCounts => {
+  const counts = { comments: comments.length, positive: 0, neutral: 0, negative: 0, toxic: 0, mean: 0 };
+  let total = 0;
+  for (const { sentiment } of comments) {
+    counts[sentiment.label]++;
+    if (sentiment.toxic) {
+      counts.toxic++;
+    }
+    total += sentiment.score;
+  }
+  counts.mean = comments.length ? round(total / comments.length, 3) : 0;
+  return counts;
+};
+
+// 情绪随时间的变化使用与评论数量相同的时间间隔
+export const buildSentimentSummary = (comments: ParsedComment[]): SentimentSummary => {
+  const scored = collectScored(comments);
+  const { bucketSeconds, buckets } = buildVolumeHistogram(scored.map(comment => comment.created_utc));
+  const grouped = buckets.map(() => [] as ParsedComment[]);
+  for (const comment of scored) {
+    grouped[Math.floor((comment.created_utc - buckets[0].start) / bucketSeconds)].push(comment);
+  }
+
+  return {
+    overall: countSentiment(scored),
+    bucketSeconds,
+    timeline: buckets.map((bucket, index) => ({ start: bucket.start, end: bucket.end, ...countSentiment(grouped[index]) })),
+    branches: comments
+      .map(comment => ({
+        id: comment.id,
+        author: comment.author,
+        excerpt: getExcerpt(comment.body),
+        permalink: comment.permalink,
+        ...countSentiment(collectScored([comment]))
+      }))
+      .filter(branch => branch.comments > 0)
+      .sort((a, b) => b.comments - a.comments || a.mean - b.mean)
+  };
+};
+
+export const analyzeThread = (comments: ParsedComment[], post: ParsedPost | null): ThreadAnalytics => {
+  const times: number[] = [];
+  const scores: number[] = [];
+  walk(comments, comment => {
+    times.push(comment.created_utc);
+    scores.push(comment.score);
+  });
+
+  const summary = summarizeThread(comments);
+  const authors = summarizeAuthors(comments).filter(stats => stats.author !== '[deleted]');
+
+  return {
+    summary,
+    volume: buildVolumeHistogram(times),
+    scores: buildScoreStats(scores),
+    depth: buildDepthStats(comments),
+    topAuthorsByCount: authors.slice(0, TOP_LIMIT),
+    topAuthorsByScore: [...authors].sort((a, b) => b.totalScore - a.totalScore || b.comments - a.comments).slice(0, TOP_LIMIT),
+    op: buildOpParticipation(comments, post, summary),
+    topThreads: buildTopThreads(comments),
+    sentiment: buildSentimentSummary(comments)
+  };
+};
@@ -0,0 +1,58 @@
+// 情绪和攻击性评分用的词典，情绪分值沿用 AFINN 的 -5 到 5 刻度，攻击性权重为 0 到 1
+
+export const SENTIMENT_LEXICON: Record<string, number> = {
+  // 英文正面
+  amazing: 4, awesome: 4, beautiful: 3, best: 3, better: 2, brilliant: 4, calm: 2, clean: 2, cool: 1,
+  correct: 1, delighted: 3, easy: 1, elegant: 2, enjoy: 2, enjoyed: 2, excellent: 3, excited: 3, exciting: 3,
+  fair: 2, fan: 2, fantastic: 4, fast: 1, favorite: 2, fine: 2, fixed: 2, fun: 3, glad: 3, good: 3, gorgeous: 3,
+  grateful: 3, great: 3, happy: 3, helpful: 2, impressive: 3, improved: 2, incredible: 4, interesting: 2,
+  like: 2, liked: 2, love: 3, loved: 3, lovely: 3, masterpiece: 4, nice: 3, perfect: 3, pleased: 3,
+  polished: 2, powerful: 2, recommend: 2, reliable: 2, smooth: 2, solid: 2, stable: 2, success: 2,
+  superb: 5, support: 2, thank: 2, thanks: 2, win: 4, wonderful: 4, worth: 2, wow: 4, yay: 2,
+  // 英文负面
+  angry: -3, annoying: -2, awful: -3, bad: -3, boring: -3, broke: -1, broken: -2, bug: -1, buggy: -2,
+  cheap: -1, confusing: -2, crap: -3, crash: -2, crashes: -2, dead: -3, disappointed: -2, disappointing: -2,
+  disaster: -2, dislike: -2, fail: -2, failed: -2, fails: -2, failure: -2, fake: -3, frustrating: -2,
+  hate: -3, hated: -3, horrible: -3, issue: -1, lag: -1, laggy: -2, lame: -2, mess: -2, mistake: -2,
+  overpriced: -2, pain: -2, poor: -2, problem: -2, ridiculous: -3, sad: -2, scam: -2, slow: -2,
+  stupid: -2, sucks: -3, terrible: -3, trash: -2, ugly: -3, unfortunately: -2, unusable: -3, useless: -2,
+  waste: -1, wasted: -2, worse: -3, worst: -3, wrong: -2,
+  // 中文正面
+  喜欢: 2, 爱: 3, 好看: 3, 好用: 3, 好吃: 3, 不错: 2, 优秀: 3, 完美: 3, 厉害: 3, 漂亮: 3, 精彩: 3, 满意: 2,
+  开心: 3, 高兴: 3, 感谢: 2, 谢谢: 2, 支持: 2, 推荐: 2, 值得: 2, 流畅: 2, 稳定: 2, 方便: 2, 牛: 3, 赞: 3,
+  棒: 3, 期待: 2, 惊艳: 4, 给力: 3, 舒服: 2, 良心: 3, 神作: 4,
+  // 中文负面
+  不好: -2, 难看: -3, 难用: -3, 难吃: -3, 失望: -2, 糟糕: -3, 差劲: -3, 讨厌: -3, 恶心: -3, 生气: -3, 愤怒: -3,
+  难过: -2, 伤心: -2, 无聊: -2, 失败: -2, 问题: -1, 卡顿: -2, 崩溃: -2, 骗: -2, 坑: -2, 贵: -1, 慢: -1,
+  烂: -3, 可惜: -2, 后悔: -2, 翻车: -2, 离谱: -2, 吐槽: -1
+};
+
+// 表情符号和颜文字单独计分
+export const EMOJI_LEXICON: Record<string, number> = {
+  ':)': 2, ':-)': 2, ':D': 3, ';)': 2, '<3': 3, ':(': -2, ':-(': -2, ":'(": -2,
+  '😀': 2, '😃': 2, '😄': 2, '😊': 2, '😍': 3, '🥰': 3, '👍': 2, '❤': 3, '🎉': 3, '🙏': 2,
+  '😢': -2, '😭': -2, '😞': -2, '😠': -3, '😡': -3, '🤮': -3, '👎': -2, '💩': -2
+};
+
+// 否定词翻转其后若干个词的情绪
+export const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'neither', 'nor', 'without', 'cannot', 'cant', 'dont', 'doesnt',
+  'didnt', 'isnt', 'wasnt', 'arent', 'werent', 'wont', 'wouldnt', 'shouldnt', 'couldnt', 'hardly',
+  '不', '没', '没有', '别', '不是', '并不', '不太', '从不', '无'
+]);
+
+// 程度副词放大或减弱下一个情绪词
+export const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.3, so: 1.3, extremely: 2, super: 1.5, totally: 1.5, absolutely: 1.8, incredibly: 1.8,
+  most: 1.3, slightly: 0.5, somewhat: 0.6, kinda: 0.6, barely: 0.4, pretty: 1.2,
+  很: 1.5, 非常: 1.8, 太: 1.5, 特别: 1.6, 超: 1.5, 超级: 1.8, 十分: 1.6, 极其: 2, 有点: 0.6, 稍微: 0.5, 比较: 0.8
+};
+
+export const TOXIC_LEXICON: Record<string, number> = {
+  asshole: 0.9, bastard: 0.8, bitch: 0.9, clown: 0.4, cunt: 1, damn: 0.3, dickhead: 0.9, dumb: 0.5, fuck: 0.7,
+  fucking: 0.6, idiot: 0.8, idiots: 0.8, imbecile: 0.8, kys: 1, loser: 0.6, moron: 0.8, morons: 0.8,
+  pathetic: 0.5, retard: 0.9, retarded: 0.9, scum: 0.8, shit: 0.5, stfu: 0.8, stupid: 0.5,
+  trash: 0.3, garbage: 0.3,
+  傻逼: 1, 煞笔: 1, 白痴: 0.8, 垃圾: 0.5, 滚: 0.6, 去死: 1, 脑残: 0.9, 智障: 0.9, 弱智: 0.8, 蠢: 0.6, 废物: 0.7,
+  他妈的: 0.8, 妈的: 0.6, 混蛋: 0.8, 贱: 0.7, 狗屎: 0.7
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { scoreSentiment } from './sentiment';
+
+describe('scoreSentiment', () => {
+  it('labels clearly positive and negative comments', () => {
+    expect(scoreSentiment('This is great, I love it!')).toMatchObject({ label: 'positive', toxic: false });
+    expect(scoreSentiment('Worst update ever, totally broken')).toMatchObject({ label: 'negative', toxic: false });
+    expect(scoreSentiment('It works.')).toEqual({ score: 0, label: 'neutral', toxicity: 0, toxic: false });
+  });
+
+  it('flips words after a negation until the next punctuation', () => {
+    expect(scoreSentiment('This is not good.').label).toBe('negative');
+    expect(scoreSentiment("I don't hate it").label).toBe('positive');
+    expect(scoreSentiment('Not sure. Good job').label).toBe('positive');
+  });
+
+  it('scales sentiment with intensifiers and keeps it within -1 and 1', () => {
+    const plain = scoreSentiment('good').score;
+    const boosted = scoreSentiment('extremely good').score;
+    expect(boosted).toBeGreaterThan(plain);
+    expect(scoreSentiment('awesome amazing superb wonderful fantastic').score).toBeLessThan(1);
+  });
+
+  it('segments Chinese against the lexicon', () => {
+    expect(scoreSentiment('这个功能很好用，非常喜欢').label).toBe('positive');
+    expect(scoreSentiment('不喜欢，太卡顿了').label).toBe('negative');
+    expect(scoreSentiment('没有问题').label).toBe('positive');
+  });
+
+  it('counts emoji and emoticons', () => {
+    expect(scoreSentiment('Thanks :)').score).toBeGreaterThan(scoreSentiment('Thanks').score);
+    expect(scoreSentiment('😡😡').label).toBe('negative');
+  });
+
+  it('scores toxicity independently of sentiment', () => {
+    expect(scoreSentiment('You are an idiot')).toMatchObject({ toxicity: 0.8, toxic: true });
+    expect(scoreSentiment('dumb dumb').toxicity).toBe(0.75);
+    expect(scoreSentiment('傻逼').toxic).toBe(true);
+    expect(scoreSentiment('a bit of a clown').toxic).toBe(false);
+  });
+
+  it('ignores words that collide with object properties', () => {
+    expect(scoreSentiment('constructor toString hasOwnProperty').score).toBe(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { CommentSentiment, SentimentLabel } from '@/lib/reddit/types';
+import { EMOJI_LEXICON, INTENSIFIERS, NEGATIONS, SENTIMENT_LEXICON, TOXIC_LEXICON } from './lexicon';
+
+// 基于词典的情绪和攻击性评分，完全在本地运行
+// 做法接近 VADER：累加词的分值，处理否定词和程度副词，再把总分压缩到 -1 ~ 1
+
+export const SENTIMENT_LABELS: Record<SentimentLabel, string> = {
+  positive: '正面',
+  neutral: '中性',
+  negative: '负面'
+};
+
+export const NEUTRAL_SENTIMENT: CommentSentiment = { score: 0, label: 'neutral', toxicity: 0, toxic: false };
+
+// 分值超过该阈值才算正面或负面
+const LABEL_THRESHOLD = 0.05;
+// 攻击性达到该值视为有害
+const TOXIC_THRESHOLD = 0.5;
+// 否定词影响其后的词数，被否定的词分值乘以该系数
+const NEGATION_SCOPE = 3;
+const NEGATION_FACTOR = -0.75;
+// 压缩总分时的平滑系数，越大越不容易接近 ±1
+const NORMALIZE_ALPHA = 15;
+// 中文按词典做最长匹配，词典中的中文词最长 3 个字
+const MAX_CJK_WORD = 3;
+
+// 用 Map 查询，避免 constructor 之类的词命中对象原型
+const sentimentWords = new Map(Object.entries(SENTIMENT_LEXICON));
+const intensifiers = new Map(Object.entries(INTENSIFIERS));
+const toxicWords = new Map(Object.entries(TOXIC_LEXICON));
+const emojis = Object.entries(EMOJI_LEXICON);
+
+const isKnown = (word: string) =>
+  sentimentWords.has(word) || intensifiers.has(word) || toxicWords.has(word) || NEGATIONS.has(word);
+
+// 句末和逗号等标点作为分界，否定词和程度副词不越过它们
+const BOUNDARY = '';
+const TOKEN_PATTERN = /[a-z]+(?:['’][a-z]+)*|[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]+|[.!?;,。！？；，]+/g;
+const CJK_RUN = /^[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]/;
+
+// 中文没有空格，按词典最长匹配切分，不认识的字单独成词
+const segmentCjk = (run: string) => {
+  const words: string[] = [];
+  let index = 0;
+  while (index < run.length) {
+    let length = Math.min(MAX_CJK_WORD, run.length - index);
+    while (length > 1 && !isKnown(run.slice(index, index + length))) {
+      length--;
+    }
+    words.push(run.slice(index, index + length));
+    index += length;
+  }
+  return words;
+};
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().replace(/https?:\/\/\S+/g, ' ').match(TOKEN_PATTERN) ?? []).flatMap(token => {
+    if (CJK_RUN.test(token)) {
+      return segmentCjk(token);
+    }
+    return /^[a-z]/.test(token) ? [token.replace(/['’]/g, '')] : [BOUNDARY];
+  });
+
+const countOccurrences = (text: string, needle: string) => text.split(needle).length - 1;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const scoreSentiment = (text: string): CommentSentiment => {
+  let total = 0;
+  let negated = 0;
+  let boost = 1;
+  let clean = 1;
+
+  for (const token of tokenize(text)) {
+    if (token === BOUNDARY) {
+      negated = 0;
+      boost = 1;
+      continue;
+    }
+    if (NEGATIONS.has(token)) {
+      negated = NEGATION_SCOPE;
+      continue;
+    }
+    const intensity = intensifiers.get(token);
+    if (intensity !== undefined) {
+      boost *= intensity;
+      continue;
+    }
+
+    const valence = sentimentWords.get(token);
+    if (valence !== undefined) {
+      total += valence * boost * (negated > 0 ? NEGATION_FACTOR : 1);
+    }
+    boost = 1;
+    negated = Math.max(negated - 1, 0);
+
+    // 攻击性按 "至少一个词有害" 的概率合并，不受否定词影响
+    clean *= 1 - (toxicWords.get(token) ?? 0);
+  }
+
+  for (const [emoji, valence] of emojis) {
+    total += countOccurrences(text, emoji) * valence;
+  }
+
+  const score = round(total / Math.sqrt(total * total + NORMALIZE_ALPHA));
+  const toxicity = round(1 - clean);
+  return {
+    score,
+    label: score >= LABEL_THRESHOLD ? 'positive' : score <= -LABEL_THRESHOLD ? 'negative' : 'neutral',
+    toxicity,
+    toxic: toxicity >= TOXIC_THRESHOLD
+  };
+};
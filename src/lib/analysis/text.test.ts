@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { makeComment } from '@/lib/reddit/__fixtures__/factories';
+import { parseComments } from '@/lib/reddit/parse';
+import { buildStopwords, containsTerm, countTerms, extractNgrams, joinTokens, tokenize } from './text';
+
+const stopwords = buildStopwords('');
+
+describe('tokenize', () => {
+  it('splits Latin words, drops stopwords and breaks runs at punctuation', () => {
+    expect(tokenize('The quick brown fox. Jumps over the lazy dog!', stopwords)).toEqual([
+      ['quick', 'brown', 'fox'],
+      ['jumps'],
+      ['lazy', 'dog']
+    ]);
+  });
+
+  it('removes links, numbers and apostrophes', () => {
+    expect(tokenize("Check [docs](https://example.com) 2024 isn't https://x.y/z great", new Set())).toEqual([
+      ['check', 'docs'],
+      ['isnt', 'great']
+    ]);
+  });
+
+  it('segments Chinese text into words', () => {
+    const tokens = tokenize('机器学习很有意思，机器学习的应用', stopwords).flat();
+    expect(tokens.filter(token => token.startsWith('机器'))).not.toHaveLength(0);
+    expect(tokens.every(token => Array.from(token).length >= 2)).toBe(true);
+    expect(tokens).not.toContain('的');
+  });
+});
+
+describe('n-grams', () => {
+  it('joins adjacent CJK tokens without spaces', () => {
+    expect(joinTokens(['机器', '学习'])).toBe('机器学习');
+    expect(joinTokens(['react', '组件'])).toBe('react 组件');
+  });
+
+  it('does not cross run boundaries', () => {
+    expect(extractNgrams([['a1', 'b1', 'c1'], ['d1']], 2)).toEqual(['a1 b1', 'b1 c1']);
+    expect(extractNgrams([['a1', 'b1']], 3)).toEqual([]);
+  });
+});
+
+describe('countTerms', () => {
+  const comments = parseComments([
+    makeComment({ id: 'c1', body: 'Rust compiler rust compiler', score: 10 }, [
+      makeComment({ id: 'c2', parent_id: 't1_c1', body: 'python scripts', score: 1 })
+    ]),
+    makeComment({ id: 'c3', body: 'python python python', score: -5 })
+  ], 'flag');
+
+  it('counts occurrences and distinct comments', () => {
+    const terms = countTerms(comments, { n: 1, weightByScore: false, stopwords, limit: 10 });
+    expect(terms[0]).toEqual({ term: 'python', n: 1, count: 4, comments: 2, weight: 4 });
+    expect(terms.find(term => term.term === 'rust')).toEqual({ term: 'rust', n: 1, count: 2, comments: 1, weight: 20 });
+  });
+
+  it('ranks by score weight when requested', () => {
+    const terms = countTerms(comments, { n: 1, weightByScore: true, stopwords, limit: 2 });
+    expect(terms.map(term => term.term)).toEqual(['compiler', 'rust']);
+  });
+
+  it('counts bigrams', () => {
+    const terms = countTerms(comments, { n: 2, weightByScore: false, stopwords, limit: 10 });
+    expect(terms.find(term => term.term === 'rust compiler')?.count).toBe(2);
+  });
+});
+
+describe('containsTerm', () => {
+  it('matches whole tokens and phrases only', () => {
+    expect(containsTerm('A Rust compiler bug', 'rust compiler', 2)).toBe(true);
+    expect(containsTerm('Trusty compilers', 'rust', 1)).toBe(false);
+  });
+});
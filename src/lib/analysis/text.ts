@@ -0,0 +1,162 @@
+import { ParsedComment } from '@/lib/reddit/types';
+
+// 评论正文的词频和短语统计
+// 中文用 Intl.Segmenter 按词切分 (不可用时退回到相邻两字)，拉丁文字按单词切分
+
+export type NgramSize = 1 | 2 | 3;
+
+export interface TermCount {
+  term: string;
+  n: NgramSize;
+  // 出现次数
+  count: number;
+  // 包含该词的评论数
+  comments: number;
+  // 按点赞加权的次数，每条评论的权重为 max(点赞数, 1)
+  weight: number;
+}
+
+export interface TextAnalysisOptions {
+  n: NgramSize;
+  weightByScore: boolean;
+  stopwords: Set<string>;
+  limit: number;
+}
+
+export const DEFAULT_STOPWORDS_EN = [
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'don', 'down', 'during', 'each', 'even', 'few', 'for', 'from', 'further', 'get', 'got', 'had',
+  'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'itself', 'just', 'like', 'll', 'me', 'more', 'most', 'much', 'my', 'myself', 'no',
+  'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out',
+  'over', 'own', 're', 's', 'same', 'she', 'should', 'so', 'some', 'such', 't', 'than', 'that', 'the', 'their',
+  'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 've', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves', 'really', 'think',
+  'know', 'people', 'would', 'im', 'dont', 'thats', 'didn', 'doesn', 'isn', 'wasn', 'won', 'gt', 'lt', 'amp',
+  'http', 'https', 'www', 'com', 'deleted', 'removed'
+];
+
+export const DEFAULT_STOPWORDS_ZH = [
+  '的', '了', '是', '在', '我', '有', '和', '就', '不', '人', '都', '一', '一个', '上', '也', '很', '到', '说', '要',
+  '去', '你', '会', '着', '没有', '看', '好', '自己', '这', '那', '他', '她', '它', '我们', '你们', '他们', '吗',
+  '呢', '吧', '啊', '呀', '哦', '嗯', '就是', '这个', '那个', '什么', '还是', '但是', '因为', '所以', '如果', '可以',
+  '已经', '还', '又', '被', '把', '给', '让', '对', '从', '而', '与', '及', '或', '等', '之', '其', '个', '些', '么',
+  '为', '为了', '以', '里', '中', '能', '吗', '过', '得', '地', '真的', '觉得', '感觉', '现在', '时候', '怎么', '这样',
+  '那么', '这么', '然后', '其实', '只是', '不是', '没', '更', '最', '太', '比较', '一样', '一下', '有点'
+];
+
+export const DEFAULT_STOPWORDS = [...DEFAULT_STOPWORDS_EN, ...DEFAULT_STOPWORDS_ZH];
+
+// 用户输入的停用词以逗号、空白或换行分隔
+export const buildStopwords = (extra: string, useDefaults = true) =>
+  new Set([
+    ...(useDefaults ? DEFAULT_STOPWORDS : []),
+    ...extra.split(/[\s,，、]+/).map(word => word.toLowerCase()).filter(Boolean)
+  ]);
+
+// 汉字和日文假名，词之间不用空格分隔
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]/;
+const CJK_RUN = /^[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]+$/;
+
+const isCjk = (token: string) => CJK_PATTERN.test(token);
+
+// 去掉链接、Markdown 链接语法和常见 HTML 实体
+const cleanText = (text: string) =>
+  text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/&gt;|&lt;|&amp;|&nbsp;/g, ' ')
+    .toLowerCase();
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('zh', { granularity: 'word' })
+  : null;
+
+// 没有 Intl.Segmenter 时，中文按相邻两字切分
+const fallbackSegments = (text: string) =>
+  (text.match(/[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]+|[\p{L}\p{N}'’]+|[^\s\p{L}\p{N}]+|\s+/gu) ?? [])
+    .flatMap(part => {
+      if (CJK_RUN.test(part) && part.length > 2) {
+        return Array.from({ length: part.length - 1 }, (_, i) => ({ segment: part.slice(i, i + 2), isWordLike: true }));
+      }
+      return [{ segment: part, isWordLike: /[\p{L}\p{N}]/u.test(part) }];
+    });
+
+// 把文本切分为若干连续的词序列，标点处断开
+// 停用词、纯数字和单个字符同样断开序列，n-gram 不会跨越它们
+export const tokenize = (text: string, stopwords: Set<string> = new Set()): string[][] => {
+  const runs: string[][] = [];
+  let current: string[] = [];
+  const breakRun = () => {
+    if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  };
+
+  const segments = segmenter ? segmenter.segment(cleanText(text)) : fallbackSegments(cleanText(text));
+  for (const { segment, isWordLike } of segments) {
+    if (!isWordLike) {
+      if (segment.trim()) {
+        breakRun();
+      }
+      continue;
+    }
+    const token = segment.replace(/^['’]+|['’]+$/g, '').replace(/['’]/g, '');
+    if (!token || stopwords.has(token) || /^\d+$/.test(token) || Array.from(token).length < 2) {
+      breakRun();
+      continue;
+    }
+    current.push(token);
+  }
+  breakRun();
+  return runs;
+};
+
+// 相邻的中文词直接相连，其余以空格分隔
+export const joinTokens = (tokens: string[]) =>
+  tokens.reduce((text, token, index) =>
+    index === 0 ? token : text + (isCjk(tokens[index - 1]) && isCjk(token) ? '' : ' ') + token, '');
+
+export const extractNgrams = (runs: string[][], n: NgramSize) =>
+  runs.flatMap(run => Array.from({ length: Math.max(run.length - n + 1, 0) }, (_, i) => joinTokens(run.slice(i, i + n))));
+
+const walk = (comments: ParsedComment[], visit: (comment: ParsedComment) => void) => {
+  for (const comment of comments) {
+    visit(comment);
+    walk(comment.replies, visit);
+  }
+};
+
+export const countTerms = (comments: ParsedComment[], options: TextAnalysisOptions): TermCount[] => {
+  const terms = new Map<string, TermCount>();
+
+  walk(comments, comment => {
+    if (!comment.body) {
+      return;
+    }
+    const weight = Math.max(comment.score, 1);
+    const seen = new Set<string>();
+    for (const term of extractNgrams(tokenize(comment.body, options.stopwords), options.n)) {
+      const entry = terms.get(term) ?? { term, n: options.n, count: 0, comments: 0, weight: 0 };
+      entry.count++;
+      entry.weight += weight;
+      if (!seen.has(term)) {
+        entry.comments++;
+        seen.add(term);
+      }
+      terms.set(term, entry);
+    }
+  });
+
+  const rank = options.weightByScore
+    ? (a: TermCount, b: TermCount) => b.weight - a.weight || b.count - a.count
+    : (a: TermCount, b: TermCount) => b.count - a.count || b.weight - a.weight;
+  return [...terms.values()].sort((a, b) => rank(a, b) || a.term.localeCompare(b.term)).slice(0, options.limit);
+};
+
+// 评论是否包含某个词或短语，切分方式与统计时一致
+export const containsTerm = (body: string, term: string, n: NgramSize) =>
+  extractNgrams(tokenize(body), n).includes(term);
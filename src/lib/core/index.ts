@@ -0,0 +1,92 @@
+import { BatchExportFormat, BodyFormat, buildBatchExportContent, buildExportContent, ExportFormat } from '@/lib/export';
+import { ExtractionCache, getCacheFromEnv, getCacheKey } from '@/lib/reddit/cache';
+import { createRedditFetcher, FetchHooks, resolveShareLink } from '@/lib/reddit/client';
+import { ExtractOptions, ExtractResult, extractThread } from '@/lib/reddit/extract';
+import { crawlListing, CrawlResult } from '@/lib/reddit/listing';
+import { createOAuthClient, getOAuthConfigFromEnv, OAuthClient } from '@/lib/reddit/oauth';
+import { CommentSort, sortComments } from '@/lib/reddit/sort';
+import { getDepsFromEnv, RedditDeps, RedditLogger } from '@/lib/reddit/transport';
+import { CrawlLimits, ParsedRedditUrl, RedditListingRef } from '@/lib/reddit/url';
+
+// 与框架无关的提取流程：接口路由和命令行共用同一套传输、OAuth、缓存、排序和导出
+
+export interface ExtractorConfig {
+  deps: RedditDeps;
+  oauthClient: OAuthClient | null;
+  cache: ExtractionCache | null;
+}
+
+// 传输方式由 REDDIT_TRANSPORT 决定 (live/record/replay)，
+// 配置了 REDDIT_CLIENT_ID/REDDIT_CLIENT_SECRET 时使用官方 OAuth API，缓存由 REDDIT_CACHE/REDDIT_CACHE_TTL 配置
+// 请求日志写到 logger，命令行借此把日志转到标准错误
+export const getExtractorConfigFromEnv = (env: NodeJS.ProcessEnv = process.env, logger: RedditLogger = console): ExtractorConfig => {
+  const deps = getDepsFromEnv(env, logger);
+  const oauthConfig = getOAuthConfigFromEnv(env);
+  return {
+    deps,
+    oauthClient: oauthConfig ? createOAuthClient(oauthConfig, deps) : null,
+    cache: getCacheFromEnv(env, deps.now)
+  };
+};
+
+export type ThreadTarget = Exclude<ParsedRedditUrl, { type: 'listing' }>;
+
+export interface CachedExtraction {
+  result: ExtractResult;
+  hit: boolean;
+  age: number;
+}
+
+export interface Extractor {
+  // refresh 为 true 时跳过缓存读取，但仍会写入新结果
+  extract: (target: ThreadTarget, options: ExtractOptions, clientIP: string, refresh?: boolean, hooks?: FetchHooks) => Promise<CachedExtraction>;
+  // 列表内容随时间变化，抓取结果不写入缓存
+  crawl: (listing: RedditListingRef, limits: CrawlLimits, options: ExtractOptions, clientIP: string, hooks?: FetchHooks) => Promise<CrawlResult>;
+}
+
+export const createExtractor = ({ deps, oauthClient, cache }: ExtractorConfig): Extractor => ({
+  extract: async (target, options, clientIP, refresh = false, hooks = {}) => {
+    // 分享链接先解析出帖子ID，才能确定缓存键
+    const ref = target.type === 'share' ? await resolveShareLink(target.url, deps, oauthClient, hooks.signal) : target.ref;
+    const cacheKey = getCacheKey(ref, options);
+
+    const cached = cache && !refresh ? await cache.get(cacheKey) : null;
+    if (cached) {
+      deps.logger.log(`📦 Cache hit: ${cacheKey}`);
+      return { result: cached.value, hit: true, age: Math.floor((deps.now() - cached.storedAt) / 1000) };
+    }
+
+    const fetchReddit = createRedditFetcher(clientIP, deps, oauthClient, hooks);
+    const result = await extractThread(ref, options, fetchReddit, hooks.onProgress, deps.logger);
+
+    await cache?.set(cacheKey, result).catch(error => deps.logger.error('写入缓存失败:', error));
+
+    return { result, hit: false, age: 0 };
+  },
+  crawl: (listing, limits, options, clientIP, hooks = {}) => {
+    const fetchReddit = createRedditFetcher(clientIP, deps, oauthClient, hooks);
+    return crawlListing(listing, limits, options, fetchReddit, hooks.onProgress, deps.logger);
+  }
+});
+
+export interface ExportSettings {
+  sort: CommentSort;
+  bodyFormat: BodyFormat;
+  exportedAt: Date;
+}
+
+// 按指定排序导出单个帖子，与页面的导出结果一致
+export const exportThread = (format: ExportFormat, result: ExtractResult, { sort, bodyFormat, exportedAt }: ExportSettings) =>
+  buildExportContent(format, {
+    post: result.post,
+    comments: sortComments(result.comments, sort),
+    exportedAt,
+    upstream: result.upstream
+  }, bodyFormat);
+
+// 多个帖子的合并导出
+export const exportThreads = (format: BatchExportFormat, results: ExtractResult[], { sort, bodyFormat, exportedAt }: ExportSettings) =>
+  buildBatchExportContent(format, {
+    threads: results.map(({ post, comments, upstream }) => ({ post, comments: sortComments(comments, sort), upstream })),
+    exportedAt
+  }, bodyFormat);
@@ -0,0 +1,19 @@
+import { makeComment, makeSubmission } from '@/lib/reddit/__fixtures__/factories';
+import { parseComments, parsePost } from '@/lib/reddit/parse';
+import { ExportInput } from '../types';
+
+// 导出测试共用的小型评论树：c1 (楼主) -> c2 -> c3，以及已删除的 c4
+
+export const makeExportInput = (): ExportInput => ({
+  post: parsePost(makeSubmission()),
+  comments: parseComments([
+    makeComment({ id: 'c1', author: 'op_user', is_submitter: true, body: 'first, "quoted"\nsecond line', score: 10 }, [
+      makeComment({ id: 'c2', parent_id: 't1_c1', author: 'bob', body: 'reply <b>bold</b>' }, [
+        makeComment({ id: 'c3', parent_id: 't1_c2', author: 'carol', body: 'deep reply' })
+      ])
+    ]),
+    makeComment({ id: 'c4', author: '[deleted]', body: '[deleted]' })
+  ], 'placeholder'),
+  exportedAt: new Date('2024-01-01T00:00:00Z'),
+  upstream: { sort: 'top', limit: 200, depth: null }
+});
@@ -0,0 +1,30 @@
+import { analyzeThread, ThreadAnalytics } from '@/lib/analysis/analytics';
+import { ParsedPost } from '@/lib/reddit/types';
+import { UpstreamParams } from '@/lib/reddit/url';
+import { Exporter } from './types';
+
+export interface AnalyticsExport {
+  version: number;
+  exported_at: string;
+  post: Pick<ParsedPost, 'id' | 'title' | 'subreddit' | 'permalink'> | null;
+  upstream: UpstreamParams | null;
+  analytics: ThreadAnalytics;
+}
+
+// 只导出统计结果，不包含评论内容
+export const analyticsExporter: Exporter = {
+  format: 'analytics',
+  label: '统计摘要 (JSON)',
+  extension: 'analytics.json',
+  mimeType: 'application/json;charset=utf-8',
+  build: ({ post, comments, exportedAt, upstream }) => {
+    const data: AnalyticsExport = {
+      version: 1,
+      exported_at: exportedAt.toISOString(),
+      post: post && { id: post.id, title: post.title, subreddit: post.subreddit, permalink: post.permalink },
+      upstream,
+      analytics: analyzeThread(comments, post)
+    };
+    return JSON.stringify(data, null, 2);
+  }
+};
@@ -0,0 +1,48 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { BATCH_COMMENT_FIELDS, BATCH_EXPORTERS, flattenThreads } from './batch';
+import { BatchExportInput } from './types';
+
+// 同一帖子的两份副本，第二份改为另一个帖子ID和带特殊字符的标题
+const makeBatchInput = (): BatchExportInput => {
+  const first = makeExportInput();
+  const second = makeExportInput();
+  second.post = { ...second.post!, id: 'def456', title: 'What? [serious] a/b' };
+  second.comments = second.comments.slice(0, 1);
+  return { threads: [first, second], exportedAt: first.exportedAt };
+};
+
+describe('flattenThreads', () => {
+  it('prefixes every comment row with its post', () => {
+    const rows = flattenThreads(makeBatchInput());
+    expect(rows.map(row => [row.post_id, row.id])).toEqual([
+      ['abc123', 'c1'], ['abc123', 'c2'], ['abc123', 'c3'], ['abc123', 'c4'],
+      ['def456', 'c1'], ['def456', 'c2'], ['def456', 'c3']
+    ]);
+    expect(rows[4].post_title).toBe('What? [serious] a/b');
+  });
+});
+
+describe('BATCH_EXPORTERS', () => {
+  it('writes the post columns first in CSV', () => {
+    const csv = (BATCH_EXPORTERS.csv.build(makeBatchInput()) as string).slice(1);
+    expect(csv.split('\r\n')[0]).toBe(BATCH_COMMENT_FIELDS.map(field => field.key).join(','));
+    expect(csv.split('\r\n')[0].startsWith('post_id,post_title,subreddit,depth,')).toBe(true);
+  });
+
+  it('groups the JSON export by post', () => {
+    const data = JSON.parse(BATCH_EXPORTERS.json.build(makeBatchInput()) as string);
+    expect(data.threads.map((thread: { post: { id: string } }) => thread.post.id)).toEqual(['abc123', 'def456']);
+    expect(data.threads[0].upstream).toEqual({ sort: 'top', limit: 200, depth: null });
+  });
+
+  it('writes an overview sheet and one valid sheet per post', () => {
+    const workbook = XLSX.read(BATCH_EXPORTERS.xlsx.build(makeBatchInput()), { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['帖子列表', 'abc123 Hello world', 'def456 What   serious  a b']);
+
+    const overview = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['帖子列表'], { header: 1 });
+    expect(overview[1].slice(0, 4)).toEqual(['abc123', 'Hello world', 'test', 4]);
+    expect(overview[2][3]).toBe(3);
+  });
+});
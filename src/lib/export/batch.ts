@@ -0,0 +1,96 @@
+import { ParsedComment, ParsedPost } from '@/lib/reddit/types';
+import { UpstreamParams } from '@/lib/reddit/url';
+import { toCsv } from './csv';
+import { COMMENT_FIELDS, CommentRow, flattenComments, toPlainComments, toPlainPost } from './fields';
+import { JSON_EXPORT_VERSION } from './json';
+import { BatchExporter, BatchExportFormat, BatchExportInput, BodyFormat } from './types';
+import { buildBatchWorkbook } from './xlsx';
+
+// 批量提取的合并导出：扁平格式每行带上所属帖子，Excel 每个帖子一张表
+
+export interface BatchCommentRow extends CommentRow {
+  post_id: string;
+  post_title: string;
+  subreddit: string;
+}
+
+export const BATCH_COMMENT_FIELDS: { key: keyof BatchCommentRow; label: string }[] = [
+  { key: 'post_id', label: '帖子ID' },
+  { key: 'post_title', label: '帖子标题' },
+  { key: 'subreddit', label: '版块' },
+  ...COMMENT_FIELDS
+];
+
+// 按帖子分组的评论树
+export interface BatchJsonExport {
+  version: number;
+  exported_at: string;
+  threads: {
+    post: ParsedPost | null;
+    upstream: UpstreamParams | null;
+    comments: ParsedComment[];
+  }[];
+}
+
+export const flattenThreads = ({ threads }: BatchExportInput): BatchCommentRow[] =>
+  threads.flatMap(({ post, comments }) => flattenComments(comments).map(row => ({
+    post_id: post?.id ?? '',
+    post_title: post?.title ?? '',
+    subreddit: post?.subreddit ?? '',
+    ...row
+  })));
+
+export const BATCH_EXPORTERS: Record<BatchExportFormat, BatchExporter> = {
+  xlsx: {
+    format: 'xlsx',
+    label: 'Excel (每个帖子一张表)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    build: buildBatchWorkbook
+  },
+  csv: {
+    format: 'csv',
+    label: 'CSV (带帖子列)',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8',
+    build: input => '\uFEFF' + toCsv(flattenThreads(input), BATCH_COMMENT_FIELDS)
+  },
+  ndjson: {
+    format: 'ndjson',
+    label: 'NDJSON (带帖子列)',
+    extension: 'ndjson',
+    mimeType: 'application/x-ndjson;charset=utf-8',
+    build: input => flattenThreads(input).map(row => JSON.stringify(row) + '\n').join('')
+  },
+  json: {
+    format: 'json',
+    label: 'JSON (按帖子分组)',
+    extension: 'json',
+    mimeType: 'application/json;charset=utf-8',
+    build: ({ threads, exportedAt }) => {
+      const data: BatchJsonExport = {
+        version: JSON_EXPORT_VERSION,
+        exported_at: exportedAt.toISOString(),
+        threads: threads.map(({ post, upstream, comments }) => ({ post, upstream, comments }))
+      };
+      return JSON.stringify(data, null, 2);
+    }
+  }
+};
+
+export const BATCH_EXPORT_FORMATS = Object.keys(BATCH_EXPORTERS) as BatchExportFormat[];
+
+export const getBatchExportFilename = (format: BatchExportFormat, exportedAt: Date, count: number) => {
+  const timestamp = exportedAt.toISOString().slice(0, 19).replace(/:/g, '-');
+  return `Reddit评论_${count}个帖子_${timestamp}.${BATCH_EXPORTERS[format].extension}`;
+};
+
+export const buildBatchExportContent = (format: BatchExportFormat, input: BatchExportInput, bodyFormat: BodyFormat = 'markdown') => {
+  const data = bodyFormat === 'plain'
+    ? { ...input, threads: input.threads.map(thread => ({ ...thread, post: toPlainPost(thread.post), comments: toPlainComments(thread.comments) })) }
+    : input;
+  return BATCH_EXPORTERS[format].build(data);
+};
+
+export const buildBatchExport = (format: BatchExportFormat, input: BatchExportInput, bodyFormat: BodyFormat = 'markdown') =>
+  new Blob([buildBatchExportContent(format, input, bodyFormat)], { type: BATCH_EXPORTERS[format].mimeType });
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { csvExporter } from './csv';
+import { COMMENT_FIELDS } from './fields';
+
+describe('csvExporter', () => {
+  it('writes a BOM, the shared header and one row per comment', () => {
+    const csv = csvExporter.build(makeExportInput()) as string;
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+
+    const lines = csv.slice(1).split('\r\n');
+    expect(lines[0]).toBe(COMMENT_FIELDS.map(field => field.key).join(','));
+    expect(lines.filter(Boolean)).toHaveLength(5);
+  });
+
+  it('quotes values with commas, quotes and newlines', () => {
+    const csv = csvExporter.build(makeExportInput()) as string;
+    expect(csv).toContain('"first, ""quoted""\nsecond line"');
+  });
+
+  it('neutralizes text that spreadsheets would run as a formula, but keeps negative scores', () => {
+    const input = makeExportInput();
+    input.comments[0].body = '=HYPERLINK("https://evil.example","click")';
+    input.comments[0].author = '@SUM(1+1)*cmd|\'/C calc\'!A0';
+    input.comments[1].body = '+HYPERLINK("https://evil.example")';
+    input.comments[1].score = -5;
+
+    const csv = csvExporter.build(input) as string;
+    expect(csv).toContain(`"'=HYPERLINK(""https://evil.example"",""click"")"`);
+    expect(csv).toContain(`,'@SUM(1+1)*cmd|'/C calc'!A0,`);
+    expect(csv).toContain(`"'+HYPERLINK(""https://evil.example"")"`);
+    expect(csv).toContain(',-5,');
+  });
+
+  it('leaves ordinary text that starts with - or + unchanged', () => {
+    const input = makeExportInput();
+    input.comments[0].body = '- first item (see below)\n- second item';
+    input.comments[0].author = '-dash-name-';
+    input.comments[1].body = '+1 to this';
+
+    const csv = csvExporter.build(input) as string;
+    expect(csv).toContain('"- first item (see below)\n- second item"');
+    expect(csv).toContain(',-dash-name-,');
+    expect(csv).toContain(',+1 to this,');
+  });
+});
@@ -0,0 +1,28 @@
+import { COMMENT_FIELDS, flattenComments } from './fields';
+import { Exporter } from './types';
+
+// 表格软件会把以 = 开头的文本当作公式执行；以 + - @ 开头时只有紧跟表达式才会执行，
+// 所以只在其中出现 (、! 或 | (函数调用、跨表或 DDE 引用) 时处理，Markdown 列表和 -5 这样的文本保持原样
+const isFormula = (text: string) =>
+  /^[=\t\r]/.test(text) || (/^[+\-@]\S/.test(text) && /[(!|]/.test(text));
+
+// 会被当作公式的文本前加单引号；含逗号、引号或换行的值加引号，引号写两次 (RFC 4180)
+const escapeCsv = (value: unknown) => {
+  const text = typeof value === 'string' && isFormula(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <Row>(rows: Row[], fields: { key: keyof Row & string }[]) =>
+  [
+    fields.map(field => field.key).join(','),
+    ...rows.map(row => fields.map(field => escapeCsv(row[field.key])).join(','))
+  ].join('\r\n') + '\r\n';
+
+export const csvExporter: Exporter = {
+  format: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8',
+  // 加 BOM，Excel 打开时才能正确识别 UTF-8 中文
+  build: ({ comments }) => '\uFEFF' + toCsv(flattenComments(comments), COMMENT_FIELDS)
+};
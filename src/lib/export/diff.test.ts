@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { diffThreads } from '@/lib/reddit/diff';
+import { makeExportInput } from './__fixtures__/thread';
+import { DIFF_EXPORTERS, DIFF_FIELDS, DiffJsonExport, flattenDiff, getDiffExportFilename } from './diff';
+import { DiffExportInput } from './types';
+
+// 较早的快照中 c2 的正文和分数不同，c3 尚未出现
+const makeDiffInput = (): DiffExportInput => {
+  const { post, comments, exportedAt } = makeExportInput();
+  const before = structuredClone(comments);
+  before[0].replies[0] = { ...before[0].replies[0], body: 'old reply', score: 4, replies: [] };
+  return {
+    post,
+    diff: diffThreads(before, comments),
+    from: Date.parse('2023-12-31T00:00:00Z'),
+    to: Date.parse('2024-01-01T00:00:00Z'),
+    exportedAt
+  };
+};
+
+describe('flattenDiff', () => {
+  it('lists only changed comments in tree order', () => {
+    const rows = flattenDiff(makeDiffInput());
+    expect(rows.map(row => [row.id, row.changes])).toEqual([['c2', '已编辑、分数变化'], ['c3', '新增']]);
+    expect(rows[0]).toMatchObject({ previous_body: 'old reply', previous_score: 4, score_delta: -3, body: 'reply <b>bold</b>' });
+    expect(rows[1]).toMatchObject({ previous_body: '', previous_score: '', score_delta: 0 });
+  });
+});
+
+describe('DIFF_EXPORTERS', () => {
+  it('writes the change columns first in CSV', () => {
+    const csv = DIFF_EXPORTERS.csv.build(makeDiffInput()).slice(1);
+    expect(csv.split('\r\n')[0]).toBe(DIFF_FIELDS.map(field => field.key).join(','));
+    expect(csv.split('\r\n')).toHaveLength(4);
+  });
+
+  it('includes both snapshot times and the counts in JSON', () => {
+    const data: DiffJsonExport = JSON.parse(DIFF_EXPORTERS.json.build(makeDiffInput()));
+    expect(data).toMatchObject({ from: '2023-12-31T00:00:00.000Z', to: '2024-01-01T00:00:00.000Z', counts: { added: 1, deleted: 0, edited: 1, score: 1 } });
+    expect(data.comments).toHaveLength(2);
+  });
+
+  it('names the file after the post and both snapshots', () => {
+    expect(getDiffExportFilename('csv', makeDiffInput())).toBe('Reddit评论对比_abc123_2023-12-31T00-00-00_2024-01-01T00-00-00.csv');
+  });
+});
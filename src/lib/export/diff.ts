@@ -0,0 +1,89 @@
+import { CHANGE_LABELS, ChangeKind, pruneToChanges } from '@/lib/reddit/diff';
+import { ParsedPost } from '@/lib/reddit/types';
+import { toCsv } from './csv';
+import { COMMENT_FIELDS, CommentRow, flattenComments } from './fields';
+import { JSON_EXPORT_VERSION } from './json';
+import { DiffExporter, DiffExportFormat, DiffExportInput } from './types';
+
+// 快照对比的导出：每条有变化的评论一行，附带变化类型和旧的正文与分数
+
+export interface DiffRow extends CommentRow {
+  changes: string;
+  previous_body: string;
+  previous_score: number | '';
+  score_delta: number;
+}
+
+export const DIFF_FIELDS: { key: keyof DiffRow; label: string }[] = [
+  { key: 'changes', label: '变化' },
+  { key: 'previous_body', label: '原内容' },
+  { key: 'previous_score', label: '原点赞数' },
+  { key: 'score_delta', label: '点赞数变化' },
+  ...COMMENT_FIELDS
+];
+
+export interface DiffJsonExport {
+  version: number;
+  exported_at: string;
+  post: ParsedPost | null;
+  from: string;
+  to: string;
+  counts: Record<ChangeKind, number>;
+  comments: DiffRow[];
+}
+
+// 按评论树的顺序列出有变化的评论，只作为上下文的父评论不输出
+export const flattenDiff = ({ diff }: DiffExportInput): DiffRow[] =>
+  flattenComments(pruneToChanges(diff.comments, diff.changes)).flatMap(row => {
+    const change = diff.changes.get(row.id);
+    if (!change) {
+      return [];
+    }
+    return [{
+      changes: change.kinds.map(kind => CHANGE_LABELS[kind]).join('、'),
+      previous_body: change.kinds.includes('edited') || change.kinds.includes('deleted') ? change.previousBody ?? '' : '',
+      previous_score: change.previousScore ?? '',
+      score_delta: change.scoreDelta,
+      ...row
+    }];
+  });
+
+export const DIFF_EXPORTERS: Record<DiffExportFormat, DiffExporter> = {
+  csv: {
+    format: 'csv',
+    label: 'CSV (变化列表)',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8',
+    build: input => '\uFEFF' + toCsv(flattenDiff(input), DIFF_FIELDS)
+  },
+  json: {
+    format: 'json',
+    label: 'JSON (变化列表)',
+    extension: 'json',
+    mimeType: 'application/json;charset=utf-8',
+    build: input => {
+      const data: DiffJsonExport = {
+        version: JSON_EXPORT_VERSION,
+        exported_at: input.exportedAt.toISOString(),
+        post: input.post,
+        from: new Date(input.from).toISOString(),
+        to: new Date(input.to).toISOString(),
+        counts: input.diff.counts,
+        comments: flattenDiff(input)
+      };
+      return JSON.stringify(data, null, 2);
+    }
+  }
+};
+
+export const DIFF_EXPORT_FORMATS = Object.keys(DIFF_EXPORTERS) as DiffExportFormat[];
+
+export const getDiffExportFilename = (format: DiffExportFormat, { post, from, to }: DiffExportInput) => {
+  const stamp = (time: number) => new Date(time).toISOString().slice(0, 19).replace(/:/g, '-');
+  return `Reddit评论对比_${post?.id ?? 'thread'}_${stamp(from)}_${stamp(to)}.${DIFF_EXPORTERS[format].extension}`;
+};
+
+export const buildDiffExport = (format: DiffExportFormat, input: DiffExportInput) => {
+  const exporter = DIFF_EXPORTERS[format];
+  return new Blob([exporter.build(input)], { type: exporter.mimeType });
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { COMMENT_FIELDS, describeUpstreamParams, flattenComments, getDisplayBody, toPlainComments } from './fields';
+import { buildExport, getExportFilename } from './index';
+
+describe('flattenComments', () => {
+  it('lists parents before their replies', () => {
+    const rows = flattenComments(makeExportInput().comments);
+    expect(rows.map(row => [row.id, row.depth, row.parent_id, row.thread_path])).toEqual([
+      ['c1', 0, 't3_abc123', 'c1'],
+      ['c2', 1, 't1_c1', 'c1/c2'],
+      ['c3', 2, 't1_c2', 'c1/c2/c3'],
+      ['c4', 0, 't3_abc123', 'c4']
+    ]);
+  });
+
+  it('produces exactly the shared field set', () => {
+    const [row] = flattenComments(makeExportInput().comments);
+    expect(Object.keys(row).sort()).toEqual(COMMENT_FIELDS.map(field => field.key).sort());
+    expect(row.created_at).toBe('2023-11-14T22:13:20.000Z');
+    expect([row.sentiment, row.sentiment_score, row.toxicity]).toEqual(['neutral', 0, 0]);
+  });
+});
+
+describe('getDisplayBody', () => {
+  it('shows a placeholder for deleted comments without a body', () => {
+    const deleted = makeExportInput().comments[1];
+    expect(getDisplayBody(deleted)).toBe('[该评论已被作者删除]');
+  });
+});
+
+describe('describeUpstreamParams', () => {
+  it('lists only the parameters that were forwarded', () => {
+    expect(describeUpstreamParams({ sort: 'top', limit: 200, depth: null })).toBe('排序 最高 (top)，数量上限 200');
+    expect(describeUpstreamParams({ sort: null, limit: null, depth: null })).toBe('Reddit 默认');
+    expect(describeUpstreamParams(null)).toBe('未知');
+  });
+
+  it('is reflected in the export filename', () => {
+    const exportedAt = new Date('2024-01-01T00:00:00Z');
+    expect(getExportFilename('csv', exportedAt, { sort: 'new', limit: null, depth: 3 })).toBe('Reddit评论_2024-01-01T00-00-00_sort-new_depth-3.csv');
+    expect(getExportFilename('csv', exportedAt)).toBe('Reddit评论_2024-01-01T00-00-00.csv');
+  });
+});
+
+describe('plain text bodies', () => {
+  it('strips markdown from every comment in the tree', () => {
+    const [first] = makeExportInput().comments;
+    const comments = toPlainComments([{ ...first, body: '**bold** [link](https://example.com)' }]);
+    expect(comments[0].body).toBe('bold link (https://example.com)');
+    expect(comments[0].replies[0].body).toBe('reply <b>bold</b>');
+  });
+
+  it('is applied by buildExport only when requested', async () => {
+    const input = makeExportInput();
+    input.comments[0].body = '> *quoted*';
+    const parse = async (blob: Blob) => JSON.parse(await blob.text()).comments[0].body;
+    expect(await parse(buildExport('json', input))).toBe('> *quoted*');
+    expect(await parse(buildExport('json', input, 'plain'))).toBe('quoted');
+  });
+});
@@ -0,0 +1,167 @@
+import { toPlainText } from '@/lib/reddit/markdown';
+import { CommentStatus, ParsedComment, ParsedPost, SentimentLabel } from '@/lib/reddit/types';
+import { REDDIT_SORT_LABELS, UpstreamParams } from '@/lib/reddit/url';
+import { BodyFormat } from './types';
+
+// 所有导出格式共用的字段定义，CSV/NDJSON/JSON 使用 key，表格和文档使用 label
+
+export const STATUS_LABELS: Record<CommentStatus, string> = {
+  active: '正常',
+  deleted: '已删除',
+  removed: '已移除'
+};
+
+export interface CommentRow {
+  depth: number;
+  id: string;
+  parent_id: string;
+  thread_path: string;
+  author: string;
+  is_submitter: boolean;
+  distinguished: string;
+  stickied: boolean;
+  status: CommentStatus;
+  body: string;
+  score: number;
+  controversiality: number;
+  sentiment: SentimentLabel;
+  sentiment_score: number;
+  toxicity: number;
+  created_at: string;
+  created_utc: number;
+  edited_at: string;
+  permalink: string;
+}
+
+export interface FieldDefinition {
+  key: keyof CommentRow;
+  label: string;
+}
+
+export const COMMENT_FIELDS: FieldDefinition[] = [
+  { key: 'depth', label: '层级' },
+  { key: 'id', label: '评论ID' },
+  { key: 'parent_id', label: '父评论ID' },
+  { key: 'thread_path', label: '楼层路径' },
+  { key: 'author', label: '作者' },
+  { key: 'is_submitter', label: '楼主' },
+  { key: 'distinguished', label: '身份' },
+  { key: 'stickied', label: '置顶' },
+  { key: 'status', label: '状态' },
+  { key: 'body', label: '内容' },
+  { key: 'score', label: '点赞数' },
+  { key: 'controversiality', label: '争议' },
+  { key: 'sentiment', label: '情绪' },
+  { key: 'sentiment_score', label: '情绪分' },
+  { key: 'toxicity', label: '攻击性' },
+  { key: 'created_at', label: '发布时间' },
+  { key: 'created_utc', label: '时间戳' },
+  { key: 'edited_at', label: '编辑时间' },
+  { key: 'permalink', label: '永久链接' }
+];
+
+export const BODY_FORMAT_LABELS: Record<BodyFormat, string> = {
+  markdown: 'Markdown 原文',
+  plain: '纯文本'
+};
+
+export const BODY_FORMATS = Object.keys(BODY_FORMAT_LABELS) as BodyFormat[];
+
+export const POST_FIELDS: { key: keyof ParsedPost; label: string }[] = [
+  { key: 'id', label: '帖子ID' },
+  { key: 'title', label: '标题' },
+  { key: 'subreddit', label: '版块' },
+  { key: 'author', label: '作者' },
+  { key: 'selftext', label: '正文' },
+  { key: 'url', label: '链接' },
+  { key: 'permalink', label: '永久链接' },
+  { key: 'score', label: '点赞数' },
+  { key: 'upvote_ratio', label: '好评率' },
+  { key: 'num_comments', label: '评论数' },
+  { key: 'flair', label: '标签' },
+  { key: 'created_utc', label: '时间戳' }
+];
+
+// Unix 秒转换为 ISO 8601 字符串
+export const toIsoDate = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+// Unix 秒转换为本地时间，用于页面和文档类导出
+export const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString('zh-CN');
+
+// 已删除或被移除且没有正文的评论显示占位文字
+export const getDisplayBody = (comment: ParsedComment) => {
+  if (comment.status !== 'active' && !comment.body) {
+    return comment.status === 'removed' ? '[该评论已被版主移除]' : '[该评论已被作者删除]';
+  }
+  return comment.body;
+};
+
+// 评论的身份标记：楼主、版主/管理员、置顶和删除状态
+export const getCommentBadges = (comment: ParsedComment) => {
+  const badges: string[] = [];
+  if (comment.is_submitter) {
+    badges.push('楼主');
+  }
+  if (comment.distinguished) {
+    badges.push(comment.distinguished === 'admin' ? '管理员' : '版主');
+  }
+  if (comment.stickied) {
+    badges.push('置顶');
+  }
+  if (comment.status !== 'active') {
+    badges.push(STATUS_LABELS[comment.status]);
+  }
+  return badges;
+};
+
+// 提取时的 Reddit 请求参数，写入导出文件便于复现
+export const describeUpstreamParams = (params: UpstreamParams | null) => {
+  if (!params) {
+    return '未知';
+  }
+  const parts = [
+    params.sort ? `排序 ${REDDIT_SORT_LABELS[params.sort]} (${params.sort})` : '',
+    params.limit !== null ? `数量上限 ${params.limit}` : '',
+    params.depth !== null ? `层数上限 ${params.depth}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('，') : 'Reddit 默认';
+};
+
+export const getAuthorLabel = (author: string) => !author || author === '[deleted]' ? '[已注销]' : `u/${author}`;
+
+// 楼层路径为从顶层评论到当前评论的ID，以 / 分隔
+export const toCommentRow = (comment: ParsedComment, parentPath = ''): CommentRow => ({
+  depth: comment.depth,
+  id: comment.id,
+  parent_id: comment.parent_id,
+  thread_path: parentPath ? `${parentPath}/${comment.id}` : comment.id,
+  author: comment.author,
+  is_submitter: comment.is_submitter,
+  distinguished: comment.distinguished ?? '',
+  stickied: comment.stickied,
+  status: comment.status,
+  body: comment.body,
+  score: comment.score,
+  controversiality: comment.controversiality,
+  sentiment: comment.sentiment.label,
+  sentiment_score: comment.sentiment.score,
+  toxicity: comment.sentiment.toxicity,
+  created_at: toIsoDate(comment.created_utc),
+  created_utc: comment.created_utc,
+  edited_at: comment.edited ? toIsoDate(comment.edited) : '',
+  permalink: comment.permalink
+});
+
+// 按显示顺序（先父后子）扁平化评论树
+export const flattenComments = (comments: ParsedComment[], parentPath = ''): CommentRow[] =>
+  comments.flatMap(comment => {
+    const row = toCommentRow(comment, parentPath);
+    return [row, ...flattenComments(comment.replies, row.thread_path)];
+  });
+
+// 把评论树和帖子正文中的 Markdown 转换为纯文本，其余字段不变
+export const toPlainComments = (comments: ParsedComment[]): ParsedComment[] =>
+  comments.map(comment => ({ ...comment, body: toPlainText(comment.body), replies: toPlainComments(comment.replies) }));
+
+export const toPlainPost = (post: ParsedPost | null): ParsedPost | null =>
+  post && { ...post, selftext: toPlainText(post.selftext) };
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { htmlExporter } from './html';
+
+describe('htmlExporter', () => {
+  it('builds a standalone page without external resources', () => {
+    const html = htmlExporter.build(makeExportInput()) as string;
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Hello world</title>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).not.toMatch(/src="/);
+  });
+
+  it('escapes comment text and nests replies', () => {
+    const html = htmlExporter.build(makeExportInput()) as string;
+
+    expect(html).toContain('reply &lt;b&gt;bold&lt;/b&gt;');
+    expect(html).toMatch(/id="c-c1">[\s\S]*id="c-c2">[\s\S]*id="c-c3">/);
+  });
+
+  it('drops links that are not http(s)', () => {
+    const input = makeExportInput();
+    input.comments[0].permalink = 'javascript:alert(1)';
+    expect(htmlExporter.build(input)).not.toContain('javascript:');
+  });
+});
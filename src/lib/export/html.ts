@@ -0,0 +1,71 @@
+import { countComments } from '@/lib/reddit/parse';
+import { ParsedComment } from '@/lib/reddit/types';
+import { describeUpstreamParams, formatDate, getAuthorLabel, getCommentBadges, getDisplayBody } from './fields';
+import { Exporter } from './types';
+
+// 单个 HTML 文件，样式内联、不引用外部资源，可以离线打开
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// 只保留 http(s) 链接，防止 javascript: 等协议
+const safeHref = (url: string) => /^https?:\/\//i.test(url) ? escapeHtml(url) : '#';
+
+const STYLES = `
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; max-width: 960px; margin: 0 auto; padding: 24px; color: #1f2937; background: #f9fafb; }
+header { background: #fff; border-radius: 12px; padding: 20px; margin-bottom: 24px; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+h1 { font-size: 1.5rem; margin: 0 0 8px; }
+.meta { color: #6b7280; font-size: .875rem; }
+.selftext { white-space: pre-wrap; margin-top: 12px; }
+.comment { border-left: 2px solid #e5e7eb; padding-left: 16px; margin: 12px 0; }
+.comment > .card { background: #fff; border-radius: 8px; padding: 12px; box-shadow: 0 1px 2px rgba(0,0,0,.06); }
+.author { font-weight: 600; color: #2563eb; }
+.badge { display: inline-block; background: #eef2ff; color: #4338ca; border-radius: 9999px; padding: 0 8px; font-size: .75rem; margin-left: 4px; }
+.body { white-space: pre-wrap; margin-top: 8px; }
+.inactive .body { color: #9ca3af; }
+a { color: inherit; }
+`;
+
+const renderComment = (comment: ParsedComment): string => {
+  const badges = getCommentBadges(comment).map(badge => `<span class="badge">${escapeHtml(badge)}</span>`).join('');
+  const replies = comment.replies.map(renderComment).join('');
+
+  return `<div class="comment${comment.status === 'active' ? '' : ' inactive'}" id="c-${escapeHtml(comment.id)}">`
+    + '<div class="card">'
+    + `<div class="meta"><span class="author">${escapeHtml(getAuthorLabel(comment.author))}</span>${badges}`
+    + ` · 👍 ${comment.score} · <a href="${safeHref(comment.permalink)}">${escapeHtml(formatDate(comment.created_utc))}</a></div>`
+    + `<div class="body">${escapeHtml(getDisplayBody(comment))}</div>`
+    + '</div>'
+    + replies
+    + '</div>';
+};
+
+export const htmlExporter: Exporter = {
+  format: 'html',
+  label: 'HTML 离线存档',
+  extension: 'html',
+  mimeType: 'text/html;charset=utf-8',
+  build: ({ post, comments, exportedAt, upstream }) => {
+    const title = post ? post.title : 'Reddit评论';
+    const header = post
+      ? `<h1>${escapeHtml(post.title)}</h1>`
+        + `<div class="meta">r/${escapeHtml(post.subreddit)} · ${escapeHtml(getAuthorLabel(post.author))} · 👍 ${post.score}`
+        + ` · ${escapeHtml(formatDate(post.created_utc))} · <a href="${safeHref(post.permalink)}">原帖</a></div>`
+        + (post.selftext ? `<div class="selftext">${escapeHtml(post.selftext)}</div>` : '')
+      : `<h1>${escapeHtml(title)}</h1>`;
+
+    return '<!DOCTYPE html>\n'
+      + '<html lang="zh-CN">\n<head>\n<meta charset="utf-8">\n'
+      + '<meta name="viewport" content="width=device-width, initial-scale=1">\n'
+      + `<title>${escapeHtml(title)}</title>\n<style>${STYLES}</style>\n</head>\n<body>\n`
+      + `<header>${header}<div class="meta">共 ${countComments(comments)} 条评论 · 导出于 ${escapeHtml(exportedAt.toLocaleString('zh-CN'))}`
+        + ` · Reddit 请求参数: ${escapeHtml(describeUpstreamParams(upstream))}</div></header>\n`
+      + `<main>${comments.map(renderComment).join('\n')}</main>\n`
+      + '</body>\n</html>\n';
+  }
+};
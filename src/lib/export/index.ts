@@ -0,0 +1,50 @@
+import { analyticsExporter } from './analytics';
+import { csvExporter } from './csv';
+import { toPlainComments, toPlainPost } from './fields';
+import { htmlExporter } from './html';
+import { jsonExporter } from './json';
+import { markdownExporter } from './markdown';
+import { ndjsonExporter } from './ndjson';
+import { UpstreamParams } from '@/lib/reddit/url';
+import { BodyFormat, ExportFormat, ExportInput, Exporter } from './types';
+import { xlsxExporter } from './xlsx';
+
+export type { BatchExportFormat, BodyFormat, BatchExportInput, BatchThread, DiffExportFormat, DiffExportInput, ExportFormat, ExportInput, Exporter } from './types';
+export { BATCH_EXPORT_FORMATS, BATCH_EXPORTERS, buildBatchExport, buildBatchExportContent, getBatchExportFilename } from './batch';
+export { buildDiffExport, DIFF_EXPORT_FORMATS, DIFF_EXPORTERS, getDiffExportFilename } from './diff';
+
+// 导出格式注册表，格式选择器按此顺序列出
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  xlsx: xlsxExporter,
+  csv: csvExporter,
+  json: jsonExporter,
+  ndjson: ndjsonExporter,
+  markdown: markdownExporter,
+  html: htmlExporter,
+  analytics: analyticsExporter
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+// 非默认的 Reddit 请求参数写入文件名，CSV/NDJSON 等没有元数据的格式也能追溯
+export const getExportFilename = (format: ExportFormat, exportedAt: Date, upstream: UpstreamParams | null = null) => {
+  const timestamp = exportedAt.toISOString().slice(0, 19).replace(/:/g, '-');
+  const suffix = upstream
+    ? [
+      upstream.sort && `_sort-${upstream.sort}`,
+      upstream.limit !== null && `_limit-${upstream.limit}`,
+      upstream.depth !== null && `_depth-${upstream.depth}`
+    ].filter(Boolean).join('')
+    : '';
+  return `Reddit评论_${timestamp}${suffix}.${EXPORTERS[format].extension}`;
+};
+
+// 生成导出文件内容，不依赖浏览器，命令行直接写入文件
+export const buildExportContent = (format: ExportFormat, input: ExportInput, bodyFormat: BodyFormat = 'markdown') => {
+  const data = bodyFormat === 'plain' ? { ...input, post: toPlainPost(input.post), comments: toPlainComments(input.comments) } : input;
+  return EXPORTERS[format].build(data);
+};
+
+// 页面负责下载
+export const buildExport = (format: ExportFormat, input: ExportInput, bodyFormat: BodyFormat = 'markdown') =>
+  new Blob([buildExportContent(format, input, bodyFormat)], { type: EXPORTERS[format].mimeType });
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { analyticsExporter } from './analytics';
+import { jsonExporter, parseJsonExport } from './json';
+import { ndjsonExporter } from './ndjson';
+
+describe('jsonExporter', () => {
+  it('round-trips the nested tree', () => {
+    const input = makeExportInput();
+    const parsed = parseJsonExport(jsonExporter.build(input) as string);
+
+    expect(parsed.post).toEqual(input.post);
+    expect(parsed.comments).toEqual(input.comments);
+    expect(parsed.exported_at).toBe('2024-01-01T00:00:00.000Z');
+    expect(parsed.upstream).toEqual({ sort: 'top', limit: 200, depth: null });
+  });
+
+  it('rejects files that are not an export', () => {
+    expect(() => parseJsonExport('{"comments": null}')).toThrow('无效的JSON导出文件');
+    expect(() => parseJsonExport('{"version": 99, "comments": []}')).toThrow('不支持的JSON导出版本');
+  });
+});
+
+describe('ndjsonExporter', () => {
+  it('writes one flat comment per line', () => {
+    const lines = (ndjsonExporter.build(makeExportInput()) as string).trimEnd().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.id)).toEqual(['c1', 'c2', 'c3', 'c4']);
+    expect(lines[2]).toMatchObject({ depth: 2, parent_id: 't1_c2', author: 'carol' });
+  });
+});
+
+describe('analyticsExporter', () => {
+  it('writes the analytics summary without comment bodies', () => {
+    const text = analyticsExporter.build(makeExportInput()) as string;
+    const data = JSON.parse(text);
+
+    expect(data.post).toEqual({ id: 'abc123', title: 'Hello world', subreddit: 'test', permalink: expect.any(String) });
+    expect(data.analytics.summary.comments).toBe(4);
+    expect(text).not.toContain('deep reply');
+  });
+});
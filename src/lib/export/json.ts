@@ -0,0 +1,44 @@
+import { ParsedComment, ParsedPost } from '@/lib/reddit/types';
+import { UpstreamParams } from '@/lib/reddit/url';
+import { Exporter } from './types';
+
+export const JSON_EXPORT_VERSION = 1;
+
+// 嵌套的评论树，字段与接口返回的评论一致，可以原样读回
+export interface JsonExport {
+  version: number;
+  exported_at: string;
+  post: ParsedPost | null;
+  // 早期的导出文件没有该字段
+  upstream?: UpstreamParams | null;
+  comments: ParsedComment[];
+}
+
+export const jsonExporter: Exporter = {
+  format: 'json',
+  label: 'JSON (评论树)',
+  extension: 'json',
+  mimeType: 'application/json;charset=utf-8',
+  build: ({ post, comments, exportedAt, upstream }) => {
+    const data: JsonExport = {
+      version: JSON_EXPORT_VERSION,
+      exported_at: exportedAt.toISOString(),
+      post,
+      upstream,
+      comments
+    };
+    return JSON.stringify(data, null, 2);
+  }
+};
+
+// 读取 JSON 导出文件，格式不符时抛出
+export const parseJsonExport = (text: string): JsonExport => {
+  const data = JSON.parse(text);
+  if (!data || typeof data !== 'object' || !Array.isArray(data.comments)) {
+    throw new Error('无效的JSON导出文件');
+  }
+  if (data.version !== JSON_EXPORT_VERSION) {
+    throw new Error(`不支持的JSON导出版本: ${data.version}`);
+  }
+  return data;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { markdownExporter } from './markdown';
+
+describe('markdownExporter', () => {
+  it('quotes each reply one level deeper than its parent', () => {
+    const markdown = markdownExporter.build(makeExportInput()) as string;
+
+    expect(markdown).toMatch(/^# Hello world\n/);
+    expect(markdown).toContain('## 评论 (4)');
+    expect(markdown).toMatch(/^\*\*u\/op_user\*\* · 👍 10 · .* · 楼主$/m);
+    expect(markdown).toContain('first, "quoted"\nsecond line');
+    expect(markdown).toMatch(/^> \*\*u\/bob\*\*/m);
+    expect(markdown).toContain('> reply <b>bold</b>');
+    expect(markdown).toMatch(/^> > \*\*u\/carol\*\*/m);
+    expect(markdown).toContain('> > deep reply');
+  });
+
+  it('marks deleted comments', () => {
+    const markdown = markdownExporter.build(makeExportInput()) as string;
+    expect(markdown).toMatch(/^\*\*\[已注销\]\*\* · .* · 已删除\n\n\[该评论已被作者删除\]$/m);
+  });
+});
@@ -0,0 +1,48 @@
+import { countComments } from '@/lib/reddit/parse';
+import { ParsedComment } from '@/lib/reddit/types';
+import { describeUpstreamParams, formatDate, getAuthorLabel, getCommentBadges, getDisplayBody } from './fields';
+import { Exporter } from './types';
+
+// 每层回复多一级引用，空行也保留引用符号，避免嵌套断开
+const quote = (text: string, depth: number) => {
+  const prefix = '> '.repeat(depth);
+  return text.split('\n').map(line => (prefix + line).trimEnd()).join('\n');
+};
+
+const renderComment = (comment: ParsedComment, depth: number): string => {
+  const header = [
+    `**${getAuthorLabel(comment.author)}**`,
+    `👍 ${comment.score}`,
+    `[${formatDate(comment.created_utc)}](${comment.permalink})`,
+    ...getCommentBadges(comment)
+  ].join(' · ');
+
+  const block = quote(`${header}\n\n${getDisplayBody(comment)}`, depth);
+  const replies = comment.replies.map(reply => quote('', depth + 1) + '\n' + renderComment(reply, depth + 1));
+  return [block, ...replies].join('\n');
+};
+
+export const markdownExporter: Exporter = {
+  format: 'markdown',
+  label: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8',
+  build: ({ post, comments, upstream }) => {
+    const sections: string[] = [];
+
+    if (post) {
+      sections.push(`# ${post.title}`);
+      sections.push(`r/${post.subreddit} · ${getAuthorLabel(post.author)} · 👍 ${post.score} · ${formatDate(post.created_utc)}\n\n<${post.permalink}>`);
+      if (post.selftext) {
+        sections.push(post.selftext);
+      }
+      sections.push('---');
+    }
+
+    sections.push(`## 评论 (${countComments(comments)})`);
+    sections.push(`> Reddit 请求参数: ${describeUpstreamParams(upstream)}`);
+    sections.push(...comments.map(comment => renderComment(comment, 0)));
+
+    return sections.join('\n\n') + '\n';
+  }
+};
@@ -0,0 +1,11 @@
+import { flattenComments } from './fields';
+import { Exporter } from './types';
+
+// 每行一条扁平化评论，字段与 CSV 列一致
+export const ndjsonExporter: Exporter = {
+  format: 'ndjson',
+  label: 'NDJSON',
+  extension: 'ndjson',
+  mimeType: 'application/x-ndjson;charset=utf-8',
+  build: ({ comments }) => flattenComments(comments).map(row => JSON.stringify(row) + '\n').join('')
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { summarizeAuthors, summarizeThread } from './stats';
+
+describe('summarizeAuthors', () => {
+  it('counts comments and score per author', () => {
+    const input = makeExportInput();
+    input.comments[0].replies[0].replies[0].author = 'bob';
+
+    const stats = summarizeAuthors(input.comments);
+    expect(stats[0]).toMatchObject({ author: 'bob', comments: 2, topLevel: 0, totalScore: 2, averageScore: 1 });
+    expect(stats.find(row => row.author === 'op_user')).toMatchObject({ topLevel: 1, isSubmitter: true, maxScore: 10 });
+  });
+});
+
+describe('summarizeThread', () => {
+  it('reports size, depth and participation', () => {
+    expect(summarizeThread(makeExportInput().comments)).toEqual({
+      comments: 4,
+      topLevel: 2,
+      authors: 3,
+      maxDepth: 2,
+      submitterComments: 1,
+      inactive: 1,
+      totalScore: 13,
+      firstCommentUtc: 1700000000,
+      lastCommentUtc: 1700000000
+    });
+  });
+
+  it('handles an empty tree', () => {
+    expect(summarizeThread([])).toMatchObject({ comments: 0, firstCommentUtc: null, lastCommentUtc: null });
+  });
+});
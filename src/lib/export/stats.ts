@@ -0,0 +1,77 @@
+import { ParsedComment } from '@/lib/reddit/types';
+import { flattenComments } from './fields';
+
+// 导出文件中的汇总数据：按作者统计和整个评论树的概况
+
+export interface AuthorStats {
+  author: string;
+  comments: number;
+  topLevel: number;
+  totalScore: number;
+  averageScore: number;
+  maxScore: number;
+  isSubmitter: boolean;
+  firstCommentUtc: number;
+  lastCommentUtc: number;
+}
+
+export interface ThreadSummary {
+  comments: number;
+  topLevel: number;
+  authors: number;
+  maxDepth: number;
+  submitterComments: number;
+  inactive: number;
+  totalScore: number;
+  firstCommentUtc: number | null;
+  lastCommentUtc: number | null;
+}
+
+// 已注销的作者合并为一行，按评论数和总点赞降序
+export const summarizeAuthors = (comments: ParsedComment[]): AuthorStats[] => {
+  const byAuthor = new Map<string, AuthorStats>();
+
+  for (const row of flattenComments(comments)) {
+    const author = row.author && row.author !== '[deleted]' ? row.author : '[deleted]';
+    const stats = byAuthor.get(author) ?? {
+      author,
+      comments: 0,
+      topLevel: 0,
+      totalScore: 0,
+      averageScore: 0,
+      maxScore: row.score,
+      isSubmitter: false,
+      firstCommentUtc: row.created_utc,
+      lastCommentUtc: row.created_utc
+    };
+
+    stats.comments++;
+    stats.topLevel += row.depth === 0 ? 1 : 0;
+    stats.totalScore += row.score;
+    stats.maxScore = Math.max(stats.maxScore, row.score);
+    stats.isSubmitter ||= row.is_submitter;
+    stats.firstCommentUtc = Math.min(stats.firstCommentUtc, row.created_utc);
+    stats.lastCommentUtc = Math.max(stats.lastCommentUtc, row.created_utc);
+    byAuthor.set(author, stats);
+  }
+
+  return [...byAuthor.values()]
+    .map(stats => ({ ...stats, averageScore: Math.round(stats.totalScore / stats.comments * 100) / 100 }))
+    .sort((a, b) => b.comments - a.comments || b.totalScore - a.totalScore);
+};
+
+export const summarizeThread = (comments: ParsedComment[]): ThreadSummary => {
+  const rows = flattenComments(comments);
+
+  return {
+    comments: rows.length,
+    topLevel: comments.length,
+    authors: new Set(rows.filter(row => row.author && row.author !== '[deleted]').map(row => row.author)).size,
+    maxDepth: rows.reduce((max, row) => Math.max(max, row.depth), 0),
+    submitterComments: rows.filter(row => row.is_submitter).length,
+    inactive: rows.filter(row => row.status !== 'active').length,
+    totalScore: rows.reduce((total, row) => total + row.score, 0),
+    firstCommentUtc: rows.reduce<number | null>((min, row) => min === null ? row.created_utc : Math.min(min, row.created_utc), null),
+    lastCommentUtc: rows.reduce<number | null>((max, row) => max === null ? row.created_utc : Math.max(max, row.created_utc), null)
+  };
+};
@@ -0,0 +1,67 @@
+import { ThreadDiff } from '@/lib/reddit/diff';
+import { ParsedComment, ParsedPost } from '@/lib/reddit/types';
+import { UpstreamParams } from '@/lib/reddit/url';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'json' | 'ndjson' | 'markdown' | 'html' | 'analytics';
+
+// 正文导出为 Reddit 原始的 Markdown，或去掉标记的纯文本
+export type BodyFormat = 'markdown' | 'plain';
+
+// 导出的数据，评论树已经按页面当前的排序和筛选处理
+export interface ExportInput {
+  post: ParsedPost | null;
+  comments: ParsedComment[];
+  exportedAt: Date;
+  // 提取时转发给 Reddit 的参数，未知时为 null
+  upstream: UpstreamParams | null;
+}
+
+export interface Exporter {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  build: (input: ExportInput) => string | ArrayBuffer;
+}
+
+// 批量提取的合并导出，每个帖子一组评论
+export type BatchExportFormat = 'xlsx' | 'csv' | 'ndjson' | 'json';
+
+export interface BatchThread {
+  post: ParsedPost | null;
+  comments: ParsedComment[];
+  upstream: UpstreamParams | null;
+}
+
+export interface BatchExportInput {
+  threads: BatchThread[];
+  exportedAt: Date;
+}
+
+export interface BatchExporter {
+  format: BatchExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  build: (input: BatchExportInput) => string | ArrayBuffer;
+}
+
+// 两份快照之间的差异，只导出有变化的评论
+export type DiffExportFormat = 'csv' | 'json';
+
+export interface DiffExportInput {
+  post: ParsedPost | null;
+  diff: ThreadDiff;
+  // 两份快照的保存时间 (毫秒)
+  from: number;
+  to: number;
+  exportedAt: Date;
+}
+
+export interface DiffExporter {
+  format: DiffExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  build: (input: DiffExportInput) => string;
+}
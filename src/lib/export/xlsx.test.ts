@@ -0,0 +1,77 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { makeExportInput } from './__fixtures__/thread';
+import { COMMENT_FIELDS } from './fields';
+import { xlsxExporter } from './xlsx';
+
+const readWorkbook = () => {
+  const data = xlsxExporter.build(makeExportInput());
+  return {
+    workbook: XLSX.read(data, { type: 'array', cellDates: true }),
+    zip: XLSX.CFB.read(new Uint8Array(data as ArrayBuffer), { type: 'array' })
+  };
+};
+
+// 评论表的首列是楼层结构，字段列从第二列开始
+const column = (key: string) => XLSX.utils.encode_col(COMMENT_FIELDS.findIndex(field => field.key === key) + 1);
+
+describe('xlsxExporter', () => {
+  it('writes the comment, author and summary sheets', () => {
+    const { workbook } = readWorkbook();
+    expect(workbook.SheetNames).toEqual(['Reddit评论', '作者统计', '帖子概要', '统计分析']);
+
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['Reddit评论'], { header: 1 });
+    expect(rows[0]).toEqual(['楼层结构', ...COMMENT_FIELDS.map(field => field.label)]);
+    expect(rows).toHaveLength(5);
+  });
+
+  it('keeps thread structure and the original body in the comment sheet', () => {
+    const sheet = readWorkbook().workbook.Sheets['Reddit评论'];
+
+    expect(['A2', 'A3', 'A4'].map(cell => sheet[cell].v)).toEqual(['op_user', '↳ bob', '\u3000↳ carol']);
+
+    expect(sheet[`${column('thread_path')}4`].v).toBe('c1/c2/c3');
+    expect(sheet[`${column('parent_id')}4`].v).toBe('t1_c2');
+    expect(sheet[`${column('body')}2`].v).toBe('first, "quoted"\nsecond line');
+    expect(sheet[`${column('depth')}4`].v).toBe(2);
+    expect(sheet[`${column('body')}4`].v).toBe('deep reply');
+  });
+
+  it('writes real dates, permalinks and an autofilter', () => {
+    const sheet = readWorkbook().workbook.Sheets['Reddit评论'];
+
+    const created = sheet[`${column('created_at')}2`];
+    expect(created.t).toBe('d');
+    expect(created.v).toBeInstanceOf(Date);
+    expect(sheet[`${column('permalink')}2`].l.Target).toMatch(/^https:\/\/www\.reddit\.com\/r\/test\/comments\/abc123\//);
+    expect(sheet['!autofilter']).toEqual({ ref: sheet['!ref'] });
+  });
+
+  it('freezes the header row of the table sheets', () => {
+    const { zip } = readWorkbook();
+    // 读回工作表 XML 中的冻结窗格
+    const readPane = (n: number) => {
+      const xml = new TextDecoder().decode(XLSX.CFB.find(zip, `/xl/worksheets/sheet${n}.xml`).content);
+      const pane = xml.match(/<sheetView [^>]*><pane ([^>]*)\/><\/sheetView>/)?.[1];
+      return pane ? Object.fromEntries([...pane.matchAll(/(\w+)="([^"]*)"/g)].map(([, name, value]) => [name, value])) : null;
+    };
+
+    expect(readPane(1)).toEqual({ ySplit: '1', topLeftCell: 'A2', activePane: 'bottomLeft', state: 'frozen' });
+    expect(readPane(2)).toMatchObject({ state: 'frozen' });
+    expect(readPane(3)).toBeNull();
+  });
+
+  it('summarizes authors and the thread', () => {
+    const { workbook } = readWorkbook();
+
+    const authors = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets['作者统计']);
+    expect(authors[0]).toMatchObject({ '作者': 'op_user', '评论数': 1, '总点赞': 10, '楼主': '是' });
+    expect(authors.map(row => row['作者'])).toContain('[deleted]');
+
+    const summary = Object.fromEntries(XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['帖子概要'], { header: 1 }));
+    expect(summary).toMatchObject({ '标题': 'Hello world', '导出评论数': 4, '最大层级': 2, '楼主评论数': 1 });
+
+    const analytics = Object.fromEntries(XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['统计分析'], { header: 1 }).filter(row => row.length));
+    expect(analytics).toMatchObject({ '楼主评论占比': '25%', '第 2 层评论数': 1 });
+  });
+});
@@ -0,0 +1,271 @@
+import * as XLSX from 'xlsx';
+import { analyzeThread } from '@/lib/analysis/analytics';
+import { SENTIMENT_LABELS } from '@/lib/analysis/sentiment';
+import { countComments } from '@/lib/reddit/parse';
+import { COMMENT_FIELDS, CommentRow, describeUpstreamParams, flattenComments, POST_FIELDS, STATUS_LABELS } from './fields';
+import { summarizeAuthors, summarizeThread } from './stats';
+import { BatchExportInput, BatchThread, ExportInput, Exporter } from './types';
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+const COLUMN_WIDTHS: Record<keyof CommentRow, number> = {
+  depth: 8,
+  id: 15,
+  parent_id: 15,
+  thread_path: 30,
+  author: 20,
+  is_submitter: 6,
+  distinguished: 12,
+  stickied: 6,
+  status: 8,
+  body: 60,
+  score: 10,
+  controversiality: 6,
+  sentiment: 6,
+  sentiment_score: 8,
+  toxicity: 8,
+  created_at: 20,
+  created_utc: 15,
+  edited_at: 20,
+  permalink: 60
+};
+
+type CellValue = string | number | Date;
+
+const toDate = (timestamp: number) => new Date(timestamp * 1000);
+
+// 表格面向阅读：布尔值和状态转换为中文，时间为 Excel 日期；内容保持原样
+const toSheetRow = (row: CommentRow): Record<keyof CommentRow, CellValue> => ({
+  ...row,
+  is_submitter: row.is_submitter ? '是' : '',
+  stickied: row.stickied ? '是' : '',
+  status: STATUS_LABELS[row.status],
+  sentiment: SENTIMENT_LABELS[row.sentiment],
+  created_at: toDate(row.created_utc),
+  edited_at: row.edited_at ? new Date(row.edited_at) : ''
+});
+
+// 表格首列按层级缩进显示作者，用来阅读楼层结构，不影响其他列的原始值
+const THREAD_COLUMN = { label: '楼层结构', width: 30 };
+
+const toThreadCell = (row: CommentRow) =>
+  row.depth > 0 ? `${'\u3000'.repeat(row.depth - 1)}↳ ${row.author}` : row.author;
+
+const createSheet = (rows: CellValue[][]) => XLSX.utils.aoa_to_sheet(rows, { dateNF: DATE_FORMAT });
+
+// 把某一列的网址转换为可点击的链接
+const linkColumn = (ws: XLSX.WorkSheet, column: number, firstRow = 1) => {
+  const range = XLSX.utils.decode_range(ws['!ref'] ?? 'A1');
+  for (let r = firstRow; r <= range.e.r; r++) {
+    const cell = ws[XLSX.utils.encode_cell({ r, c: column })];
+    if (cell && typeof cell.v === 'string' && /^https?:\/\//.test(cell.v)) {
+      cell.l = { Target: cell.v, Tooltip: '在Reddit中打开' };
+    }
+  }
+};
+
+const buildCommentSheet = (rows: CommentRow[]) => {
+  const ws = createSheet([
+    [THREAD_COLUMN.label, ...COMMENT_FIELDS.map(field => field.label)],
+    ...rows.map(row => {
+      const sheetRow = toSheetRow(row);
+      return [toThreadCell(row), ...COMMENT_FIELDS.map(field => sheetRow[field.key])];
+    })
+  ]);
+  ws['!cols'] = [{ wch: THREAD_COLUMN.width }, ...COMMENT_FIELDS.map(field => ({ wch: COLUMN_WIDTHS[field.key] }))];
+  ws['!autofilter'] = { ref: ws['!ref'] ?? 'A1' };
+  linkColumn(ws, COMMENT_FIELDS.findIndex(field => field.key === 'permalink') + 1);
+  return ws;
+};
+
+const buildAuthorSheet = (input: ExportInput) => {
+  const ws = createSheet([
+    ['作者', '评论数', '顶层评论', '总点赞', '平均点赞', '最高点赞', '楼主', '首次评论', '最后评论'],
+    ...summarizeAuthors(input.comments).map(stats => [
+      stats.author,
+      stats.comments,
+      stats.topLevel,
+      stats.totalScore,
+      stats.averageScore,
+      stats.maxScore,
+      stats.isSubmitter ? '是' : '',
+      toDate(stats.firstCommentUtc),
+      toDate(stats.lastCommentUtc)
+    ])
+  ]);
+  ws['!cols'] = [{ wch: 20 }, { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 6 }, { wch: 20 }, { wch: 20 }];
+  ws['!autofilter'] = { ref: ws['!ref'] ?? 'A1' };
+  return ws;
+};
+
+// 帖子信息加上本次导出的评论概况，使导出文件可以独立说明来源
+const buildSummarySheet = ({ post, comments, exportedAt, upstream }: ExportInput) => {
+  const summary = summarizeThread(comments);
+  const rows: CellValue[][] = [['字段', '值']];
+
+  if (post) {
+    rows.push(...POST_FIELDS.map(field => [field.label, post[field.key] ?? '']));
+    rows.push(['发布时间', toDate(post.created_utc)]);
+  }
+
+  rows.push(
+    ['导出评论数', summary.comments],
+    ['顶层评论数', summary.topLevel],
+    ['参与作者数', summary.authors],
+    ['最大层级', summary.maxDepth],
+    ['楼主评论数', summary.submitterComments],
+    ['已删除/移除', summary.inactive],
+    ['评论总点赞', summary.totalScore],
+    ['最早评论', summary.firstCommentUtc === null ? '' : toDate(summary.firstCommentUtc)],
+    ['最新评论', summary.lastCommentUtc === null ? '' : toDate(summary.lastCommentUtc)],
+    ['导出时间', exportedAt],
+    ['Reddit 请求参数', describeUpstreamParams(upstream)]
+  );
+
+  const ws = createSheet(rows);
+  ws['!cols'] = [{ wch: 12 }, { wch: 80 }];
+  linkColumn(ws, 1);
+  return ws;
+};
+
+// 统计分析按区块纵向排列，每个区块之间空一行
+const buildAnalyticsSheet = ({ post, comments }: ExportInput) => {
+  const analytics = analyzeThread(comments, post);
+  const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+  const { sentiment } = analytics;
+  const authorRows = (title: string, authors: typeof analytics.topAuthorsByCount) => [
+    [title, '评论数', '总点赞', '平均点赞'],
+    ...authors.map(stats => [stats.author, stats.comments, stats.totalScore, stats.averageScore]),
+    []
+  ];
+
+  const ws = createSheet([
+    ['层级统计', '值'],
+    ['最大层级', analytics.depth.maxDepth],
+    ['平均层级', analytics.depth.averageDepth],
+    ['平均回复数 (有回复的评论)', analytics.depth.averageBranching],
+    ['最多直接回复', analytics.depth.maxReplies],
+    ['无回复评论占比', percent(analytics.depth.leafRatio)],
+    ...analytics.depth.perDepth.map((count, depth) => [`第 ${depth} 层评论数`, count]),
+    [],
+    ['楼主参与', '值'],
+    ['楼主', analytics.op.author ?? ''],
+    ['楼主评论数', analytics.op.comments],
+    ['楼主评论占比', percent(analytics.op.commentShare)],
+    ['楼主参与的顶层讨论', analytics.op.threads],
+    ['楼主参与的顶层讨论占比', percent(analytics.op.threadShare)],
+    [],
+    ['点赞分布', '评论数'],
+    ...analytics.scores.buckets.map(bucket => [bucket.label, bucket.count]),
+    ['平均值', analytics.scores.mean],
+    ['中位数', analytics.scores.median],
+    [],
+    ['时间段开始', '评论数'],
+    ...analytics.volume.buckets.map(bucket => [toDate(bucket.start), bucket.count]),
+    [],
+    ['情绪 (不含已删除)', '值'],
+    ...(['positive', 'neutral', 'negative'] as const).map(label => [SENTIMENT_LABELS[label], sentiment.overall[label]]),
+    ['有害', sentiment.overall.toxic],
+    ['平均情绪分', sentiment.overall.mean],
+    [],
+    ['时间段开始', '评论数', '平均情绪分', '正面', '负面', '有害'],
+    ...sentiment.timeline.map(bucket => [toDate(bucket.start), bucket.comments, bucket.mean, bucket.positive, bucket.negative, bucket.toxic]),
+    [],
+    ...authorRows('作者 (按评论数)', analytics.topAuthorsByCount),
+    ...authorRows('作者 (按总点赞)', analytics.topAuthorsByScore),
+    ['热门讨论串', '作者', '讨论串评论数', '直接回复', '点赞', '链接'],
+    ...analytics.topThreads.map(thread => [thread.excerpt, thread.author, thread.subtreeSize, thread.replies, thread.score, thread.permalink]),
+    [],
+    ['讨论串情绪', '作者', '评论数', '平均情绪分', '正面 / 负面 / 有害', '链接'],
+    ...sentiment.branches.map(branch => [
+      branch.excerpt,
+      branch.author,
+      branch.comments,
+      branch.mean,
+      `${branch.positive} / ${branch.negative} / ${branch.toxic}`,
+      branch.permalink
+    ])
+  ]);
+  ws['!cols'] = [{ wch: 40 }, { wch: 20 }, { wch: 12 }, { wch: 10 }, { wch: 8 }, { wch: 60 }];
+  linkColumn(ws, 5);
+  return ws;
+};
+
+// SheetJS 社区版 (0.18) 写入时忽略 !freeze/!views，生成后在工作表 XML 中补上首行冻结
+const DEFAULT_SHEET_VIEW = '<sheetView workbookViewId="0"/>';
+const FROZEN_HEADER_VIEW = '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>';
+
+const freezeHeaderRows = (data: ArrayBuffer, sheetNumbers: number[]): ArrayBuffer => {
+  const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+  for (const sheetNumber of sheetNumbers) {
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${sheetNumber}.xml`);
+    const xml = entry ? new TextDecoder().decode(entry.content) : '';
+    // SheetJS 升级后输出格式变化时直接报错，避免悄悄丢失冻结窗格
+    if (!entry || !xml.includes(DEFAULT_SHEET_VIEW)) {
+      throw new Error(`无法冻结工作表 ${sheetNumber} 的表头：未找到默认的 sheetView`);
+    }
+    entry.content = new TextEncoder().encode(xml.replace(DEFAULT_SHEET_VIEW, FROZEN_HEADER_VIEW));
+    entry.size = entry.content.length;
+  }
+  return Uint8Array.from(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true })).buffer;
+};
+
+export const xlsxExporter: Exporter = {
+  format: 'xlsx',
+  label: 'Excel',
+  extension: 'xlsx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  build: input => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, buildCommentSheet(flattenComments(input.comments)), 'Reddit评论');
+    XLSX.utils.book_append_sheet(wb, buildAuthorSheet(input), '作者统计');
+    XLSX.utils.book_append_sheet(wb, buildSummarySheet(input), '帖子概要');
+    XLSX.utils.book_append_sheet(wb, buildAnalyticsSheet(input), '统计分析');
+
+    // 评论和作者统计两张表冻结表头
+    return freezeHeaderRows(XLSX.write(wb, { bookType: 'xlsx', type: 'array' }), [1, 2]);
+  }
+};
+
+// 工作表名最长 31 个字符，且不能包含 []:*?/\ ；重名时加序号
+const getSheetName = (thread: BatchThread, index: number, used: Set<string>) => {
+  const base = `${thread.post?.id ?? index + 1} ${thread.post?.title ?? ''}`.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31);
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base.slice(0, 31 - String(n).length - 1)}~${n}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+// 批量导出：第一张表列出所有帖子，之后每个帖子一张评论表
+export const buildBatchWorkbook = ({ threads, exportedAt }: BatchExportInput): ArrayBuffer => {
+  const wb = XLSX.utils.book_new();
+  const overview = createSheet([
+    ['帖子ID', '标题', '版块', '导出评论数', '帖子点赞', '发布时间', 'Reddit 请求参数', '永久链接'],
+    ...threads.map(({ post, comments, upstream }) => [
+      post?.id ?? '',
+      post?.title ?? '',
+      post?.subreddit ?? '',
+      countComments(comments),
+      post?.score ?? '',
+      post ? toDate(post.created_utc) : '',
+      describeUpstreamParams(upstream),
+      post?.permalink ?? ''
+    ]),
+    [],
+    ['导出时间', exportedAt]
+  ]);
+  overview['!cols'] = [{ wch: 12 }, { wch: 50 }, { wch: 16 }, { wch: 10 }, { wch: 10 }, { wch: 20 }, { wch: 30 }, { wch: 60 }];
+  linkColumn(overview, 7);
+  XLSX.utils.book_append_sheet(wb, overview, '帖子列表');
+
+  const used = new Set(['帖子列表']);
+  threads.forEach((thread, index) => {
+    XLSX.utils.book_append_sheet(wb, buildCommentSheet(flattenComments(thread.comments)), getSheetName(thread, index, used));
+  });
+
+  // 所有工作表都冻结表头
+  const sheetNumbers = Array.from({ length: threads.length + 1 }, (_, index) => index + 1);
+  return freezeHeaderRows(XLSX.write(wb, { bookType: 'xlsx', type: 'array' }), sheetNumbers);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { makeComment, makeSubmission } from '@/lib/reddit/__fixtures__/factories';
+import { parseComments, parsePost } from '@/lib/reddit/parse';
+import { DEFAULT_UPSTREAM_PARAMS } from '@/lib/reddit/url';
+import { createMemorySnapshotStore, createSnapshot, Snapshot } from './snapshots';
+
+const THREAD_URL = 'https://www.reddit.com/r/test/comments/abc123/hello_world/';
+
+const result = {
+  post: parsePost(makeSubmission()),
+  comments: parseComments([makeComment({ id: 'c1' }, [makeComment({ id: 'c2', parent_id: 't1_c1' })])], 'placeholder'),
+  more: { resolved: 0, unresolved: 0, requests: 0 },
+  upstream: DEFAULT_UPSTREAM_PARAMS
+};
+
+const snapshotAt = (savedAt: number) => createSnapshot(THREAD_URL, result, 'flag', savedAt) as Snapshot;
+
+describe('createSnapshot', () => {
+  it('records the post, options and comment count', () => {
+    expect(snapshotAt(1000)).toMatchObject({
+      id: 'abc123-1000',
+      postId: 'abc123',
+      title: 'Hello world',
+      url: THREAD_URL,
+      commentCount: 2,
+      options: { deletedMode: 'flag', upstream: DEFAULT_UPSTREAM_PARAMS }
+    });
+  });
+
+  it('skips results without a post', () => {
+    expect(createSnapshot(THREAD_URL, { ...result, post: null }, 'flag')).toBeNull();
+  });
+});
+
+describe('createMemorySnapshotStore', () => {
+  it('lists summaries newest first and drops the oldest beyond the limit', async () => {
+    const store = createMemorySnapshotStore(2);
+    await store.save(snapshotAt(1000));
+    await store.save(snapshotAt(3000));
+    await store.save(snapshotAt(2000));
+
+    const list = await store.list();
+    expect(list.map(summary => summary.savedAt)).toEqual([3000, 2000]);
+    expect(list[0]).not.toHaveProperty('comments');
+    expect(await store.get('abc123-1000')).toBeNull();
+    expect((await store.get('abc123-2000'))?.comments).toHaveLength(1);
+
+    await store.remove('abc123-3000');
+    expect((await store.list()).map(summary => summary.id)).toEqual(['abc123-2000']);
+  });
+});
@@ -0,0 +1,159 @@
+import type { ExtractResult } from '@/lib/reddit/extract';
+import { countComments } from '@/lib/reddit/parse';
+import { DeletedMode, MoreStats, ParsedComment, ParsedPost } from '@/lib/reddit/types';
+import { UpstreamParams } from '@/lib/reddit/url';
+
+// 提取历史：每次提取保存为一份快照，离线时也能重新打开，同一帖子的两份快照可以对比
+
+export interface SnapshotOptions {
+  deletedMode: DeletedMode;
+  upstream: UpstreamParams;
+}
+
+// 历史列表只读取概要，评论树在打开时再读取
+export interface SnapshotSummary {
+  id: string;
+  postId: string;
+  title: string;
+  subreddit: string;
+  url: string;
+  // 毫秒时间戳
+  savedAt: number;
+  commentCount: number;
+  options: SnapshotOptions;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  post: ParsedPost;
+  comments: ParsedComment[];
+  more: MoreStats;
+}
+
+export interface SnapshotStore {
+  // 按保存时间倒序
+  list: () => Promise<SnapshotSummary[]>;
+  get: (id: string) => Promise<Snapshot | null>;
+  save: (snapshot: Snapshot) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// 超出时删除最早的快照
+export const MAX_SNAPSHOTS = 200;
+
+const DB_NAME = 'reddit-comment-history';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'summaries';
+const SNAPSHOT_STORE = 'snapshots';
+
+// 没有帖子信息的结果 (例如合并查看的用户评论) 不保存
+export const createSnapshot = (url: string, result: ExtractResult, deletedMode: DeletedMode, savedAt = Date.now()): Snapshot | null => {
+  if (!result.post) {
+    return null;
+  }
+  return {
+    id: `${result.post.id}-${savedAt}`,
+    postId: result.post.id,
+    title: result.post.title,
+    subreddit: result.post.subreddit,
+    url,
+    savedAt,
+    commentCount: countComments(result.comments),
+    options: { deletedMode, upstream: result.upstream },
+    post: result.post,
+    comments: result.comments,
+    more: result.more
+  };
+};
+
+export const toSummary = ({ id, postId, title, subreddit, url, savedAt, commentCount, options }: Snapshot): SnapshotSummary =>
+  ({ id, postId, title, subreddit, url, savedAt, commentCount, options });
+
+const newestFirst = (a: SnapshotSummary, b: SnapshotSummary) => b.savedAt - a.savedAt;
+
+// 浏览器不支持 IndexedDB (例如部分隐私模式) 时使用，刷新页面后丢失
+export const createMemorySnapshotStore = (maxSnapshots = MAX_SNAPSHOTS): SnapshotStore => {
+  const snapshots = new Map<string, Snapshot>();
+
+  return {
+    list: async () => [...snapshots.values()].map(toSummary).sort(newestFirst),
+    get: async id => snapshots.get(id) ?? null,
+    save: async snapshot => {
+      snapshots.set(snapshot.id, snapshot);
+      const excess = [...snapshots.values()].sort(newestFirst).slice(maxSnapshots);
+      excess.forEach(({ id }) => snapshots.delete(id));
+    },
+    remove: async id => {
+      snapshots.delete(id);
+    }
+  };
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const complete = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// 概要和评论树分开存放，列出历史时不必读取整棵评论树
+export const createIndexedDbSnapshotStore = (factory: IDBFactory, maxSnapshots = MAX_SNAPSHOTS): SnapshotStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+    return database;
+  };
+
+  const list = async () => {
+    const transaction = (await open()).transaction(SUMMARY_STORE, 'readonly');
+    const summaries = await promisify<SnapshotSummary[]>(transaction.objectStore(SUMMARY_STORE).getAll());
+    return summaries.sort(newestFirst);
+  };
+
+  const remove = async (ids: string[]) => {
+    const transaction = (await open()).transaction([SUMMARY_STORE, SNAPSHOT_STORE], 'readwrite');
+    for (const id of ids) {
+      transaction.objectStore(SUMMARY_STORE).delete(id);
+      transaction.objectStore(SNAPSHOT_STORE).delete(id);
+    }
+    await complete(transaction);
+  };
+
+  return {
+    list,
+    get: async id => {
+      const transaction = (await open()).transaction(SNAPSHOT_STORE, 'readonly');
+      return (await promisify<Snapshot | undefined>(transaction.objectStore(SNAPSHOT_STORE).get(id))) ?? null;
+    },
+    save: async snapshot => {
+      const transaction = (await open()).transaction([SUMMARY_STORE, SNAPSHOT_STORE], 'readwrite');
+      transaction.objectStore(SUMMARY_STORE).put(toSummary(snapshot));
+      transaction.objectStore(SNAPSHOT_STORE).put(snapshot);
+      await complete(transaction);
+
+      const excess = (await list()).slice(maxSnapshots);
+      if (excess.length > 0) {
+        await remove(excess.map(({ id }) => id));
+      }
+    },
+    remove: id => remove([id])
+  };
+};
+
+export const createSnapshotStore = (): SnapshotStore =>
+  typeof indexedDB === 'undefined' ? createMemorySnapshotStore() : createIndexedDbSnapshotStore(indexedDB);
@@ -0,0 +1,90 @@
+import { RedditComment, RedditListing, RedditMore, RedditSubmission, RedditThing, RedditThreadResponse, RedditUserComment } from '../types';
+
+// 构造测试用的 Reddit 原始数据
+
+export const makeComment = (
+  overrides: Partial<RedditComment['data']> & { id: string },
+  replies: RedditThing[] = []
+): RedditComment => ({
+  kind: 't1',
+  data: {
+    author: 'user',
+    body: `body of ${overrides.id}`,
+    score: 1,
+    created_utc: 1700000000,
+    parent_id: 't3_abc123',
+    permalink: `/r/test/comments/abc123/hello_world/${overrides.id}/`,
+    edited: false,
+    distinguished: null,
+    is_submitter: false,
+    stickied: false,
+    controversiality: 0,
+    ...overrides,
+    replies: replies.length > 0 ? { data: { children: replies } } : ''
+  }
+});
+
+export const makeMore = (overrides: Partial<RedditMore['data']> & { id: string }): RedditMore => ({
+  kind: 'more',
+  data: {
+    parent_id: 't3_abc123',
+    count: overrides.children?.length ?? 0,
+    children: [],
+    ...overrides
+  }
+});
+
+export const makeSubmission = (overrides: Partial<RedditSubmission['data']> = {}): RedditSubmission => ({
+  kind: 't3',
+  data: {
+    id: 'abc123',
+    name: 't3_abc123',
+    title: 'Hello world',
+    subreddit: 'test',
+    author: 'op_user',
+    selftext: 'Post body',
+    url: 'https://www.reddit.com/r/test/comments/abc123/hello_world/',
+    permalink: '/r/test/comments/abc123/hello_world/',
+    score: 42,
+    upvote_ratio: 0.9,
+    num_comments: 5,
+    link_flair_text: 'Discussion',
+    created_utc: 1700000000,
+    ...overrides
+  }
+});
+
+const listing = <T>(children: T[]): RedditListing<T> => ({ kind: 'Listing', data: { children } });
+
+export const makeThread = (comments: RedditThing[], submission = makeSubmission()): RedditThreadResponse =>
+  [listing([submission]), listing(comments)];
+
+// /user/<用户名>/comments 列表中的评论，附带所属帖子的信息
+export const makeUserComment = (
+  overrides: Partial<RedditUserComment['data']> & { id: string }
+): RedditUserComment => {
+  const linkId = overrides.link_id ?? 't3_abc123';
+  return {
+    kind: 't1',
+    data: {
+      ...makeComment({ parent_id: linkId, ...overrides }).data,
+      link_id: linkId,
+      link_title: `Post ${linkId}`,
+      link_author: 'op_user',
+      link_permalink: `https://www.reddit.com/r/test/comments/${linkId.replace(/^t3_/, '')}/post/`,
+      subreddit: 'test',
+      ...overrides
+    }
+  };
+};
+
+// 列表接口的一页，after 为下一页的游标
+export const makeListingPage = <T>(children: T[], after: string | null = null): RedditListing<T> =>
+  ({ kind: 'Listing', data: { children, after } });
+
+export const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    ...init,
+    headers: { 'content-type': 'application/json', ...init.headers }
+  });
@@ -0,0 +1,33 @@
+import type { ExtractResult } from './extract';
+
+// 浏览器端以普通 JSON 方式调用 /api/reddit，批量提取和监视模式共用
+
+// 服务端没有给出 Retry-After 时等待一个完整的限流窗口 (秒)
+export const DEFAULT_RETRY_AFTER = 60;
+
+// 接口返回 429 时抛出，包括本服务的频率限制和 Reddit 的限流，retryAfter 为秒
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`请求过于频繁，${retryAfter} 秒后自动重试`);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const fetchExtraction = async (
+  url: string,
+  requestParams: Record<string, string>,
+  signal?: AbortSignal
+): Promise<ExtractResult> => {
+  const response = await fetch(`/api/reddit?${new URLSearchParams({ ...requestParams, url })}`, { signal });
+  if (response.status === 429) {
+    throw new RateLimitError(parseInt(response.headers.get('Retry-After') ?? '', 10) || DEFAULT_RETRY_AFTER);
+  }
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || '获取评论失败');
+  }
+  return data;
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RateLimitError } from './api';
+import { BatchItem, createBatchItems, MAX_BATCH_URLS, parseUrlList, runBatch } from './batch';
+import { ExtractResult } from './extract';
+
+const makeResult = (id: string) => ({ post: { id } }) as ExtractResult;
+
+// 按 runBatch 的回调维护条目状态
+const track = (urls: string[]) => {
+  const items = createBatchItems(urls);
+  const onUpdate = (index: number, update: Partial<BatchItem>) => Object.assign(items[index], update);
+  return { items, onUpdate };
+};
+
+describe('parseUrlList', () => {
+  it('skips blank lines, comments and duplicates and reports invalid lines', () => {
+    const { urls, errors } = parseUrlList([
+      'https://redd.it/abc123',
+      '',
+      '# 注释',
+      '  https://www.reddit.com/r/test/comments/def456/x/  ',
+      'https://example.com/r/test/comments/abc',
+      'https://redd.it/abc123'
+    ].join('\r\n'));
+
+    expect(urls).toEqual(['https://redd.it/abc123', 'https://www.reddit.com/r/test/comments/def456/x/']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^第 5 行: /);
+  });
+
+  it('caps the number of links', () => {
+    const text = Array.from({ length: MAX_BATCH_URLS + 2 }, (_, index) => `https://redd.it/a${index}`).join('\n');
+    const { urls, errors } = parseUrlList(text);
+    expect(urls).toHaveLength(MAX_BATCH_URLS);
+    expect(errors).toHaveLength(2);
+  });
+});
+
+describe('runBatch', () => {
+  it('never runs more extractions at once than the concurrency', async () => {
+    const urls = ['a', 'b', 'c', 'd', 'e'];
+    const { items, onUpdate } = track(urls);
+    let active = 0;
+    let peak = 0;
+    const extract = async (url: string) => {
+      peak = Math.max(peak, ++active);
+      await Promise.resolve();
+      active--;
+      return makeResult(url);
+    };
+
+    await runBatch(urls, extract, { concurrency: 2, onUpdate });
+
+    expect(peak).toBe(2);
+    expect(items.map(item => item.status)).toEqual(['done', 'done', 'done', 'done', 'done']);
+    expect(items[3].result?.post?.id).toBe('d');
+  });
+
+  it('records failures without stopping the other links', async () => {
+    const urls = ['ok', 'bad', 'ok2'];
+    const { items, onUpdate } = track(urls);
+    const extract = async (url: string) => {
+      if (url === 'bad') {
+        throw new Error('帖子不存在');
+      }
+      return makeResult(url);
+    };
+
+    await runBatch(urls, extract, { concurrency: 1, onUpdate });
+
+    expect(items.map(item => [item.status, item.error])).toEqual([['done', null], ['failed', '帖子不存在'], ['done', null]]);
+  });
+
+  it('pauses every worker after a rate limit and retries the link', async () => {
+    const urls = ['a', 'b'];
+    const { items, onUpdate } = track(urls);
+    let now = 0;
+    const sleep = vi.fn(async (ms: number) => {
+      now += ms;
+    });
+    let limited = false;
+    const extract = vi.fn(async (url: string) => {
+      if (url === 'a' && !limited) {
+        limited = true;
+        throw new RateLimitError(30);
+      }
+      return makeResult(url);
+    });
+
+    await runBatch(urls, extract, { concurrency: 1, onUpdate, sleep, now: () => now });
+
+    expect(sleep).toHaveBeenCalledWith(30000, undefined);
+    expect(extract.mock.calls.map(call => call[0])).toEqual(['a', 'a', 'b']);
+    expect(items.map(item => item.status)).toEqual(['done', 'done']);
+  });
+
+  it('gives up on a link that keeps being rate limited', async () => {
+    const { items, onUpdate } = track(['a']);
+    const extract = vi.fn(async () => {
+      throw new RateLimitError(1);
+    });
+
+    let now = 0;
+    const sleep = async (ms: number) => {
+      now += ms;
+    };
+
+    await runBatch(['a'], extract, { concurrency: 1, onUpdate, sleep, now: () => now });
+
+    expect(extract).toHaveBeenCalledTimes(4);
+    expect(items[0].status).toBe('failed');
+  });
+
+  it('leaves the remaining links pending when cancelled', async () => {
+    const urls = ['a', 'b', 'c'];
+    const { items, onUpdate } = track(urls);
+    const controller = new AbortController();
+    const extract = async (url: string) => {
+      controller.abort();
+      throw new Error(`aborted ${url}`);
+    };
+
+    await runBatch(urls, extract, { concurrency: 1, signal: controller.signal, onUpdate });
+
+    expect(items.map(item => item.status)).toEqual(['pending', 'pending', 'pending']);
+  });
+});
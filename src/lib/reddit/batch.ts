@@ -0,0 +1,105 @@
+import { RateLimitError } from './api';
+import type { ExtractResult } from './extract';
+import { sleep } from './sleep';
+import { validateThreadUrl } from './url';
+
+// 批量提取：按行读取链接，以有限的并发依次调用接口，被限流时整体暂停后重试
+
+export const MAX_BATCH_URLS = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+// 同一链接连续被限流的次数上限，超过后标记为失败
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+export type BatchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  url: string;
+  status: BatchStatus;
+  error: string | null;
+  result: ExtractResult | null;
+}
+
+export interface UrlListResult {
+  urls: string[];
+  // 无效的行，附带行号
+  errors: string[];
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  onUpdate: (index: number, update: Partial<BatchItem>) => void;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  now?: () => number;
+}
+
+// 每行一个链接，忽略空行和 # 开头的注释行，重复的链接只保留一次
+export const parseUrlList = (text: string): UrlListResult => {
+  const urls: string[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const url = line.trim();
+    if (!url || url.startsWith('#') || urls.includes(url)) {
+      return;
+    }
+    const error = validateThreadUrl(url);
+    if (error) {
+      errors.push(`第 ${index + 1} 行: ${error}`);
+    } else if (urls.length >= MAX_BATCH_URLS) {
+      errors.push(`第 ${index + 1} 行: 一次最多提取 ${MAX_BATCH_URLS} 个链接`);
+    } else {
+      urls.push(url);
+    }
+  });
+  return { urls, errors };
+};
+
+export const createBatchItems = (urls: string[]): BatchItem[] =>
+  urls.map(url => ({ url, status: 'pending', error: null, result: null }));
+
+// 多个 worker 共用一个队列；任一请求被限流时所有 worker 等到 retryAfter 之后再继续
+// 取消时正在进行的链接恢复为 pending，便于之后重试
+export const runBatch = async (
+  urls: string[],
+  extract: (url: string, signal?: AbortSignal) => Promise<ExtractResult>,
+  { concurrency, signal, onUpdate, sleep: wait = sleep, now = Date.now }: BatchOptions
+) => {
+  const queue = urls.map((_, index) => index);
+  const rateLimited = new Map<number, number>();
+  let resumeAt = 0;
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const delay = resumeAt - now();
+      if (delay > 0) {
+        await wait(delay, signal).catch(() => {});
+        continue;
+      }
+
+      const index = queue.shift()!;
+      onUpdate(index, { status: 'running', error: null });
+      try {
+        const result = await extract(urls[index], signal);
+        onUpdate(index, { status: 'done', result, error: null });
+      } catch (error) {
+        if (signal?.aborted) {
+          onUpdate(index, { status: 'pending', error: null });
+          return;
+        }
+        const retries = (rateLimited.get(index) ?? 0) + 1;
+        if (error instanceof RateLimitError && retries <= MAX_RATE_LIMIT_RETRIES) {
+          rateLimited.set(index, retries);
+          resumeAt = Math.max(resumeAt, now() + error.retryAfter * 1000);
+          queue.unshift(index);
+          onUpdate(index, { status: 'pending', error: error.message });
+        } else {
+          onUpdate(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, MAX_BATCH_CONCURRENCY, urls.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+};
@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createDiskCache, createMemoryCache, getCacheFromEnv, getCacheKey } from './cache';
+import { ExtractResult } from './extract';
+import { DEFAULT_UPSTREAM_PARAMS } from './url';
+
+const result: ExtractResult = { post: null, comments: [], more: { resolved: 0, unresolved: 0, requests: 0 }, upstream: DEFAULT_UPSTREAM_PARAMS };
+const options = { deletedMode: 'placeholder' as const, maxMoreRequests: 10, upstream: DEFAULT_UPSTREAM_PARAMS };
+
+describe('getCacheKey', () => {
+  const ref = { subreddit: 'test', postId: 'abc123' };
+
+  it('uses the post ID regardless of subreddit', () => {
+    expect(getCacheKey(ref, options)).toBe('abc123:placeholder:10');
+    expect(getCacheKey({ subreddit: null, postId: 'abc123' }, options)).toBe('abc123:placeholder:10');
+  });
+
+  it('separates focused comment threads from the whole post', () => {
+    const focused = getCacheKey({ ...ref, focusCommentId: 'c1', context: 3 }, options);
+    expect(focused).not.toBe(getCacheKey(ref, options));
+    expect(focused).not.toBe(getCacheKey({ ...ref, focusCommentId: 'c1' }, options));
+  });
+
+  it('separates options that change the result', () => {
+    expect(getCacheKey(ref, { ...options, deletedMode: 'drop' })).not.toBe(getCacheKey(ref, options));
+    expect(getCacheKey(ref, { ...options, maxMoreRequests: 0 })).not.toBe(getCacheKey(ref, options));
+    expect(getCacheKey(ref, { ...options, upstream: { sort: 'top', limit: 100, depth: null } })).toBe('abc123:placeholder:10:sort=top&limit=100');
+  });
+});
+
+describe('createMemoryCache', () => {
+  it('expires entries after the TTL', async () => {
+    let now = 1000;
+    const cache = createMemoryCache(60000, () => now);
+
+    await cache.set('abc123', result);
+    now += 30000;
+    expect(await cache.get('abc123')).toEqual({ value: result, storedAt: 1000 });
+
+    now += 31000;
+    expect(await cache.get('abc123')).toBeNull();
+  });
+});
+
+describe('createDiskCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'reddit-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries across instances until they expire', async () => {
+    let now = 1000;
+    await createDiskCache(dir, 60000, () => now).set('abc123:flag:10', result);
+
+    const cache = createDiskCache(dir, 60000, () => now);
+    expect(await cache.get('abc123:flag:10')).toEqual({ value: result, storedAt: 1000 });
+    expect(await cache.get('abc123:drop:10')).toBeNull();
+
+    now += 61000;
+    expect(await cache.get('abc123:flag:10')).toBeNull();
+  });
+});
+
+describe('getCacheFromEnv', () => {
+  it('can be turned off', () => {
+    expect(getCacheFromEnv({ NODE_ENV: 'test', REDDIT_CACHE: 'off' })).toBeNull();
+    expect(getCacheFromEnv({ NODE_ENV: 'test', REDDIT_CACHE_TTL: '0' })).toBeNull();
+    expect(getCacheFromEnv({ NODE_ENV: 'test' })).not.toBeNull();
+  });
+});
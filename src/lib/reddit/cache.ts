@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ExtractOptions, ExtractResult } from './extract';
+import { RedditThreadRef, toUpstreamQuery } from './url';
+
+// 提取结果缓存，按帖子ID和影响结果的选项区分
+
+export interface CacheEntry {
+  value: ExtractResult;
+  storedAt: number;
+}
+
+export interface ExtractionCache {
+  get: (key: string) => Promise<CacheEntry | null>;
+  set: (key: string, value: ExtractResult) => Promise<void>;
+}
+
+export type CacheBackend = 'memory' | 'disk' | 'off';
+
+export const DEFAULT_CACHE_TTL = 600; // 秒
+export const DEFAULT_CACHE_DIR = '.cache/reddit';
+// 内存缓存最多保留的条目数，超出时淘汰最早写入的
+const MAX_MEMORY_ENTRIES = 100;
+
+// 单条评论链接只返回部分评论，和整个帖子分开缓存
+const getThreadKey = (ref: RedditThreadRef) =>
+  ref.focusCommentId ? `${ref.postId}/${ref.focusCommentId}~${ref.context ?? ''}` : ref.postId;
+
+// 上游参数全部为默认值时不出现在键中
+export const getCacheKey = (ref: RedditThreadRef, options: ExtractOptions) => {
+  const upstream = toUpstreamQuery(options.upstream).toString();
+  return `${getThreadKey(ref)}:${options.deletedMode}:${options.maxMoreRequests}${upstream ? `:${upstream}` : ''}`;
+};
+
+export const createMemoryCache = (ttlMs: number, now: () => number = Date.now): ExtractionCache => {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: async key => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (now() - entry.storedAt > ttlMs) {
+        entries.delete(key);
+        return null;
+      }
+      return entry;
+    },
+    set: async (key, value) => {
+      entries.delete(key);
+      entries.set(key, { value, storedAt: now() });
+      if (entries.size > MAX_MEMORY_ENTRIES) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+  };
+};
+
+export const createDiskCache = (dir: string, ttlMs: number, now: () => number = Date.now): ExtractionCache => {
+  const getFile = (key: string) => path.join(dir, `${key.replace(/[^a-z0-9_-]+/gi, '_')}.json`);
+
+  return {
+    get: async key => {
+      let entry: CacheEntry & { key: string };
+      try {
+        entry = JSON.parse(await fs.readFile(getFile(key), 'utf8'));
+      } catch {
+        return null;
+      }
+      if (entry.key !== key || now() - entry.storedAt > ttlMs) {
+        return null;
+      }
+      return { value: entry.value, storedAt: entry.storedAt };
+    },
+    set: async (key, value) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(getFile(key), JSON.stringify({ key, storedAt: now(), value }));
+    }
+  };
+};
+
+// 通过 REDDIT_CACHE (memory/disk/off)、REDDIT_CACHE_TTL (秒) 和 REDDIT_CACHE_DIR 配置
+export const getCacheFromEnv = (env: NodeJS.ProcessEnv = process.env, now: () => number = Date.now): ExtractionCache | null => {
+  const backend = (env.REDDIT_CACHE || 'memory') as CacheBackend;
+  const ttlSeconds = parseInt(env.REDDIT_CACHE_TTL ?? '', 10);
+  const ttlMs = (Number.isNaN(ttlSeconds) ? DEFAULT_CACHE_TTL : ttlSeconds) * 1000;
+
+  if (backend === 'off' || ttlMs <= 0) {
+    return null;
+  }
+  if (backend === 'disk') {
+    return createDiskCache(env.REDDIT_CACHE_DIR || DEFAULT_CACHE_DIR, ttlMs, now);
+  }
+  return createMemoryCache(ttlMs, now);
+};
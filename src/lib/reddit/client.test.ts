@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRedditFetcher, fetchWithRetry, REDDIT_ENDPOINTS, resolveShareLink } from './client';
+import { CancelledError, RedditHttpError } from './errors';
+import { RedditDeps, RedditTransport, sleep } from './transport';
+
+const makeDeps = (transport: RedditTransport): RedditDeps => ({
+  transport,
+  sleep: vi.fn(() => Promise.resolve()),
+  now: () => 1700000000000,
+  random: () => 0.5,
+  logger: console
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('fetchWithRetry', () => {
+  it('returns the first successful response', async () => {
+    const transport = vi.fn<RedditTransport>(async () => new Response('[]'));
+    const deps = makeDeps(transport);
+
+    const response = await fetchWithRetry('https://www.reddit.com/r/test.json', '127.0.0.1', 5, deps);
+
+    expect(response.ok).toBe(true);
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(deps.sleep).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the next endpoint on 403 and 429', async () => {
+    const statuses = [403, 429, 200];
+    const transport = vi.fn<RedditTransport>(async () => new Response('[]', { status: statuses.shift() }));
+
+    const response = await fetchWithRetry('https://www.reddit.com/r/test.json', '127.0.0.1', 1, makeDeps(transport));
+
+    expect(response.status).toBe(200);
+    const hosts = transport.mock.calls.map(([url]) => new URL(url).origin);
+    expect(new Set(hosts).size).toBe(3);
+    hosts.forEach(host => expect(REDDIT_ENDPOINTS).toContain(host));
+    expect(transport.mock.calls[0][0]).toMatch(/\/r\/test\.json$/);
+  });
+
+  it('retries every endpoint per attempt and waits between attempts', async () => {
+    const transport = vi.fn<RedditTransport>(async () => { throw new Error('network down'); });
+    const deps = makeDeps(transport);
+
+    await expect(fetchWithRetry('https://www.reddit.com/r/test.json', '127.0.0.1', 2, deps)).rejects.toThrow('network down');
+
+    expect(transport).toHaveBeenCalledTimes(REDDIT_ENDPOINTS.length * 2);
+    // 每次请求前一次延迟，加上两轮之间的一次等待
+    expect(deps.sleep).toHaveBeenCalledTimes(REDDIT_ENDPOINTS.length * 2 + 1);
+  });
+
+  it('throws the last HTTP status once all attempts fail', async () => {
+    const transport = vi.fn<RedditTransport>(async () => new Response('', { status: 403, statusText: 'Forbidden' }));
+
+    const error = await fetchWithRetry('https://www.reddit.com/r/test.json', '127.0.0.1', 1, makeDeps(transport)).catch(e => e);
+
+    expect(error).toBeInstanceOf(RedditHttpError);
+    expect(error.status).toBe(403);
+  });
+
+  it('stops at the next delay once the client cancels', async () => {
+    const controller = new AbortController();
+    const transport = vi.fn<RedditTransport>(async () => {
+      controller.abort();
+      return new Response('', { status: 503 });
+    });
+    const deps = { ...makeDeps(transport), sleep: vi.fn((ms: number, signal?: AbortSignal) => sleep(0, signal)) };
+
+    await expect(fetchWithRetry('https://www.reddit.com/r/test.json', '127.0.0.1', 5, deps, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(CancelledError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the in-flight request when the client cancels', async () => {
+    const controller = new AbortController();
+    const transport = vi.fn<RedditTransport>((url, init) => new Promise((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      controller.abort();
+    }));
+
+    await expect(fetchWithRetry('https://www.reddit.com/r/test.json', '127.0.0.1', 5, makeDeps(transport), { signal: controller.signal }))
+      .rejects.toBeInstanceOf(CancelledError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createRedditFetcher', () => {
+  it('prefers the OAuth client when one is configured', async () => {
+    const transport = vi.fn<RedditTransport>();
+    const oauthClient = { fetch: vi.fn(async () => new Response('{}')), userAgent: 'web:test:v1' };
+
+    await createRedditFetcher('127.0.0.1', makeDeps(transport), oauthClient)('https://www.reddit.com/r/test.json');
+
+    expect(oauthClient.fetch).toHaveBeenCalledWith('https://www.reddit.com/r/test.json', undefined);
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveShareLink', () => {
+  const SHARE_URL = 'https://www.reddit.com/r/test/s/AbCdEf';
+  const redirect = () => new Response(null, { status: 301, headers: { location: 'https://www.reddit.com/r/test/comments/abc123/hello_world/' } });
+
+  it('sends the OAuth client user agent through the configured transport', async () => {
+    const transport = vi.fn<RedditTransport>(async () => redirect());
+    const oauthClient = { fetch: vi.fn(), userAgent: 'web:test:v1' };
+
+    const ref = await resolveShareLink(SHARE_URL, makeDeps(transport), oauthClient);
+
+    expect(ref).toMatchObject({ subreddit: 'test', postId: 'abc123' });
+    expect(transport).toHaveBeenCalledWith(SHARE_URL, expect.objectContaining({ method: 'HEAD', headers: { 'User-Agent': 'web:test:v1' } }));
+    expect(oauthClient.fetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a browser user agent without OAuth', async () => {
+    const transport = vi.fn<RedditTransport>(async () => redirect());
+
+    await resolveShareLink(SHARE_URL, makeDeps(transport));
+
+    const [, init] = transport.mock.calls[0];
+    expect((init?.headers as Record<string, string>)['User-Agent']).toContain('Mozilla');
+  });
+});
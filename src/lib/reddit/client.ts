@@ -0,0 +1,280 @@
+import { CancelledError, RedditHttpError } from './errors';
+import { OAuthClient } from './oauth';
+import { ProgressListener } from './progress';
+import { RedditDeps, getDepsFromEnv } from './transport';
+import { InvalidRedditUrlError, parseRedditUrl, RedditThreadRef } from './url';
+
+const defaultDeps = getDepsFromEnv();
+
+// 单次提取的进度回调和取消信号
+export interface FetchHooks {
+  onProgress?: ProgressListener;
+  signal?: AbortSignal;
+}
+
+// 更新的User-Agent列表，包含最新浏览器版本和移动端
+const USER_AGENTS = [
+  // Chrome 最新版本
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  
+  // Firefox 最新版本
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:132.0) Gecko/20100101 Firefox/132.0',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:132.0) Gecko/20100101 Firefox/132.0',
+  'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:132.0) Gecko/20100101 Firefox/132.0',
+  
+  // Safari 最新版本
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.1 Safari/605.1.15',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_14_6) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.1 Safari/605.1.15',
+  
+  // Edge 最新版本
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 Edg/131.0.0.0',
+  
+  // 移动端 User-Agent (更难被检测)
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1',
+  'Mozilla/5.0 (iPad; CPU OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1',
+  'Mozilla/5.0 (Linux; Android 14; SM-G998B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+  
+  // 一些不太常见但真实的浏览器
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 OPR/117.0.0.0',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 Vivaldi/6.5.3206.63'
+];
+
+// 随机 IP 地址生成（用于 X-Forwarded-For）
+const generateRandomIP = () => {
+  return `${Math.floor(Math.random() * 255) + 1}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`;
+};
+
+// 获取随机用户代理
+const getRandomUserAgent = () => USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
+
+// 备用 Reddit 端点 - 增加更多端点和代理策略
+export const REDDIT_ENDPOINTS = [
+  'https://www.reddit.com',
+  'https://old.reddit.com',
+  'https://np.reddit.com',
+  'https://i.reddit.com',
+  'https://m.reddit.com'
+];
+
+// 生成更真实的浏览器指纹
+const generateBrowserFingerprint = () => {
+  const screens = [
+    { width: 1920, height: 1080 },
+    { width: 1366, height: 768 },
+    { width: 1440, height: 900 },
+    { width: 1536, height: 864 },
+    { width: 2560, height: 1440 }
+  ];
+  
+  const screen = screens[Math.floor(Math.random() * screens.length)];
+  const languages = ['en-US', 'en-GB', 'zh-CN', 'es-ES', 'fr-FR', 'de-DE'];
+  const timezones = [-480, -420, -360, -300, -240, 0, 60, 120, 480, 540];
+  
+  return {
+    screen: `${screen.width}x${screen.height}`,
+    language: languages[Math.floor(Math.random() * languages.length)],
+    timezone: timezones[Math.floor(Math.random() * timezones.length)],
+    platform: Math.random() > 0.5 ? 'Win32' : 'MacIntel'
+  };
+};
+
+// 重试机制 - 针对Vercel环境优化
+export async function fetchWithRetry(
+  url: string,
+  clientIP: string,
+  maxRetries = 5,
+  deps: RedditDeps = defaultDeps,
+  hooks: FetchHooks = {}
+): Promise<Response> {
+  const { onProgress, signal } = hooks;
+  let lastError: Error | null = null;
+  const fingerprint = generateBrowserFingerprint();
+
+  // 客户端取消后在下一个 await 处停止
+  const checkCancelled = () => {
+    if (signal?.aborted) {
+      deps.logger.log(`🛑 Extraction cancelled by client: ${url}`);
+      throw new CancelledError();
+    }
+  };
+
+  // 随机延迟函数，取消时立即结束
+  const randomDelay = (min: number, max: number) =>
+    deps.sleep(deps.random() * (max - min) + min, signal).catch(checkCancelled);
+  
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    // 随机打乱端点顺序
+    const shuffledEndpoints = [...REDDIT_ENDPOINTS].sort(() => deps.random() - 0.5);
+    
+    for (const endpoint of shuffledEndpoints) {
+      try {
+        // 更长的随机延迟，特别是在Vercel环境中
+        const baseDelay = attempt * 2000 + deps.random() * 3000;
+        await randomDelay(baseDelay, baseDelay + 2000);
+        checkCancelled();
+        
+        // 替换域名
+        const targetUrl = url.replace(/https:\/\/[^\/]+/, endpoint);
+        
+        // 更完整的请求头，模拟真实浏览器
+        const headers: Record<string, string> = {
+          'User-Agent': getRandomUserAgent(),
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
+          'Accept-Language': `${fingerprint.language},en;q=0.9`,
+          'Accept-Encoding': 'gzip, deflate, br, zstd',
+          'DNT': '1',
+          'Connection': 'keep-alive',
+          'Upgrade-Insecure-Requests': '1',
+          'Sec-Fetch-Dest': 'document',
+          'Sec-Fetch-Mode': 'navigate',
+          'Sec-Fetch-Site': attempt === 1 ? 'none' : 'same-origin',
+          'Sec-Fetch-User': '?1',
+          'Sec-CH-UA': '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
+          'Sec-CH-UA-Mobile': '?0',
+          'Sec-CH-UA-Platform': `"${fingerprint.platform}"`,
+          'Cache-Control': 'max-age=0',
+          'Pragma': 'no-cache',
+          'X-Forwarded-For': generateRandomIP(),
+          'X-Real-IP': generateRandomIP(),
+        };
+
+        // 根据尝试次数添加不同的头部策略
+        if (attempt > 1) {
+          headers['Referer'] = 'https://www.google.com/search?q=reddit';
+        }
+        
+        if (attempt > 2) {
+          headers['Origin'] = endpoint;
+          headers['Cookie'] = `session_tracker=${Math.random().toString(36).substring(7)}; reddit_session=${Math.random().toString(36).substring(7)}`;
+        }
+
+        // 在Vercel环境中添加更多伪装
+        if (process.env.VERCEL) {
+          headers['CF-Connecting-IP'] = generateRandomIP();
+          headers['X-Forwarded-Proto'] = 'https';
+          headers['X-Vercel-IP-Country'] = ['US', 'CA', 'GB', 'DE', 'FR'][Math.floor(Math.random() * 5)];
+        }
+
+        deps.logger.log(`Attempt ${attempt}/${maxRetries}, endpoint: ${endpoint}, delay: ${Math.round(baseDelay)}ms`);
+        onProgress?.({ type: 'attempt', attempt, maxRetries, endpoint, delay: Math.round(baseDelay) });
+        
+        // 超时或客户端取消时中止本次请求
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 60000); // 增加到60秒超时
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        
+        const response = await deps.transport(targetUrl, {
+          headers,
+          signal: controller.signal,
+          // 添加更多fetch选项
+          redirect: 'follow',
+          referrerPolicy: 'strict-origin-when-cross-origin'
+        }).finally(() => {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
+        });
+        onProgress?.({ type: 'response', attempt, endpoint, status: response.status });
+
+        if (response.ok) {
+          deps.logger.log(`✅ Success with endpoint: ${endpoint} (${response.status})`);
+          return response;
+        }
+
+        // 如果是 403 或 429，尝试下一个端点
+        if (response.status === 403 || response.status === 429) {
+          deps.logger.log(`⚠️  ${response.status} error with ${endpoint}, trying next endpoint...`);
+          lastError = new RedditHttpError(response.status, response.statusText);
+          continue;
+        }
+
+        // 对于其他HTTP错误，也记录但继续尝试
+        if (!response.ok) {
+          deps.logger.log(`⚠️  HTTP ${response.status} error with ${endpoint}, continuing...`);
+          lastError = new RedditHttpError(response.status, response.statusText);
+          continue;
+        }
+
+        return response;
+      } catch (error) {
+        checkCancelled();
+        deps.logger.error(`❌ Error with endpoint ${endpoint}:`, error);
+        lastError = error instanceof Error ? error : new Error(String(error));
+        onProgress?.({ type: 'network-error', attempt, endpoint, message: lastError.message });
+        
+        // 对于网络错误，立即尝试下一个端点
+        continue;
+      }
+    }
+    
+    // 如果所有端点都失败，等待更长时间再重试
+    if (attempt < maxRetries) {
+      const waitTime = attempt * 3000 + deps.random() * 2000;
+      deps.logger.log(`🔄 All endpoints failed for attempt ${attempt}/${maxRetries}, waiting ${Math.round(waitTime)}ms before retry...`);
+      await randomDelay(waitTime, waitTime + 1000);
+      checkCancelled();
+    }
+  }
+  
+  // 所有重试都失败了
+  deps.logger.error(`💥 All retry attempts failed. Last error:`, lastError);
+  throw lastError || new Error('All endpoints failed after maximum retries');
+}
+
+export type FetchReddit = (url: string, maxRetries?: number) => Promise<Response>;
+
+// 配置了 OAuth 客户端时使用官方 API，否则使用公开的 .json 端点
+export const createRedditFetcher = (
+  clientIP: string,
+  deps: RedditDeps = defaultDeps,
+  oauthClient: OAuthClient | null = null,
+  hooks: FetchHooks = {}
+): FetchReddit => async (url, maxRetries) => {
+  const { onProgress, signal } = hooks;
+  if (oauthClient) {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    onProgress?.({ type: 'attempt', attempt: 1, maxRetries: 1, endpoint: 'oauth', delay: 0 });
+    const response = await oauthClient.fetch(url, signal).catch(error => {
+      throw signal?.aborted ? new CancelledError() : error;
+    });
+    onProgress?.({ type: 'response', attempt: 1, endpoint: 'oauth', status: response.status });
+    return response;
+  }
+  return fetchWithRetry(url, clientIP, maxRetries, deps, hooks);
+};
+
+// 分享链接 (/r/<sub>/s/<id>) 只会重定向到帖子地址，读取 Location 而不跟随
+// 配置了 OAuth 客户端时使用它的 User-Agent，否则使用随机的浏览器 User-Agent
+export async function resolveShareLink(
+  shareUrl: string,
+  deps: RedditDeps = defaultDeps,
+  oauthClient: OAuthClient | null = null,
+  signal?: AbortSignal
+): Promise<RedditThreadRef> {
+  const response = await deps.transport(shareUrl, {
+    method: 'HEAD',
+    headers: { 'User-Agent': oauthClient?.userAgent ?? getRandomUserAgent() },
+    redirect: 'manual',
+    signal
+  }).catch(error => {
+    throw signal?.aborted ? new CancelledError() : error;
+  });
+
+  const location = response.headers.get('location');
+  if (!location) {
+    throw response.ok
+      ? new InvalidRedditUrlError('分享链接没有指向任何帖子')
+      : new RedditHttpError(response.status, response.statusText);
+  }
+
+  const target = parseRedditUrl(new URL(location, shareUrl).href);
+  if (target.type !== 'thread') {
+    throw new InvalidRedditUrlError('分享链接没有指向任何帖子');
+  }
+  deps.logger.log(`🔗 Resolved share link ${shareUrl} -> ${target.ref.postId}`);
+  return target.ref;
+}
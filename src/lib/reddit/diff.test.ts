@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { makeComment } from './__fixtures__/factories';
+import { diffThreads, mergeComments, pruneToChanges } from './diff';
+import { parseComments } from './parse';
+import { ParsedComment } from './types';
+
+const before = parseComments([
+  makeComment({ id: 'a', score: 10, body: 'original' }, [
+    makeComment({ id: 'a1', parent_id: 't1_a', score: 2 }, [
+      makeComment({ id: 'a1x', parent_id: 't1_a1', score: 1 })
+    ]),
+    makeComment({ id: 'a2', parent_id: 't1_a', score: 3 })
+  ]),
+  makeComment({ id: 'b', score: 5 }),
+  makeComment({ id: 'c', score: 1, body: 'soon gone' })
+], 'placeholder');
+
+// a 被编辑并加分，a1 连同回复消失，c 被作者删除，新增 d 和 a3
+const after = parseComments([
+  makeComment({ id: 'a', score: 15, body: 'updated' }, [
+    makeComment({ id: 'a2', parent_id: 't1_a', score: 3 }),
+    makeComment({ id: 'a3', parent_id: 't1_a', score: 1 })
+  ]),
+  makeComment({ id: 'b', score: 5 }),
+  makeComment({ id: 'c', score: 1, author: '[deleted]', body: '[deleted]' }),
+  makeComment({ id: 'd', score: 1 })
+], 'placeholder');
+
+const ids = (nodes: ParsedComment[]): unknown[] => nodes.map(node => node.replies.length > 0 ? [node.id, ids(node.replies)] : node.id);
+
+describe('diffThreads', () => {
+  it('classifies new, deleted, edited and rescored comments', () => {
+    const { changes, counts } = diffThreads(before, after);
+
+    expect(changes.get('a')).toEqual({ id: 'a', kinds: ['edited', 'score'], previousBody: 'original', previousScore: 10, scoreDelta: 5 });
+    expect(changes.get('a3')?.kinds).toEqual(['added']);
+    expect(changes.get('d')?.kinds).toEqual(['added']);
+    expect(changes.get('c')).toMatchObject({ kinds: ['deleted'], previousBody: 'soon gone' });
+    expect(changes.get('a1')?.kinds).toEqual(['deleted']);
+    expect(changes.get('a1x')?.kinds).toEqual(['deleted']);
+    expect(changes.has('b')).toBe(false);
+    expect(changes.has('a2')).toBe(false);
+    expect(counts).toEqual({ added: 2, deleted: 3, edited: 1, score: 1 });
+  });
+
+  it('puts missing comments back under their parent', () => {
+    const { comments } = diffThreads(before, after);
+    expect(ids(comments)).toEqual([['a', ['a2', 'a3', ['a1', ['a1x']]]], 'b', 'c', 'd']);
+  });
+
+  it('finds no changes between identical trees', () => {
+    const { changes, comments } = diffThreads(before, before);
+    expect(changes.size).toBe(0);
+    expect(ids(comments)).toEqual(ids(before));
+  });
+});
+
+describe('pruneToChanges', () => {
+  it('keeps changed comments and their ancestors', () => {
+    const { comments, changes } = diffThreads(before, after);
+    changes.delete('a');
+    expect(ids(pruneToChanges(comments, changes))).toEqual([['a', ['a3', ['a1', ['a1x']]]], 'c', 'd']);
+  });
+});
+
+describe('mergeComments', () => {
+  it('keeps comments missing from the newer tree and takes everything else from it', () => {
+    const merged = mergeComments(before, after);
+    expect(ids(merged)).toEqual([['a', ['a2', 'a3', ['a1', ['a1x']]]], 'b', 'c', 'd']);
+    expect(merged[0].score).toBe(15);
+  });
+
+  it('returns the newer tree unchanged when nothing is missing', () => {
+    expect(mergeComments(after, after)).toBe(after);
+  });
+});
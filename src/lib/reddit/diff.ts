@@ -0,0 +1,121 @@
+import { indexComments } from './parse';
+import { ParsedComment } from './types';
+
+// 同一帖子两次提取之间的差异 (新增、删除、正文编辑和分数变化)，以及按评论ID合并两次的结果
+
+export const CHANGE_KINDS = ['added', 'deleted', 'edited', 'score'] as const;
+export type ChangeKind = typeof CHANGE_KINDS[number];
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: '新增',
+  deleted: '已删除',
+  edited: '已编辑',
+  score: '分数变化'
+};
+
+export interface CommentChange {
+  id: string;
+  kinds: ChangeKind[];
+  // 旧快照中的正文和分数，新增的评论为 null
+  previousBody: string | null;
+  previousScore: number | null;
+  scoreDelta: number;
+}
+
+export interface ThreadDiff {
+  // 新快照的评论树，旧快照中有而新快照中没有的评论插回原来的父评论下
+  comments: ParsedComment[];
+  changes: Map<string, CommentChange>;
+  counts: Record<ChangeKind, number>;
+}
+
+const getParentCommentId = (comment: ParsedComment) =>
+  comment.parent_id.startsWith('t1_') ? comment.parent_id.slice(3) : null;
+
+// 以 after 为准合并两棵评论树：before 中有而 after 中没有的评论插回原来的父评论下，
+// 父评论也不在 after 中时随父评论一起恢复，找不到父评论时放在顶层
+export const mergeComments = (
+  before: ParsedComment[],
+  after: ParsedComment[],
+  onRestore?: (comment: ParsedComment) => void
+): ParsedComment[] => {
+  const previous = indexComments(before);
+  const current = indexComments(after);
+
+  const restore = (comment: ParsedComment): ParsedComment => {
+    onRestore?.(comment);
+    return { ...comment, replies: comment.replies.filter(reply => !current.has(reply.id)).map(restore) };
+  };
+
+  const orphans = new Map<string | null, ParsedComment[]>();
+  for (const [id, comment] of previous) {
+    const parentId = getParentCommentId(comment);
+    if (current.has(id) || (parentId && previous.has(parentId) && !current.has(parentId))) {
+      continue;
+    }
+    const key = parentId && current.has(parentId) ? parentId : null;
+    orphans.set(key, [...orphans.get(key) ?? [], restore(comment)]);
+  }
+
+  if (orphans.size === 0) {
+    return after;
+  }
+
+  const attach = (comments: ParsedComment[]): ParsedComment[] => comments.map(comment => ({
+    ...comment,
+    replies: [...attach(comment.replies), ...orphans.get(comment.id) ?? []]
+  }));
+
+  return [...attach(after), ...orphans.get(null) ?? []];
+};
+
+// 比较两个快照的评论树，before 为较早的一次
+export const diffThreads = (before: ParsedComment[], after: ParsedComment[]): ThreadDiff => {
+  const previous = indexComments(before);
+  const current = indexComments(after);
+  const changes = new Map<string, CommentChange>();
+
+  for (const [id, comment] of current) {
+    const old = previous.get(id);
+    if (!old) {
+      changes.set(id, { id, kinds: ['added'], previousBody: null, previousScore: null, scoreDelta: 0 });
+      continue;
+    }
+    const kinds: ChangeKind[] = [];
+    if (old.status === 'active' && comment.status !== 'active') {
+      kinds.push('deleted');
+    } else if (old.body !== comment.body) {
+      kinds.push('edited');
+    }
+    const scoreDelta = comment.score - old.score;
+    if (scoreDelta !== 0) {
+      kinds.push('score');
+    }
+    if (kinds.length > 0) {
+      changes.set(id, { id, kinds, previousBody: old.body, previousScore: old.score, scoreDelta });
+    }
+  }
+
+  // 新快照中已经不存在的评论标记为删除
+  const comments = mergeComments(before, after, comment => changes.set(comment.id, {
+    id: comment.id,
+    kinds: ['deleted'],
+    previousBody: comment.body,
+    previousScore: comment.score,
+    scoreDelta: 0
+  }));
+
+  const counts = { added: 0, deleted: 0, edited: 0, score: 0 };
+  for (const change of changes.values()) {
+    change.kinds.forEach(kind => counts[kind]++);
+  }
+
+  return { comments, changes, counts };
+};
+
+// 只保留有变化的评论以及通往它们的父评论
+export const pruneToChanges = (comments: ParsedComment[], changes: Map<string, CommentChange>): ParsedComment[] =>
+  comments.flatMap(comment => {
+    const replies = pruneToChanges(comment.replies, changes);
+    return changes.has(comment.id) || replies.length > 0 ? [{ ...comment, replies }] : [];
+  });
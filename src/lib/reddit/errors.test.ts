@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { CancelledError, describeRedditError, RedditHttpError } from './errors';
+import { InvalidParameterError, InvalidRedditUrlError } from './url';
+
+describe('describeRedditError', () => {
+  it.each([
+    [403, 403, '访问被拒绝'],
+    [404, 404, '帖子不存在'],
+    [429, 429, '请求过于频繁'],
+    [500, 502, 'Reddit服务器错误'],
+    [503, 502, 'Reddit服务器错误'],
+    [418, 502, 'HTTP error']
+  ])('maps upstream %i to %i', (upstream, status, message) => {
+    const description = describeRedditError(new RedditHttpError(upstream, ''));
+    expect(description.status).toBe(status);
+    expect(description.message).toContain(message);
+  });
+
+  it('maps cancellation to 499', () => {
+    expect(describeRedditError(new CancelledError())).toEqual({ status: 499, message: '提取已取消' });
+  });
+
+  it('maps invalid links and parameters to 400', () => {
+    expect(describeRedditError(new InvalidRedditUrlError('分享链接没有指向任何帖子')).status).toBe(400);
+    expect(describeRedditError(new InvalidParameterError('无效的sort参数'))).toEqual({ status: 400, message: '无效的sort参数' });
+  });
+
+  it('passes other errors through as 500', () => {
+    expect(describeRedditError(new Error('无效的Reddit数据格式'))).toEqual({ status: 500, message: '无效的Reddit数据格式' });
+    expect(describeRedditError('boom')).toEqual({ status: 500, message: '获取Reddit数据失败' });
+  });
+});
@@ -0,0 +1,57 @@
+import { ExtractionError } from './progress';
+import { InvalidParameterError, InvalidRedditUrlError } from './url';
+
+// Reddit 返回非 2xx 状态码时抛出
+export class RedditHttpError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'RedditHttpError';
+    this.status = status;
+  }
+}
+
+// 客户端取消提取时抛出
+export class CancelledError extends Error {
+  constructor() {
+    super('提取已取消');
+    this.name = 'CancelledError';
+  }
+}
+
+export interface ErrorDescription {
+  status: number;
+  message: string;
+}
+
+// 把上游错误映射为接口的状态码和提示信息
+export const describeRedditError = (error: unknown): ErrorDescription => {
+  if (error instanceof ExtractionError) {
+    return describeRedditError(error.cause);
+  }
+  if (error instanceof CancelledError) {
+    // 499: 客户端关闭了请求
+    return { status: 499, message: error.message };
+  }
+  if (error instanceof InvalidRedditUrlError || error instanceof InvalidParameterError) {
+    return { status: 400, message: error.message };
+  }
+  if (error instanceof RedditHttpError) {
+    if (error.status === 403) {
+      return { status: 403, message: '访问被拒绝 (403): Reddit可能检测到了自动化请求。请稍后重试或使用不同的URL。' };
+    }
+    if (error.status === 404) {
+      return { status: 404, message: '帖子不存在 (404): 请检查URL是否正确。' };
+    }
+    if (error.status === 429) {
+      return { status: 429, message: '请求过于频繁 (429): 请稍后重试。' };
+    }
+    if (error.status >= 500) {
+      return { status: 502, message: `Reddit服务器错误 (${error.status}): 请稍后重试。` };
+    }
+    return { status: 502, message: `HTTP error! status: ${error.status}` };
+  }
+
+  return { status: 500, message: error instanceof Error ? error.message : '获取Reddit数据失败' };
+};
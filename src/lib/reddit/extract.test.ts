@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonResponse, makeComment, makeMore, makeThread } from './__fixtures__/factories';
+import { FetchReddit } from './client';
+import { CancelledError } from './errors';
+import { extractThread } from './extract';
+import { ExtractionError } from './progress';
+import { DEFAULT_UPSTREAM_PARAMS } from './url';
+
+const options = { deletedMode: 'placeholder' as const, maxMoreRequests: 10, upstream: DEFAULT_UPSTREAM_PARAMS };
+const ref = { subreddit: 'test', postId: 'abc123' };
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('extractThread', () => {
+  it('fetches the canonical thread URL and returns post and comments', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async () => jsonResponse(makeThread([makeComment({ id: 'c1' })])));
+
+    const result = await extractThread(ref, options, fetchReddit);
+
+    expect(fetchReddit).toHaveBeenCalledWith('https://www.reddit.com/r/test/comments/abc123.json');
+    expect(result.post?.title).toBe('Hello world');
+    expect(result.comments.map(comment => comment.id)).toEqual(['c1']);
+    expect(result.more).toEqual({ resolved: 0, unresolved: 0, requests: 0 });
+  });
+
+  it('splices morechildren results into the tree', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => {
+      if (url.includes('/api/morechildren')) {
+        expect(new URL(url).searchParams.get('children')).toBe('c4,c9');
+        return jsonResponse({
+          json: {
+            errors: [],
+            data: {
+              things: [
+                makeComment({ id: 'c4', parent_id: 't1_c1' }),
+                makeComment({ id: 'c6', parent_id: 't1_c4' }),
+                makeComment({ id: 'c9' })
+              ]
+            }
+          }
+        });
+      }
+      return jsonResponse(makeThread([
+        makeComment({ id: 'c1' }, [makeMore({ id: 'c4', parent_id: 't1_c1', children: ['c4', 'c9'] })])
+      ]));
+    });
+
+    const { comments, more } = await extractThread(ref, options, fetchReddit);
+
+    expect(more).toEqual({ resolved: 1, unresolved: 0, requests: 1 });
+    expect(comments.map(comment => comment.id)).toEqual(['c1', 'c9']);
+    expect(comments[0].replies[0]).toMatchObject({ id: 'c4', depth: 1 });
+    expect(comments[0].replies[0].replies[0]).toMatchObject({ id: 'c6', depth: 2 });
+  });
+
+  it('counts a placeholder split across several batches once', async () => {
+    const children = Array.from({ length: 150 }, (_, i) => `m${i}`);
+    const batches = (failSecond: boolean) => {
+      let calls = 0;
+      return vi.fn<FetchReddit>(async url => {
+        if (!url.includes('/api/morechildren')) {
+          return jsonResponse(makeThread([makeMore({ id: 'm0', children })]));
+        }
+        calls++;
+        return failSecond && calls === 2
+          ? new Response('', { status: 500 })
+          : jsonResponse({ json: { errors: [], data: { things: [] } } });
+      });
+    };
+
+    const resolved = await extractThread(ref, options, batches(false));
+    expect(resolved.more).toEqual({ resolved: 1, unresolved: 0, requests: 1 });
+
+    const failed = await extractThread(ref, options, batches(true));
+    expect(failed.more).toEqual({ resolved: 0, unresolved: 1, requests: 1 });
+
+    const capped = await extractThread(ref, { ...options, maxMoreRequests: 1 }, batches(false));
+    expect(capped.more).toEqual({ resolved: 0, unresolved: 1, requests: 1 });
+  });
+
+  it('counts a morechildren batch with comments it cannot place as unresolved', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => url.includes('/api/morechildren')
+      ? jsonResponse({ json: { errors: [], data: { things: [makeComment({ id: 'm1' }), makeComment({ id: 'x1', parent_id: 't1_missing' })] } } })
+      : jsonResponse(makeThread([makeMore({ id: 'm1', children: ['m1', 'x1'] })])));
+
+    const { comments, more } = await extractThread(ref, options, fetchReddit);
+
+    expect(comments.map(comment => comment.id)).toEqual(['m1']);
+    expect(more).toEqual({ resolved: 0, unresolved: 1, requests: 1 });
+  });
+
+  it('re-fetches continue-this-thread links under the parent', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => {
+      if (url.includes('/comments/abc123/_/c2')) {
+        return jsonResponse(makeThread([
+          makeComment({ id: 'c2', parent_id: 't1_c1' }, [makeComment({ id: 'c3', parent_id: 't1_c2' })])
+        ]));
+      }
+      return jsonResponse(makeThread([
+        makeComment({ id: 'c1' }, [
+          makeComment({ id: 'c2', parent_id: 't1_c1' }, [makeMore({ id: '_', parent_id: 't1_c2' })])
+        ])
+      ]));
+    });
+
+    const { comments, more } = await extractThread(ref, options, fetchReddit);
+
+    expect(more.resolved).toBe(1);
+    expect(comments[0].replies[0].replies[0]).toMatchObject({ id: 'c3', depth: 2 });
+  });
+
+  it('reports parse and more-resolution progress', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => url.includes('/api/morechildren')
+      ? jsonResponse({ json: { errors: [], data: { things: [makeComment({ id: 'm1' })] } } })
+      : jsonResponse(makeThread([makeComment({ id: 'c1' }), makeMore({ id: 'm1', children: ['m1'] })])));
+    const onProgress = vi.fn();
+
+    await extractThread(ref, options, fetchReddit, onProgress);
+
+    expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'parsed', comments: 1, pending: 1 },
+      { type: 'more', resolved: 1, unresolved: 0, requests: 1, pending: 0, comments: 2 }
+    ]);
+  });
+
+  it('stops at the request cap and reports the rest as unresolved', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async () => jsonResponse(makeThread([
+      makeMore({ id: 'm1', children: ['m1'] }),
+      makeMore({ id: 'm2', children: ['m2'] })
+    ])));
+
+    const { more } = await extractThread(ref, { ...options, maxMoreRequests: 0 }, fetchReddit);
+
+    expect(more).toEqual({ resolved: 0, unresolved: 2, requests: 0 });
+    expect(fetchReddit).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts failed morechildren requests as unresolved', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => url.includes('/api/morechildren')
+      ? new Response('', { status: 500 })
+      : jsonResponse(makeThread([makeMore({ id: 'm1', children: ['m1'] })])));
+
+    const { more } = await extractThread(ref, options, fetchReddit);
+
+    expect(more).toEqual({ resolved: 0, unresolved: 1, requests: 1 });
+  });
+
+  it('keeps the partial result when cancelled while resolving more nodes', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => {
+      if (url.includes('/api/morechildren')) {
+        throw new CancelledError();
+      }
+      return jsonResponse(makeThread([makeComment({ id: 'c1' }), makeMore({ id: 'm1', children: ['m1'] })]));
+    });
+
+    const error = await extractThread(ref, options, fetchReddit).catch(e => e);
+
+    expect(error).toBeInstanceOf(ExtractionError);
+    expect(error.cause).toBeInstanceOf(CancelledError);
+    expect(error.partial.comments.map((comment: { id: string }) => comment.id)).toEqual(['c1']);
+    expect(error.partial.more.unresolved).toBe(1);
+  });
+
+  it('reports the stats reached so far when cancelled after some requests succeeded', async () => {
+    let calls = 0;
+    const fetchReddit = vi.fn<FetchReddit>(async url => {
+      if (!url.includes('/api/morechildren')) {
+        return jsonResponse(makeThread(['m1', 'm2', 'm3', 'm4'].map(id => makeMore({ id, children: [id] }))));
+      }
+      if (++calls === 3) {
+        throw new CancelledError();
+      }
+      const id = new URL(url).searchParams.get('children')!;
+      return jsonResponse({ json: { errors: [], data: { things: [makeComment({ id })] } } });
+    });
+
+    const error = await extractThread(ref, options, fetchReddit).catch(e => e);
+
+    expect(error).toBeInstanceOf(ExtractionError);
+    expect(error.partial.comments.map((comment: { id: string }) => comment.id)).toEqual(['m1', 'm2']);
+    expect(error.partial.more).toEqual({ resolved: 2, unresolved: 2, requests: 3 });
+  });
+
+  it('fetches only the focused comment and its context', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async () => jsonResponse(makeThread([makeComment({ id: 'c1' })])));
+
+    await extractThread({ ...ref, focusCommentId: 'c1', context: 3 }, options, fetchReddit);
+
+    expect(fetchReddit).toHaveBeenCalledWith('https://www.reddit.com/r/test/comments/abc123/_/c1.json?context=3');
+  });
+
+  it('forwards upstream sort, limit and depth and records them in the result', async () => {
+    const upstream = { sort: 'top' as const, limit: 50, depth: 3 };
+    const fetchReddit = vi.fn<FetchReddit>(async url => url.includes('/api/morechildren')
+      ? jsonResponse({ json: { errors: [], data: { things: [] } } })
+      : jsonResponse(makeThread([makeMore({ id: 'm1', children: ['m1'] })])));
+
+    const result = await extractThread(ref, { ...options, upstream }, fetchReddit);
+
+    expect(fetchReddit.mock.calls[0][0]).toBe('https://www.reddit.com/r/test/comments/abc123.json?sort=top&limit=50&depth=3');
+    expect(new URL(fetchReddit.mock.calls[1][0]).searchParams.get('sort')).toBe('top');
+    expect(result.upstream).toEqual(upstream);
+  });
+
+  it('rejects payloads that are not a thread', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async () => jsonResponse({ kind: 'Listing' }));
+    await expect(extractThread(ref, options, fetchReddit)).rejects.toThrow('无效的Reddit数据格式');
+  });
+});
@@ -0,0 +1,90 @@
+import { FetchReddit } from './client';
+import { RedditHttpError } from './errors';
+import { resolveMoreComments } from './more';
+import { countComments, parseComments, parsePost, pruneEmptyPlaceholders } from './parse';
+import { ExtractionError, ProgressListener } from './progress';
+import { RedditLogger } from './transport';
+import { DeletedMode, MoreStats, ParsedComment, ParsedPost, RedditMore, RedditThreadResponse } from './types';
+import { buildThreadUrl, RedditThreadRef, UpstreamParams } from './url';
+
+export interface ExtractOptions {
+  deletedMode: DeletedMode;
+  maxMoreRequests: number;
+  upstream: UpstreamParams;
+}
+
+export interface ExtractResult {
+  post: ParsedPost | null;
+  comments: ParsedComment[];
+  more: MoreStats;
+  // 请求时转发给 Reddit 的参数，便于复现结果
+  upstream: UpstreamParams;
+}
+
+// 获取帖子及其全部评论，并展开 "加载更多评论" 节点
+// 展开过程中出错时抛出 ExtractionError，携带已经解析的部分结果
+export async function extractThread(
+  ref: RedditThreadRef,
+  options: ExtractOptions,
+  fetchReddit: FetchReddit,
+  onProgress?: ProgressListener,
+  logger: RedditLogger = console
+): Promise<ExtractResult> {
+  // 使用重试机制获取数据
+  const response = await fetchReddit(buildThreadUrl(ref, undefined, options.upstream));
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    logger.error(`Reddit API error: ${response.status} ${response.statusText}`, errorText);
+    throw new RedditHttpError(response.status, response.statusText);
+  }
+
+  const data: RedditThreadResponse = await response.json();
+
+  if (!Array.isArray(data) || data.length < 2) {
+    throw new Error('无效的Reddit数据格式');
+  }
+
+  // 第一个元素包含帖子信息
+  const submission = data[0]?.data?.children?.[0];
+  const post = submission && submission.kind === 't3' ? parsePost(submission) : null;
+
+  // 第二个元素包含评论数据
+  const commentsData = data[1];
+
+  if (!commentsData.data || !commentsData.data.children) {
+    return { post, comments: [], more: { resolved: 0, unresolved: 0, requests: 0 }, upstream: options.upstream };
+  }
+
+  const pending: RedditMore['data'][] = [];
+  let comments = parseComments(commentsData.data.children, options.deletedMode, pending);
+  onProgress?.({ type: 'parsed', comments: countComments(comments), pending: pending.length });
+
+  // morechildren 接口需要帖子的 fullname (t3_xxx)
+  let more: MoreStats = { resolved: 0, unresolved: pending.length, requests: 0 };
+  if (post) {
+    more = { resolved: 0, unresolved: 0, requests: 0 };
+    try {
+      await resolveMoreComments(
+        comments,
+        pending,
+        submission.data.name,
+        fetchReddit,
+        options.maxMoreRequests,
+        options.deletedMode,
+        onProgress,
+        options.upstream.sort,
+        logger,
+        more
+      );
+    } catch (error) {
+      throw new ExtractionError(error, { post, comments, more, upstream: options.upstream });
+    }
+  }
+
+  if (options.deletedMode === 'placeholder') {
+    comments = pruneEmptyPlaceholders(comments);
+  }
+
+  return { post, comments, more, upstream: options.upstream };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { makeComment } from './__fixtures__/factories';
+import { CommentFilter, EMPTY_FILTER, filterComments, getFilterError, getHighlightPattern, parseAuthorList, splitHighlights } from './filter';
+import { parseComments } from './parse';
+
+// c1 (楼主) -> c2 -> c3，另有独立的 c4
+const comments = parseComments([
+  makeComment({ id: 'c1', author: 'op_user', is_submitter: true, body: 'Intro post', score: 50, created_utc: 1700000000 }, [
+    makeComment({ id: 'c2', parent_id: 't1_c1', author: 'bob', body: 'Nothing here', score: 5, created_utc: 1700001000 }, [
+      makeComment({ id: 'c3', parent_id: 't1_c2', author: 'carol', body: 'Found a Crash bug', score: -2, created_utc: 1700002000 })
+    ])
+  ]),
+  makeComment({ id: 'c4', author: 'dave', body: 'crash again', score: 12, created_utc: 1700003000 })
+], 'flag');
+
+const run = (filter: Partial<CommentFilter>) => filterComments(comments, { ...EMPTY_FILTER, ...filter });
+
+const ids = (nodes: typeof comments): string[] => nodes.flatMap(comment => [comment.id, ...ids(comment.replies)]);
+
+describe('filterComments', () => {
+  it('returns the tree untouched without any criteria', () => {
+    const result = run({});
+    expect(result.comments).toBe(comments);
+    expect(result.matchedIds.size).toBe(0);
+  });
+
+  it('keeps the ancestor chain of matches as context', () => {
+    const result = run({ query: 'crash' });
+    expect(ids(result.comments)).toEqual(['c1', 'c2', 'c3', 'c4']);
+    expect([...result.matchedIds]).toEqual(['c3', 'c4']);
+  });
+
+  it('requires every keyword to appear', () => {
+    expect([...run({ query: 'crash bug' }).matchedIds]).toEqual(['c3']);
+  });
+
+  it('matches regular expressions case-insensitively', () => {
+    expect([...run({ query: '^(intro|crash)', regex: true }).matchedIds]).toEqual(['c1', 'c4']);
+  });
+
+  it('filters by author lists, score, date and OP', () => {
+    expect([...run({ includeAuthors: ['BOB', 'dave'] }).matchedIds]).toEqual(['c2', 'c4']);
+    expect([...run({ excludeAuthors: ['op_user', 'bob'] }).matchedIds]).toEqual(['c3', 'c4']);
+    expect([...run({ minScore: 5, maxScore: 20 }).matchedIds]).toEqual(['c2', 'c4']);
+    expect([...run({ from: 1700001000, to: 1700002000 }).matchedIds]).toEqual(['c3', 'c2']);
+    expect(ids(run({ opOnly: true }).comments)).toEqual(['c1']);
+  });
+
+  it('filters by sentiment label and toxicity', () => {
+    const scored = parseComments([
+      makeComment({ id: 'p1', body: 'I love this, great work' }),
+      makeComment({ id: 'n1', body: 'Terrible and broken' }),
+      makeComment({ id: 't1', body: 'what an idiot' })
+    ], 'flag');
+    expect([...filterComments(scored, { ...EMPTY_FILTER, sentiment: 'positive' }).matchedIds]).toEqual(['p1']);
+    expect([...filterComments(scored, { ...EMPTY_FILTER, sentiment: 'negative' }).matchedIds]).toEqual(['n1']);
+    expect([...filterComments(scored, { ...EMPTY_FILTER, toxicOnly: true }).matchedIds]).toEqual(['t1']);
+  });
+
+  it('matches terms picked from the word frequency table', () => {
+    expect([...run({ term: { text: 'crash', n: 1 } }).matchedIds]).toEqual(['c3', 'c4']);
+    expect([...run({ term: { text: 'crash bug', n: 2 } }).matchedIds]).toEqual(['c3']);
+    const pattern = getHighlightPattern({ ...EMPTY_FILTER, term: { text: 'crash bug', n: 2 } });
+    expect(splitHighlights('a Crash  bug', pattern).filter(part => part.match).map(part => part.text)).toEqual(['Crash  bug']);
+  });
+
+  it('drops comments below the maximum depth', () => {
+    const result = run({ query: 'crash', maxDepth: 1 });
+    expect(ids(result.comments)).toEqual(['c4']);
+  });
+});
+
+describe('query helpers', () => {
+  it('reports invalid regular expressions instead of throwing', () => {
+    const filter = { ...EMPTY_FILTER, query: '(unclosed', regex: true };
+    expect(getFilterError(filter)).toContain('无效的正则表达式');
+    expect(getHighlightPattern(filter)).toBeNull();
+    expect(filterComments(comments, filter).matchedIds.size).toBe(4);
+  });
+
+  it('splits text into highlighted parts', () => {
+    const pattern = getHighlightPattern({ ...EMPTY_FILTER, query: 'crash a.' });
+    expect(splitHighlights('Found a Crash', pattern)).toEqual([
+      { text: 'Found a ', match: false },
+      { text: 'Crash', match: true }
+    ]);
+    expect(splitHighlights('a. crash', pattern).filter(part => part.match).map(part => part.text)).toEqual(['a.', 'crash']);
+  });
+
+  it('parses author lists', () => {
+    expect(parseAuthorList('u/Bob, /u/carol，dave  eve')).toEqual(['bob', 'carol', 'dave', 'eve']);
+  });
+});
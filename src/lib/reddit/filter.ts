@@ -0,0 +1,182 @@
+import { containsTerm, NgramSize } from '@/lib/analysis/text';
+import { ParsedComment, SentimentLabel } from './types';
+
+// 评论树筛选：命中的评论连同其祖先链一起保留，以免丢失上下文
+
+export interface CommentFilter {
+  query: string;
+  // query 按正则表达式匹配，否则按空格拆分为关键词，全部出现才算命中
+  regex: boolean;
+  includeAuthors: string[];
+  excludeAuthors: string[];
+  minScore: number | null;
+  maxScore: number | null;
+  // Unix 秒，包含两端
+  from: number | null;
+  to: number | null;
+  // 超过该层级的评论直接去掉，不参与匹配
+  maxDepth: number | null;
+  opOnly: boolean;
+  sentiment: SentimentLabel | null;
+  toxicOnly: boolean;
+  // 在词频统计中点选的词或短语
+  term: { text: string; n: NgramSize } | null;
+}
+
+export const EMPTY_FILTER: CommentFilter = {
+  query: '',
+  regex: false,
+  includeAuthors: [],
+  excludeAuthors: [],
+  minScore: null,
+  maxScore: null,
+  from: null,
+  to: null,
+  maxDepth: null,
+  opOnly: false,
+  sentiment: null,
+  toxicOnly: false,
+  term: null
+};
+
+export interface FilterResult {
+  comments: ParsedComment[];
+  // 命中筛选条件的评论，其余保留的评论只是上下文
+  matchedIds: Set<string>;
+}
+
+export const isFilterActive = (filter: CommentFilter) =>
+  !!filter.query.trim() ||
+  filter.includeAuthors.length > 0 ||
+  filter.excludeAuthors.length > 0 ||
+  filter.minScore !== null ||
+  filter.maxScore !== null ||
+  filter.from !== null ||
+  filter.to !== null ||
+  filter.maxDepth !== null ||
+  filter.opOnly ||
+  filter.sentiment !== null ||
+  filter.toxicOnly ||
+  filter.term !== null;
+
+// 作者列表以逗号或空白分隔，忽略 u/ 前缀和大小写
+export const parseAuthorList = (text: string) =>
+  text
+    .split(/[\s,，]+/)
+    .map(author => author.replace(/^\/?u\//i, '').toLowerCase())
+    .filter(Boolean);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getKeywords = (query: string) => query.trim().split(/\s+/).filter(Boolean);
+
+// 正则无效时返回错误信息
+export const getFilterError = (filter: CommentFilter): string | null => {
+  if (!filter.regex || !filter.query.trim()) {
+    return null;
+  }
+  try {
+    new RegExp(filter.query, 'iu');
+    return null;
+  } catch (error) {
+    return `无效的正则表达式: ${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+// 用于高亮的全局匹配模式，没有搜索词和选中的词、或正则无效时返回 null
+export const getHighlightPattern = (filter: CommentFilter): RegExp | null => {
+  const sources: string[] = [];
+  if (filter.query.trim() && !getFilterError(filter)) {
+    sources.push(filter.regex ? `(?:${filter.query})` : getKeywords(filter.query).map(escapeRegExp).join('|'));
+  }
+  if (filter.term) {
+    // 统计时连续空白被合并为一个空格
+    sources.push(escapeRegExp(filter.term.text).replace(/ /g, '\\s+'));
+  }
+  return sources.length > 0 ? new RegExp(sources.join('|'), 'giu') : null;
+};
+
+// 把文本切分为普通片段和命中片段
+export const splitHighlights = (text: string, pattern: RegExp | null) => {
+  if (!pattern) {
+    return [{ text, match: false }];
+  }
+  const parts: { text: string; match: boolean }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g'))) {
+    // 空匹配 (例如 a*) 不高亮
+    if (!match[0]) {
+      continue;
+    }
+    if (match.index > last) {
+      parts.push({ text: text.slice(last, match.index), match: false });
+    }
+    parts.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) {
+    parts.push({ text: text.slice(last), match: false });
+  }
+  return parts;
+};
+
+const createTextMatcher = (filter: CommentFilter): ((body: string) => boolean) => {
+  if (!filter.query.trim() || getFilterError(filter)) {
+    return () => true;
+  }
+  if (filter.regex) {
+    const pattern = new RegExp(filter.query, 'iu');
+    return body => pattern.test(body);
+  }
+  const keywords = getKeywords(filter.query).map(keyword => keyword.toLowerCase());
+  return body => {
+    const text = body.toLowerCase();
+    return keywords.every(keyword => text.includes(keyword));
+  };
+};
+
+export const createCommentMatcher = (filter: CommentFilter) => {
+  const matchesText = createTextMatcher(filter);
+  const include = new Set(filter.includeAuthors.map(author => author.toLowerCase()));
+  const exclude = new Set(filter.excludeAuthors.map(author => author.toLowerCase()));
+
+  return (comment: ParsedComment) => {
+    const author = comment.author.toLowerCase();
+    return (include.size === 0 || include.has(author)) &&
+      !exclude.has(author) &&
+      (filter.minScore === null || comment.score >= filter.minScore) &&
+      (filter.maxScore === null || comment.score <= filter.maxScore) &&
+      (filter.from === null || comment.created_utc >= filter.from) &&
+      (filter.to === null || comment.created_utc <= filter.to) &&
+      (!filter.opOnly || comment.is_submitter) &&
+      (filter.sentiment === null || comment.sentiment.label === filter.sentiment) &&
+      (!filter.toxicOnly || comment.sentiment.toxic) &&
+      (!filter.term || containsTerm(comment.body, filter.term.text, filter.term.n)) &&
+      matchesText(comment.body);
+  };
+};
+
+// 保留命中的评论、它们的祖先和命中评论的子树中同样命中的部分
+export const filterComments = (comments: ParsedComment[], filter: CommentFilter): FilterResult => {
+  const matchedIds = new Set<string>();
+  if (!isFilterActive(filter)) {
+    return { comments, matchedIds };
+  }
+
+  const matches = createCommentMatcher(filter);
+
+  const visit = (nodes: ParsedComment[]): ParsedComment[] =>
+    nodes.flatMap(comment => {
+      if (filter.maxDepth !== null && comment.depth > filter.maxDepth) {
+        return [];
+      }
+      const replies = visit(comment.replies);
+      const matched = matches(comment);
+      if (matched) {
+        matchedIds.add(comment.id);
+      }
+      return matched || replies.length > 0 ? [{ ...comment, replies }] : [];
+    });
+
+  return { comments: visit(comments), matchedIds };
+};
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonResponse, makeComment, makeListingPage, makeSubmission, makeThread, makeUserComment } from './__fixtures__/factories';
+import { FetchReddit } from './client';
+import { CancelledError } from './errors';
+import { crawlListing } from './listing';
+import { CrawlLimits, DEFAULT_CRAWL_LIMITS, DEFAULT_UPSTREAM_PARAMS, RedditListingRef } from './url';
+
+const options = { deletedMode: 'placeholder' as const, maxMoreRequests: 10, upstream: DEFAULT_UPSTREAM_PARAMS };
+const subreddit: RedditListingRef = { type: 'subreddit', subreddit: 'test', sort: 'new', time: null };
+const user: RedditListingRef = { type: 'user', username: 'alice' };
+
+const limits = (overrides: Partial<CrawlLimits> = {}): CrawlLimits => ({ ...DEFAULT_CRAWL_LIMITS, ...overrides });
+
+const post = (id: string, created_utc = 1700000000) =>
+  makeSubmission({ id, name: `t3_${id}`, title: `Post ${id}`, permalink: `/r/test/comments/${id}/post/`, created_utc });
+
+// 按 after 游标返回对应的页
+const pagedFetcher = (pages: Record<string, unknown>) =>
+  vi.fn<FetchReddit>(async url => {
+    const after = new URL(url).searchParams.get('after') ?? '';
+    if (!(after in pages)) {
+      return new Response('', { status: 500, statusText: 'Internal Server Error' });
+    }
+    return jsonResponse(pages[after]);
+  });
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('crawlListing', () => {
+  it('follows the after cursor until the listing is exhausted', async () => {
+    const fetchReddit = pagedFetcher({
+      '': makeListingPage([post('p1'), post('p2')], 't3_p2'),
+      t3_p2: makeListingPage([post('p3')])
+    });
+    const onProgress = vi.fn();
+
+    const result = await crawlListing(subreddit, limits(), options, fetchReddit, onProgress);
+
+    expect(fetchReddit.mock.calls.map(([url]) => url)).toEqual([
+      'https://www.reddit.com/r/test/new.json?limit=100',
+      'https://www.reddit.com/r/test/new.json?limit=98&after=t3_p2'
+    ]);
+    expect(result.threads.map(thread => thread.post?.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(result).toMatchObject({ items: 3, pages: 2, after: null, stopReason: 'exhausted', errors: [] });
+    expect(onProgress).toHaveBeenCalledWith({ type: 'page', page: 2, items: 3, after: null });
+  });
+
+  it('stops at maxItems and continues after the last collected item', async () => {
+    const fetchReddit = pagedFetcher({ '': makeListingPage([post('p1'), post('p2'), post('p3')], 't3_p3') });
+
+    const result = await crawlListing(subreddit, limits({ maxItems: 2 }), options, fetchReddit);
+
+    expect(fetchReddit).toHaveBeenCalledWith('https://www.reddit.com/r/test/new.json?limit=2');
+    expect(result.threads).toHaveLength(2);
+    expect(result).toMatchObject({ items: 2, stopReason: 'max_items', after: 't3_p2' });
+  });
+
+  it('does not count dropped deleted comments towards maxItems', async () => {
+    const fetchReddit = pagedFetcher({
+      '': makeListingPage([
+        makeUserComment({ id: 'c1', author: '[deleted]', body: '[deleted]' }),
+        makeUserComment({ id: 'c2' }),
+        makeUserComment({ id: 'c3' }),
+        makeUserComment({ id: 'c4' })
+      ], 't1_c4')
+    });
+
+    const result = await crawlListing(user, limits({ maxItems: 2 }), { ...options, deletedMode: 'drop' }, fetchReddit);
+
+    expect(result.threads[0].comments.map(comment => comment.id)).toEqual(['c2', 'c3']);
+    expect(result).toMatchObject({ items: 2, stopReason: 'max_items', after: 't1_c3' });
+  });
+
+  it('stops at maxPages', async () => {
+    const fetchReddit = pagedFetcher({
+      '': makeListingPage([post('p1')], 't3_p1'),
+      t3_p1: makeListingPage([post('p2')], 't3_p2')
+    });
+
+    const result = await crawlListing(subreddit, limits({ maxPages: 1 }), options, fetchReddit);
+
+    expect(fetchReddit).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ pages: 1, stopReason: 'max_pages', after: 't3_p1' });
+  });
+
+  it('stops a chronological listing at the since bound and skips items after until', async () => {
+    const fetchReddit = pagedFetcher({
+      '': makeListingPage([post('p1', 400), post('p2', 300), post('p3', 100), post('p4', 50)], 't3_p4')
+    });
+
+    const result = await crawlListing(subreddit, limits({ since: 200, until: 350 }), options, fetchReddit);
+
+    expect(result.threads.map(thread => thread.post?.id)).toEqual(['p2']);
+    expect(result.stopReason).toBe('since');
+  });
+
+  it('only filters by date for top listings', async () => {
+    const top: RedditListingRef = { type: 'subreddit', subreddit: 'test', sort: 'top', time: 'week' };
+    const fetchReddit = pagedFetcher({ '': makeListingPage([post('p1', 100), post('p2', 300)]) });
+
+    const result = await crawlListing(top, limits({ since: 200 }), options, fetchReddit);
+
+    expect(fetchReddit).toHaveBeenCalledWith('https://www.reddit.com/r/test/top.json?limit=100&t=week');
+    expect(result.threads.map(thread => thread.post?.id)).toEqual(['p2']);
+    expect(result.stopReason).toBe('exhausted');
+  });
+
+  it('groups user comments by the post they belong to', async () => {
+    const fetchReddit = pagedFetcher({
+      '': makeListingPage([
+        makeUserComment({ id: 'c1', link_id: 't3_p1' }),
+        makeUserComment({ id: 'c2', link_id: 't3_p2' }),
+        makeUserComment({ id: 'c3', link_id: 't3_p1' })
+      ])
+    });
+
+    const result = await crawlListing(user, limits(), options, fetchReddit);
+
+    expect(fetchReddit).toHaveBeenCalledWith('https://www.reddit.com/user/alice/comments.json?limit=100');
+    expect(result.items).toBe(3);
+    expect(result.threads.map(thread => [thread.post?.id, thread.comments.map(comment => comment.id)])).toEqual([
+      ['p1', ['c1', 'c3']],
+      ['p2', ['c2']]
+    ]);
+    expect(result.threads[0].post).toMatchObject({ title: 'Post t3_p1', permalink: 'https://www.reddit.com/r/test/comments/p1/post/' });
+    expect(result.threads[0].more).not.toBe(result.threads[1].more);
+  });
+
+  it('fetches the comment tree of each post when requested', async () => {
+    const fetchReddit = vi.fn<FetchReddit>(async url => {
+      if (url.includes('/comments/p1')) {
+        return jsonResponse(makeThread([makeComment({ id: 'c1', parent_id: 't3_p1' })], post('p1')));
+      }
+      if (url.includes('/comments/p2')) {
+        return new Response('', { status: 404, statusText: 'Not Found' });
+      }
+      return jsonResponse(makeListingPage([post('p1'), post('p2')]));
+    });
+    const onProgress = vi.fn();
+
+    const result = await crawlListing(subreddit, limits({ includeComments: true }), options, fetchReddit, onProgress);
+
+    expect(result.threads.map(thread => thread.comments.map(comment => comment.id))).toEqual([['c1'], []]);
+    expect(result.threads[1].post?.id).toBe('p2');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('p2');
+    expect(onProgress).toHaveBeenCalledWith({ type: 'thread', index: 2, total: 2, postId: 'p2' });
+  });
+
+  it('keeps collected items when a later page fails', async () => {
+    const fetchReddit = pagedFetcher({ '': makeListingPage([post('p1')], 't3_p1') });
+
+    const result = await crawlListing(subreddit, limits(), options, fetchReddit);
+
+    expect(result.threads).toHaveLength(1);
+    expect(result).toMatchObject({ stopReason: 'error', after: 't3_p1' });
+    expect(result.errors[0]).toContain('第 2 页');
+  });
+
+  it('throws when the first page fails or the crawl is cancelled', async () => {
+    await expect(crawlListing(subreddit, limits(), options, pagedFetcher({}))).rejects.toThrow();
+
+    const cancelled = vi.fn<FetchReddit>(async url => {
+      if (url.includes('after=')) {
+        throw new CancelledError();
+      }
+      return jsonResponse(makeListingPage([post('p1')], 't3_p1'));
+    });
+    await expect(crawlListing(subreddit, limits(), options, cancelled)).rejects.toBeInstanceOf(CancelledError);
+  });
+});
@@ -0,0 +1,182 @@
+import { FetchReddit } from './client';
+import { CancelledError, RedditHttpError } from './errors';
+import { ExtractOptions, ExtractResult, extractThread } from './extract';
+import { parseComments, parsePost } from './parse';
+import { ExtractionError, ProgressListener } from './progress';
+import { RedditLogger } from './transport';
+import { ParsedPost, RedditListing, RedditSubmission, RedditUserComment } from './types';
+import { buildListingUrl, CrawlLimits, RedditListingRef } from './url';
+
+// 版块帖子列表和用户评论列表的分页抓取
+// 结果按帖子分组为 ExtractResult，与单个提取和批量提取共用页面和导出
+
+// Reddit 列表接口每页最多 100 条
+const PAGE_SIZE = 100;
+
+export type CrawlStopReason = 'exhausted' | 'max_items' | 'max_pages' | 'since' | 'error';
+
+export interface CrawlResult {
+  listing: RedditListingRef;
+  threads: ExtractResult[];
+  // 收集到的帖子数 (版块) 或评论数 (用户)
+  items: number;
+  pages: number;
+  // 下一页的游标，列表已读完时为 null
+  after: string | null;
+  stopReason: CrawlStopReason;
+  // 读取列表或获取评论树时的错误，不影响已收集的内容
+  errors: string[];
+}
+
+type ListingChild = RedditSubmission | RedditUserComment;
+
+// 每个帖子单独一份统计，避免后续修改互相影响
+const emptyMore = () => ({ resolved: 0, unresolved: 0, requests: 0 });
+
+// 用户评论列表只包含帖子的标题和链接，分数和时间等字段未知
+const toPostStub = ({ data }: RedditUserComment): ParsedPost => ({
+  id: data.link_id.replace(/^t3_/, ''),
+  title: data.link_title,
+  subreddit: data.subreddit,
+  author: data.link_author,
+  selftext: '',
+  url: data.link_permalink,
+  permalink: data.link_permalink,
+  score: 0,
+  upvote_ratio: 0,
+  num_comments: data.num_comments ?? 0,
+  flair: null,
+  created_utc: 0
+});
+
+// 按时间倒序排列的列表可以在读到早于 since 的内容时提前停止
+const isChronological = (listing: RedditListingRef) => listing.type === 'user' || listing.sort === 'new';
+
+const fetchPage = async (url: string, fetchReddit: FetchReddit) => {
+  const response = await fetchReddit(url);
+  if (!response.ok) {
+    throw new RedditHttpError(response.status, response.statusText);
+  }
+  const data: RedditListing<ListingChild> = await response.json();
+  if (data?.kind !== 'Listing' || !Array.isArray(data.data?.children)) {
+    throw new Error('无效的Reddit数据格式');
+  }
+  return data.data;
+};
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// 沿 after 游标逐页读取，直到满足任一停止条件
+// 第一页就失败时抛出；之后的错误记录在 errors 中并返回已收集的内容
+export async function crawlListing(
+  listing: RedditListingRef,
+  limits: CrawlLimits,
+  options: ExtractOptions,
+  fetchReddit: FetchReddit,
+  onProgress?: ProgressListener,
+  logger: RedditLogger = console
+): Promise<CrawlResult> {
+  const threads = new Map<string, ExtractResult>();
+  const errors: string[] = [];
+  let items = 0;
+  let pages = 0;
+  let after: string | null = null;
+  let stopReason: CrawlStopReason | null = null;
+
+  // 返回该条目是否被收集，已删除评论按 deletedMode 丢弃时不计入 items
+  const collect = (child: ListingChild) => {
+    if (child.kind === 't3') {
+      const post = parsePost(child);
+      threads.set(post.id, { post, comments: [], more: emptyMore(), upstream: options.upstream });
+      return true;
+    }
+    const comments = parseComments([child], options.deletedMode);
+    if (comments.length === 0) {
+      return false;
+    }
+    const stub = toPostStub(child);
+    const thread = threads.get(stub.id) ?? { post: stub, comments: [], more: emptyMore(), upstream: options.upstream };
+    thread.comments.push(...comments);
+    threads.set(stub.id, thread);
+    return true;
+  };
+
+  while (stopReason === null) {
+    if (pages >= limits.maxPages) {
+      stopReason = 'max_pages';
+      break;
+    }
+
+    let page: RedditListing<ListingChild>['data'];
+    try {
+      page = await fetchPage(buildListingUrl(listing, Math.min(PAGE_SIZE, limits.maxItems - items), after), fetchReddit);
+    } catch (error) {
+      if (pages === 0 || error instanceof CancelledError) {
+        throw error;
+      }
+      errors.push(`读取第 ${pages + 1} 页失败: ${describeError(error)}`);
+      stopReason = 'error';
+      break;
+    }
+
+    pages++;
+    after = page.after ?? null;
+
+    for (const child of page.children) {
+      if (child.kind !== 't3' && child.kind !== 't1') {
+        continue;
+      }
+      const created = child.data.created_utc;
+      if (limits.until !== null && created > limits.until) {
+        continue;
+      }
+      if (limits.since !== null && created < limits.since) {
+        if (isChronological(listing)) {
+          stopReason = 'since';
+          break;
+        }
+        continue;
+      }
+      if (!collect(child)) {
+        continue;
+      }
+      if (++items >= limits.maxItems) {
+        // 从最后收集的条目之后继续，页内剩余的条目不会被跳过
+        after = `${child.kind}_${child.data.id}`;
+        stopReason = 'max_items';
+        break;
+      }
+    }
+
+    onProgress?.({ type: 'page', page: pages, items, after });
+
+    if (stopReason === null && !after) {
+      stopReason = 'exhausted';
+    }
+  }
+
+  // 版块列表按需获取每个帖子的评论树，单个帖子失败时保留帖子信息
+  if (listing.type === 'subreddit' && limits.includeComments) {
+    const posts = [...threads.values()];
+    for (const [index, thread] of posts.entries()) {
+      const post = thread.post!;
+      onProgress?.({ type: 'thread', index: index + 1, total: posts.length, postId: post.id });
+      try {
+        const result = await extractThread({ subreddit: post.subreddit, postId: post.id }, options, fetchReddit, undefined, logger);
+        threads.set(post.id, { ...result, post: result.post ?? post });
+      } catch (error) {
+        const cause = error instanceof ExtractionError ? error.cause : error;
+        if (cause instanceof CancelledError) {
+          throw cause;
+        }
+        // 展开折叠评论时失败，保留已经获取的部分
+        if (error instanceof ExtractionError) {
+          threads.set(post.id, { ...error.partial, post: error.partial.post ?? post });
+        }
+        errors.push(`${post.id} 的评论获取失败: ${describeError(cause)}`);
+      }
+    }
+  }
+
+  return { listing, threads: [...threads.values()], items, pages, after: stopReason === 'exhausted' ? null : after, stopReason, errors };
+}
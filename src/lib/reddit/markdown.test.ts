@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, parseInline, parseMarkdown, sanitizeHref, toPlainText } from './markdown';
+
+describe('sanitizeHref', () => {
+  it('allows web and mail links and resolves reddit paths', () => {
+    expect(sanitizeHref('https://example.com/a?b=1')).toBe('https://example.com/a?b=1');
+    expect(sanitizeHref('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(sanitizeHref('/r/typescript/wiki')).toBe('https://www.reddit.com/r/typescript/wiki');
+    expect(sanitizeHref('u/alice')).toBe('https://www.reddit.com/u/alice');
+    expect(sanitizeHref('www.example.com')).toBe('https://www.example.com');
+  });
+
+  it('rejects script, data and protocol-relative links', () => {
+    expect(sanitizeHref('javascript:alert(1)')).toBeNull();
+    expect(sanitizeHref(' JavaScript:alert(1)')).toBeNull();
+    expect(sanitizeHref('data:text/html,<script>')).toBeNull();
+    expect(sanitizeHref('//evil.example')).toBeNull();
+    expect(sanitizeHref('not a url')).toBeNull();
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes the entities reddit escapes', () => {
+    expect(decodeEntities('&gt; a &amp;lt; b &#x200B;&#39;')).toBe('> a &lt; b ​\'');
+    expect(decodeEntities('&unknown;')).toBe('&unknown;');
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses quotes, including escaped ones and lazy continuation lines', () => {
+    expect(parseMarkdown('&gt; quoted\nstill quoted\n\nreply')).toEqual([
+      { type: 'quote', children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted still quoted' }] }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'reply' }] }
+    ]);
+  });
+
+  it('keeps fenced and indented code verbatim', () => {
+    expect(parseMarkdown('```\nconst a = **1**;\n```\n\n    indented\n      more')).toEqual([
+      { type: 'code', text: 'const a = **1**;' },
+      { type: 'code', text: 'indented\n  more' }
+    ]);
+  });
+
+  it('parses tables with alignment and pads short rows', () => {
+    const [table] = parseMarkdown('| Name | Score |\n|:--|--:|\n| a | 1 |\n| b |');
+    expect(table).toEqual({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[{ type: 'text', text: 'Name' }], [{ type: 'text', text: 'Score' }]],
+      rows: [
+        [[{ type: 'text', text: 'a' }], [{ type: 'text', text: '1' }]],
+        [[{ type: 'text', text: 'b' }], []]
+      ]
+    });
+  });
+
+  it('parses nested and ordered lists', () => {
+    const [list] = parseMarkdown('3. first\n   - nested\n4. second');
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    expect(list.type === 'list' && list.items[0][1]).toMatchObject({ type: 'list', ordered: false });
+    expect(list.type === 'list' && list.items).toHaveLength(2);
+  });
+
+  it('parses headings and rules but not hashtags', () => {
+    expect(parseMarkdown('## Title ##\n***\n#hashtag').map(block => block.type)).toEqual(['heading', 'rule', 'paragraph']);
+  });
+
+  it('treats a spoiler at the start of a line as a paragraph, not a quote', () => {
+    expect(parseMarkdown('>!ending!<')).toEqual([
+      { type: 'paragraph', children: [{ type: 'spoiler', children: [{ type: 'text', text: 'ending' }] }] }
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('parses emphasis, strikethrough and superscript', () => {
+    expect(parseInline('**bold** *em* ~~gone~~ ^(two words) ^up')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' ' },
+      { type: 'del', children: [{ type: 'text', text: 'gone' }] },
+      { type: 'text', text: ' ' },
+      { type: 'sup', children: [{ type: 'text', text: 'two words' }] },
+      { type: 'text', text: ' ' },
+      { type: 'sup', children: [{ type: 'text', text: 'up' }] }
+    ]);
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+  });
+
+  it('does not parse markdown inside inline code or after a backslash', () => {
+    expect(parseInline('`*x*` \\*y\\*')).toEqual([{ type: 'code', text: '*x*' }, { type: 'text', text: ' *y*' }]);
+  });
+
+  it('parses links and drops unsafe targets to plain text', () => {
+    expect(parseInline('[docs](https://example.com/wiki_(x)) [bad](javascript:alert(1))')).toEqual([
+      { type: 'link', href: 'https://example.com/wiki_(x)', children: [{ type: 'text', text: 'docs' }] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'bad' }
+    ]);
+  });
+
+  it('links bare urls without trailing punctuation', () => {
+    expect(parseInline('see https://example.com/a.')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '.' }
+    ]);
+  });
+
+  it('links user and subreddit mentions only at word boundaries', () => {
+    expect(parseInline('ask u/alice in /r/typescript, not our/rules')).toEqual([
+      { type: 'text', text: 'ask ' },
+      { type: 'mention', kind: 'u', name: 'alice', href: 'https://www.reddit.com/user/alice' },
+      { type: 'text', text: ' in ' },
+      { type: 'mention', kind: 'r', name: 'typescript', href: 'https://www.reddit.com/r/typescript' },
+      { type: 'text', text: ', not our/rules' }
+    ]);
+  });
+
+  it('joins soft line breaks and keeps hard ones', () => {
+    expect(parseInline('one\ntwo  \nthree')).toEqual([
+      { type: 'text', text: 'one two' },
+      { type: 'break' },
+      { type: 'text', text: 'three' }
+    ]);
+  });
+
+  it('never produces html from raw tags', () => {
+    expect(parseInline('<script>alert(1)</script>')).toEqual([{ type: 'text', text: '<script>alert(1)</script>' }]);
+  });
+});
+
+describe('toPlainText', () => {
+  it('strips markup but keeps text, link targets and list structure', () => {
+    const source = '# Title\n\n&gt; **quoted** text\n\n- [docs](https://example.com) for u/alice\n- >!secret!< ^(tiny)\n\n---\n\n| a | b |\n|---|---|\n| 1 | 2 |';
+    expect(toPlainText(source)).toBe('Title\n\nquoted text\n\n• docs (https://example.com) for u/alice\n• secret tiny\n\na\tb\n1\t2');
+  });
+
+  it('does not repeat a link whose text is its own address', () => {
+    expect(toPlainText('<https://example.com> and www.example.com')).toBe('https://example.com and www.example.com');
+  });
+});
@@ -0,0 +1,423 @@
+// Reddit 风格的 Markdown：解析为语法树，页面按节点渲染 (不解释原始 HTML)，导出时可以转换为去掉标记的纯文本
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del' | 'sup' | 'spoiler'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  // href 已经过 sanitizeHref，不安全的链接解析时退化为文字
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; kind: 'u' | 'r'; name: string; href: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'code'; text: string }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+const REDDIT_ORIGIN = 'https://www.reddit.com';
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// 只允许 http(s) 和 mailto 链接，站内相对路径补全为 reddit.com，其余 (javascript:、data: 等) 返回 null
+export const sanitizeHref = (href: string): string | null => {
+  const value = href.trim();
+  if (/^\/?(?:r|u|user)\//i.test(value)) {
+    return `${REDDIT_ORIGIN}/${value.replace(/^\//, '')}`;
+  }
+  if (value.startsWith('/') && !value.startsWith('//')) {
+    return REDDIT_ORIGIN + value;
+  }
+  if (/^www\./i.test(value)) {
+    return `https://${value}`;
+  }
+  try {
+    const url = new URL(value);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+
+// 未加 raw_json=1 的接口会把 &、<、> 转义为实体，Markdown 本身也允许实体
+export const decodeEntities = (text: string) =>
+  text.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));/gi, (entity, decimal, hex, name) => {
+    if (name) {
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    }
+    const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+  });
+
+// 块级语法
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*)|[ \t]*)$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+// 行首的 >! 是剧透，不是引用
+const QUOTE = /^ {0,3}>(?!!)/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const isBlank = (line: string) => !line.trim();
+
+const getIndent = (line: string) => line.length - line.trimStart().length;
+
+const isTableStart = (lines: string[], index: number) =>
+  index + 1 < lines.length && lines[index].includes('|') && lines[index + 1].includes('|') && TABLE_DELIMITER.test(lines[index + 1]);
+
+// 能打断段落的块：段落遇到这些行时结束
+const startsBlock = (lines: string[], index: number) => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+// 按未转义的 | 拆分表格行，去掉两端的 |
+const splitTableRow = (line: string) => {
+  const cells: string[] = [];
+  let current = '';
+  const row = line.trim().replace(/^\|/, '');
+  for (let index = 0; index < row.length; index++) {
+    if (row[index] === '\\' && row[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (row[index] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[index];
+    }
+  }
+  if (current.trim() || !line.trim().endsWith('|')) {
+    cells.push(current.trim());
+  }
+  return cells;
+};
+
+const toAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+const removeIndent = (line: string, width: number) => {
+  let index = 0;
+  while (index < width && line[index] === ' ') {
+    index++;
+  }
+  return index === 0 && line.startsWith('\t') ? line.slice(1) : line.slice(index);
+};
+
+const parseBlocks = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index++]);
+      }
+      index++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = [];
+      while (index < lines.length && (INDENTED_CODE.test(lines[index]) || isBlank(lines[index]))) {
+        code.push(removeIndent(lines[index++], 4));
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) {
+        code.pop();
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const text = (heading[2] ?? '').replace(/[ \t]+#+[ \t]*$/, '').trim();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(text) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      // 引用内的段落可以省略后续行的 >
+      while (index < lines.length && (QUOTE.test(lines[index])
+        || (!isBlank(lines[index]) && quoted.length > 0 && !isBlank(quoted[quoted.length - 1]) && !startsBlock(lines, index)))) {
+        quoted.push(lines[index++].replace(/^ {0,3}> ?/, ''));
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      let current = [line.slice(item[0].length)];
+      const contentIndent = item[0].length;
+      index++;
+
+      while (index < lines.length) {
+        const next = lines[index];
+        const sibling = LIST_ITEM.exec(next);
+        if (isBlank(next)) {
+          // 空行之后缩进的内容仍属于当前项，同类列表项继续当前列表
+          let ahead = index + 1;
+          while (ahead < lines.length && isBlank(lines[ahead])) {
+            ahead++;
+          }
+          const following = ahead < lines.length ? lines[ahead] : '';
+          const followingItem = LIST_ITEM.exec(following);
+          const continues = following && (getIndent(following) >= contentIndent
+            || (followingItem && getIndent(following) < contentIndent && /\d/.test(followingItem[2]) === ordered));
+          if (!continues) {
+            break;
+          }
+          current.push('');
+          index++;
+        } else if (sibling && getIndent(next) < contentIndent) {
+          if (/\d/.test(sibling[2]) !== ordered) {
+            break;
+          }
+          items.push(current);
+          current = [next.slice(sibling[0].length)];
+          index++;
+        } else if (getIndent(next) >= 2) {
+          current.push(removeIndent(next, contentIndent));
+          index++;
+        } else if (!isBlank(current[current.length - 1]) && !startsBlock(lines, index)) {
+          current.push(next);
+          index++;
+        } else {
+          break;
+        }
+      }
+      items.push(current);
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(item[2], 10) : 1,
+        items: items.map(parseBlocks)
+      });
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]).map(toAlign);
+      const rows: InlineNode[][][] = [];
+      index += 2;
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        const cells = splitTableRow(lines[index++]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+      }
+      blocks.push({
+        type: 'table',
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map(parseInline),
+        rows
+      });
+      continue;
+    }
+
+    const paragraph = [line];
+    index++;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines, index)) {
+      paragraph.push(lines[index++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+// 行内语法
+
+const ESCAPABLE = '\\`*_{}[]()#+-.!>~^|';
+const TRIGGERS = new Set(['\\', '`', '*', '_', '~', '^', '>', '[', '<', '\n', 'h', 'w', 'u', 'r', '/']);
+
+const LINK = /^\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?((?:[^()\s<>]|\([^()\s]*\))*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^>\s]+)>/i;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?*_~]/i;
+const MENTION = /^\/?(u|r)\/([a-z0-9_-]{2,21})(?![a-z0-9_-])/i;
+const CODE = /^(`+)([\s\S]*?[^`])\1(?!`)/;
+const STRONG_EM = /^\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/;
+const STRONG = /^(?:\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__(?![a-z0-9]))/i;
+const EM = /^(?:\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)|_(?=[^\s_])([\s\S]*?[^\s_])_(?![a-z0-9]))/i;
+const DEL = /^~~(?=\S)([\s\S]*?\S)~~/;
+const SPOILER = /^>!(?=\S)([\s\S]*?\S)!</;
+const SUPERSCRIPT = /^\^(?:\(([^)]*)\)|([^\s^]+))/;
+
+const isWordChar = (char: string | undefined) => !!char && /[a-z0-9_]/i.test(char);
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (!TRIGGERS.has(char)) {
+      buffer += char;
+      index++;
+      continue;
+    }
+
+    const rest = text.slice(index);
+    const previous = index > 0 ? text[index - 1] : undefined;
+    let match: RegExpExecArray | null;
+
+    if (char === '\\' && rest[1] && ESCAPABLE.includes(rest[1])) {
+      buffer += rest[1];
+      index += 2;
+    } else if (char === '\n') {
+      // 行尾两个空格或反斜杠是换行，其余换行按空格处理
+      if (/ {2,}$/.test(buffer) || buffer.endsWith('\\')) {
+        buffer = buffer.replace(/(?: {2,}|\\)$/, '');
+        push({ type: 'break' });
+      } else {
+        buffer = buffer.replace(/ +$/, '') + ' ';
+      }
+      index++;
+    } else if (char === '`' && (match = CODE.exec(rest))) {
+      push({ type: 'code', text: match[2].trim() || match[2] });
+      index += match[0].length;
+    } else if (char === '>' && (match = SPOILER.exec(rest))) {
+      push({ type: 'spoiler', children: parseInline(match[1]) });
+      index += match[0].length;
+    } else if (char === '[' && (match = LINK.exec(rest))) {
+      const href = sanitizeHref(match[2]);
+      const children = parseInline(match[1]);
+      if (href) {
+        push({ type: 'link', href, children });
+      } else {
+        flush();
+        nodes.push(...children);
+      }
+      index += match[0].length;
+    } else if (char === '<' && (match = AUTOLINK.exec(rest))) {
+      push({ type: 'link', href: sanitizeHref(match[1]) ?? match[1], children: [{ type: 'text', text: match[1] }] });
+      index += match[0].length;
+    } else if ((char === 'h' || char === 'w') && !isWordChar(previous) && (match = BARE_URL.exec(rest)) && sanitizeHref(match[0])) {
+      push({ type: 'link', href: sanitizeHref(match[0]) as string, children: [{ type: 'text', text: match[0] }] });
+      index += match[0].length;
+    } else if ((char === 'u' || char === 'r' || char === '/') && !isWordChar(previous) && previous !== '/' && (match = MENTION.exec(rest))) {
+      const kind = match[1].toLowerCase() as 'u' | 'r';
+      push({ type: 'mention', kind, name: match[2], href: `${REDDIT_ORIGIN}/${kind === 'u' ? 'user' : 'r'}/${match[2]}` });
+      index += match[0].length;
+    } else if (char === '*' && (match = STRONG_EM.exec(rest))) {
+      push({ type: 'strong', children: [{ type: 'em', children: parseInline(match[1]) }] });
+      index += match[0].length;
+    } else if ((char === '*' || (char === '_' && !isWordChar(previous))) && (match = STRONG.exec(rest))) {
+      push({ type: 'strong', children: parseInline(match[1] ?? match[2]) });
+      index += match[0].length;
+    } else if ((char === '*' || (char === '_' && !isWordChar(previous))) && (match = EM.exec(rest))) {
+      push({ type: 'em', children: parseInline(match[1] ?? match[2]) });
+      index += match[0].length;
+    } else if (char === '~' && (match = DEL.exec(rest))) {
+      push({ type: 'del', children: parseInline(match[1]) });
+      index += match[0].length;
+    } else if (char === '^' && (match = SUPERSCRIPT.exec(rest))) {
+      push({ type: 'sup', children: parseInline(match[1] ?? match[2]) });
+      index += match[0].length;
+    } else {
+      buffer += char;
+      index++;
+    }
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): BlockNode[] =>
+  parseBlocks(decodeEntities(source).replace(/\r\n?/g, '\n').split('\n'));
+
+// 纯文本
+
+const inlineToText = (nodes: InlineNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+    case 'code':
+      return node.text;
+    case 'break':
+      return '\n';
+    case 'mention':
+      return `${node.kind}/${node.name}`;
+    case 'link': {
+      // 链接文字与地址不同时保留地址
+      const text = inlineToText(node.children);
+      if (!text) {
+        return node.href;
+      }
+      return text === node.href || `https://${text}` === node.href ? text : `${text} (${node.href})`;
+    }
+    default:
+      return inlineToText(node.children);
+  }
+}).join('');
+
+const indent = (text: string, prefix: string) =>
+  text.split('\n').map((line, index) => (index === 0 ? prefix : ' '.repeat(prefix.length)) + line).join('\n');
+
+const blockToText = (block: BlockNode): string => {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return inlineToText(block.children);
+    case 'quote':
+      return blocksToText(block.children);
+    case 'list':
+      return block.items
+        .map((item, index) => indent(blocksToText(item), block.ordered ? `${block.start + index}. ` : '• '))
+        .join('\n');
+    case 'code':
+      return block.text;
+    case 'table':
+      return [block.header, ...block.rows].map(row => row.map(inlineToText).join('\t')).join('\n');
+    case 'rule':
+      return '';
+  }
+};
+
+const blocksToText = (blocks: BlockNode[]) => blocks.map(blockToText).filter(Boolean).join('\n\n');
+
+// 去掉 Markdown 标记，保留文字、链接地址和列表结构
+export const toPlainText = (source: string) => blocksToText(parseMarkdown(source));
@@ -0,0 +1,149 @@
+import { FetchReddit } from './client';
+import { CancelledError, RedditHttpError } from './errors';
+import { countComments, indexComments, parseComments, setDepth } from './parse';
+import { ProgressListener } from './progress';
+import { DeletedMode, MoreChildrenResponse, MoreStats, ParsedComment, RedditMore, RedditThreadResponse } from './types';
+import { RedditLogger } from './transport';
+import { RedditSort } from './url';
+
+// morechildren 接口单次最多接受100个ID
+const MORE_CHILDREN_BATCH = 100;
+
+// 超过一批的占位节点拆成多次请求，拆出的部分沿用原节点的 id；
+// "continue this thread" 节点的 id 都是 "_"，所以同时以父评论区分
+const getPlaceholderKey = (more: RedditMore['data']) => `${more.parent_id}/${more.id}`;
+
+// 展开 "加载更多评论" 节点，并把结果插回评论树
+// 占位节点总是位于兄弟评论的末尾，所以直接追加到父评论的回复列表即可
+// sort 与首次请求一致，展开的评论保持 Reddit 的同一排序
+// 统计写入调用方传入的 stats，取消时调用方仍能拿到已完成的部分
+export async function resolveMoreComments(
+  comments: ParsedComment[],
+  pending: RedditMore['data'][],
+  linkId: string,
+  fetchReddit: FetchReddit,
+  maxRequests: number,
+  deletedMode: DeletedMode,
+  onProgress?: ProgressListener,
+  sort: RedditSort | null = null,
+  logger: RedditLogger = console,
+  stats: MoreStats = { resolved: 0, unresolved: 0, requests: 0 }
+): Promise<MoreStats> {
+  // 统计按占位节点计数，每个节点只计一次；maxRequests 限制的是实际发出的请求数
+  const requested = new Set<string>();
+  const failed = new Set<string>();
+  let sent = 0;
+  const index = indexComments(comments);
+  const postId = linkId.replace(/^t3_/, '');
+
+  // 剩余的节点中，已经失败过的不重复计数
+  const countRemaining = () => {
+    stats.unresolved += new Set(pending.map(getPlaceholderKey).filter(key => !failed.has(key))).size;
+  };
+
+  const attach = (parentId: string, children: ParsedComment[]) => {
+    if (parentId.startsWith('t3_')) {
+      setDepth(children, 0);
+      comments.push(...children);
+    } else {
+      const parent = index.get(parentId.replace(/^t1_/, ''));
+      if (!parent) {
+        return false;
+      }
+      setDepth(children, parent.depth + 1);
+      parent.replies.push(...children);
+    }
+    indexComments(children, index);
+    return true;
+  };
+
+  while (pending.length > 0 && sent < maxRequests) {
+    const more = pending.shift()!;
+    const key = getPlaceholderKey(more);
+    sent++;
+    requested.add(key);
+    stats.requests = requested.size;
+    let remaining = false;
+
+    try {
+      if (more.children.length === 0) {
+        // "continue this thread"：重新获取父评论的永久链接
+        const parentId = more.parent_id.replace(/^t1_/, '');
+        const response = await fetchReddit(
+          `https://www.reddit.com/comments/${postId}/_/${parentId}.json?raw_json=1${sort ? `&sort=${sort}` : ''}`,
+          1
+        );
+        if (!response.ok) {
+          throw new RedditHttpError(response.status, response.statusText);
+        }
+        const data: RedditThreadResponse = await response.json();
+        const [root] = data[1].data.children;
+        const replies = root && root.kind === 't1' && root.data.replies
+          ? parseComments(root.data.replies.data.children, deletedMode, pending)
+          : [];
+
+        if (!attach(more.parent_id, replies)) {
+          throw new Error(`Parent ${more.parent_id} not found`);
+        }
+      } else {
+        const batch = more.children.slice(0, MORE_CHILDREN_BATCH);
+        const rest = more.children.slice(MORE_CHILDREN_BATCH);
+        if (rest.length > 0) {
+          pending.unshift({ ...more, children: rest, count: Math.max(more.count - batch.length, rest.length) });
+          remaining = true;
+        }
+
+        const params = new URLSearchParams({
+          api_type: 'json',
+          link_id: linkId,
+          children: batch.join(','),
+          limit_children: 'false',
+          raw_json: '1',
+          ...(sort ? { sort } : {})
+        });
+        const response = await fetchReddit(
+          `https://www.reddit.com/api/morechildren.json?${params}`,
+          1
+        );
+        if (!response.ok) {
+          throw new RedditHttpError(response.status, response.statusText);
+        }
+        const data: MoreChildrenResponse = await response.json();
+        const things = data.json?.data?.things ?? [];
+
+        // things 是按深度优先排列的扁平列表，父评论总在子评论之前
+        // 找不到父评论的评论无法插回，该节点按未展开计
+        const orphans = things.filter(thing => {
+          const parsed = parseComments([thing], deletedMode, pending);
+          return parsed.length > 0 && !attach(thing.data.parent_id, parsed);
+        });
+        if (orphans.length > 0) {
+          throw new Error(`Parent ${orphans[0].data.parent_id} not found`);
+        }
+      }
+
+      // 最后一批也成功后才算展开完成
+      if (!remaining && !failed.has(key)) {
+        stats.resolved++;
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        pending.unshift(more);
+        countRemaining();
+        throw error;
+      }
+      logger.error(`❌ Failed to resolve more node ${more.id}:`, error);
+      if (!failed.has(key)) {
+        failed.add(key);
+        stats.unresolved++;
+      }
+    }
+
+    onProgress?.({ type: 'more', ...stats, pending: pending.length, comments: countComments(comments) });
+  }
+
+  countRemaining();
+  logger.log(`📥 More nodes: ${stats.resolved} resolved, ${stats.unresolved} unresolved, ${sent} requests`);
+
+  return stats;
+}
@@ -0,0 +1,206 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOAuthClient, getOAuthConfigFromEnv, OAuthConfig } from './oauth';
+import { createLiveTransport } from './transport';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+type ApiHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+// 本地令牌和 Listing 服务器，令牌接口每次签发新的令牌，其余路径交给 api 处理
+// 给出 tokenGate 时令牌接口等它完成后才响应
+const startMockServer = async (api: ApiHandler, tokenGate?: Promise<void>) => {
+  const requests: RecordedRequest[] = [];
+  let tokens = 0;
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', async () => {
+      const request = { method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body: Buffer.concat(chunks).toString('utf8') };
+      requests.push(request);
+      if (request.url === '/api/v1/access_token') {
+        await tokenGate;
+        tokens++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: `token-${tokens}`, expires_in: 3600 }));
+        return;
+      }
+      api(request, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const config = getOAuthConfigFromEnv({
+    NODE_ENV: 'test',
+    REDDIT_CLIENT_ID: 'id',
+    REDDIT_CLIENT_SECRET: 'secret',
+    REDDIT_USER_AGENT: 'test:extractor:v1',
+    REDDIT_TOKEN_URL: `${origin}/api/v1/access_token`,
+    REDDIT_OAUTH_BASE_URL: origin
+  }) as OAuthConfig;
+
+  return {
+    config,
+    requests,
+    apiRequests: () => requests.filter(request => request.url !== '/api/v1/access_token'),
+    tokenCount: () => tokens,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+const sendJson = (res: ServerResponse, body: unknown, status = 200, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+let server: Awaited<ReturnType<typeof startMockServer>> | null = null;
+
+const start = async (api: ApiHandler, tokenGate?: Promise<void>) => {
+  server = await startMockServer(api, tokenGate);
+  return server;
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('getOAuthConfigFromEnv', () => {
+  it('is disabled without client credentials', () => {
+    expect(getOAuthConfigFromEnv({ NODE_ENV: 'test' })).toBeNull();
+  });
+
+  it('reads credentials and endpoint overrides', () => {
+    expect(getOAuthConfigFromEnv({
+      NODE_ENV: 'test',
+      REDDIT_CLIENT_ID: 'id',
+      REDDIT_CLIENT_SECRET: 'secret',
+      REDDIT_OAUTH_BASE_URL: 'http://localhost:4000/'
+    })).toMatchObject({ clientId: 'id', apiBaseUrl: 'http://localhost:4000' });
+  });
+});
+
+describe('createOAuthClient', () => {
+  it('requests a token with Basic auth and a form body, then calls the API with the bearer token', async () => {
+    const { config, requests, tokenCount } = await start((_, res) => sendJson(res, []));
+    const client = createOAuthClient(config, { transport: createLiveTransport(), sleep: vi.fn(), now: () => 0, logger: console });
+
+    await client.fetch('https://www.reddit.com/r/test/comments/abc123.json?limit=5');
+    await client.fetch('https://www.reddit.com/r/test/comments/abc123.json');
+
+    const [token, first] = requests;
+    expect(token).toMatchObject({ method: 'POST', body: 'grant_type=client_credentials' });
+    expect(token.headers).toMatchObject({
+      'authorization': `Basic ${Buffer.from('id:secret').toString('base64')}`,
+      'content-type': 'application/x-www-form-urlencoded',
+      'user-agent': 'test:extractor:v1'
+    });
+    expect(first).toMatchObject({ method: 'GET', url: '/r/test/comments/abc123.json?limit=5' });
+    expect(first.headers).toMatchObject({ 'authorization': 'Bearer token-1', 'user-agent': 'test:extractor:v1' });
+    expect(tokenCount()).toBe(1);
+  });
+
+  it('refreshes the token when it expires or is rejected', async () => {
+    let now = 0;
+    const { config, apiRequests, tokenCount } = await start((request, res) => {
+      // token-2 被服务器视为已撤销
+      if (request.headers.authorization === 'Bearer token-2') {
+        sendJson(res, { error: 401 }, 401);
+        return;
+      }
+      sendJson(res, []);
+    });
+    const client = createOAuthClient(config, { transport: createLiveTransport(), sleep: vi.fn(), now: () => now, logger: console });
+
+    await client.fetch('https://www.reddit.com/r/test.json');
+    now = 3600 * 1000;
+    const response = await client.fetch('https://www.reddit.com/r/test.json');
+
+    expect(response.ok).toBe(true);
+    expect(tokenCount()).toBe(3);
+    expect(apiRequests().map(request => request.headers.authorization)).toEqual(['Bearer token-1', 'Bearer token-2', 'Bearer token-3']);
+  });
+
+  it('waits for the reset window after a 429 and retries', async () => {
+    let limited = true;
+    const { config, apiRequests } = await start((_, res) => {
+      if (limited) {
+        limited = false;
+        sendJson(res, { error: 429 }, 429, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '30' });
+        return;
+      }
+      sendJson(res, [], 200, { 'x-ratelimit-remaining': '100', 'x-ratelimit-reset': '600' });
+    });
+    const sleep = vi.fn(() => Promise.resolve());
+    const client = createOAuthClient(config, { transport: createLiveTransport(), sleep, now: () => 0, logger: console });
+
+    const response = await client.fetch('https://www.reddit.com/r/test.json');
+
+    expect(response.ok).toBe(true);
+    expect(sleep).toHaveBeenCalledWith(30000, undefined);
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('spreads requests out when few remain', async () => {
+    const { config } = await start((_, res) => sendJson(res, [], 200, { 'x-ratelimit-remaining': '4', 'x-ratelimit-reset': '20' }));
+    const sleep = vi.fn(() => Promise.resolve());
+    const client = createOAuthClient(config, { transport: createLiveTransport(), sleep, now: () => 0, logger: console });
+
+    await client.fetch('https://www.reddit.com/r/test.json');
+    await client.fetch('https://www.reddit.com/r/test.json');
+    expect(sleep).toHaveBeenCalledWith(5000, undefined);
+  });
+
+  it('lets one caller cancel while waiting for a shared token without failing the others', async () => {
+    let releaseToken = () => {};
+    const gate = new Promise<void>(resolve => {
+      releaseToken = resolve;
+    });
+    const { config, requests, tokenCount } = await start((_, res) => sendJson(res, []), gate);
+    const client = createOAuthClient(config, { transport: createLiveTransport(), sleep: vi.fn(), now: () => 0, logger: console });
+
+    const cancelled = new AbortController();
+    const first = client.fetch('https://www.reddit.com/r/test.json', cancelled.signal);
+    const second = client.fetch('https://www.reddit.com/r/test.json');
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+    cancelled.abort();
+
+    await expect(first).rejects.toBeDefined();
+    releaseToken();
+    expect((await second).ok).toBe(true);
+    expect(tokenCount()).toBe(1);
+  });
+
+  it('aborts the token request once every waiting caller has cancelled', async () => {
+    let releaseToken = () => {};
+    const gate = new Promise<void>(resolve => {
+      releaseToken = resolve;
+    });
+    const transport = vi.fn(createLiveTransport());
+    const { config, requests } = await start((_, res) => sendJson(res, []), gate);
+    const client = createOAuthClient(config, { transport, sleep: vi.fn(), now: () => 0, logger: console });
+
+    const controller = new AbortController();
+    const request = client.fetch('https://www.reddit.com/r/test.json', controller.signal);
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+    controller.abort();
+
+    await expect(request).rejects.toBeDefined();
+    expect(transport.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    releaseToken();
+
+    // 下一次请求重新获取令牌
+    expect((await client.fetch('https://www.reddit.com/r/test.json')).ok).toBe(true);
+  });
+});
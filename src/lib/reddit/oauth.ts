@@ -0,0 +1,211 @@
+// Reddit 官方 OAuth API 客户端 (application-only)
+// 使用固定、真实的 User-Agent，并根据 X-Ratelimit-* 响应头控制请求节奏
+
+import { RedditDeps, getDepsFromEnv } from './transport';
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  userAgent: string;
+  // 以下地址可以覆盖，便于在本地 mock 服务器上测试
+  tokenUrl: string;
+  apiBaseUrl: string;
+}
+
+interface AccessToken {
+  value: string;
+  expiresAt: number;
+}
+
+// 并发请求共用的令牌请求，记录仍在等待的调用方
+interface TokenRequest {
+  promise: Promise<AccessToken>;
+  controller: AbortController;
+  waiters: number;
+}
+
+interface RateLimitState {
+  remaining: number | null;
+  resetAt: number | null;
+}
+
+export interface OAuthClient {
+  fetch: (url: string, signal?: AbortSignal) => Promise<Response>;
+  // 不经过 OAuth API 的请求 (如解析分享链接) 也使用同一个 User-Agent
+  userAgent: string;
+}
+
+const DEFAULT_TOKEN_URL = 'https://www.reddit.com/api/v1/access_token';
+const DEFAULT_API_BASE_URL = 'https://oauth.reddit.com';
+
+// 令牌过期前提前刷新的时间
+const TOKEN_REFRESH_MARGIN = 60000;
+// 剩余配额低于该值时开始平摊等待
+const RATE_LIMIT_LOW_WATERMARK = 10;
+const MAX_ATTEMPTS = 3;
+// 429 响应未携带重置时间时的默认等待
+const DEFAULT_RATE_LIMIT_WAIT = 10000;
+
+// 从环境变量读取配置，未配置客户端凭据时返回 null
+export const getOAuthConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): OAuthConfig | null => {
+  if (!env.REDDIT_CLIENT_ID || !env.REDDIT_CLIENT_SECRET) {
+    return null;
+  }
+
+  return {
+    clientId: env.REDDIT_CLIENT_ID,
+    clientSecret: env.REDDIT_CLIENT_SECRET,
+    userAgent: env.REDDIT_USER_AGENT || 'web:reddit-comment-extractor:v0.1.0',
+    tokenUrl: env.REDDIT_TOKEN_URL || DEFAULT_TOKEN_URL,
+    apiBaseUrl: (env.REDDIT_OAUTH_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/$/, '')
+  };
+};
+
+export function createOAuthClient(
+  config: OAuthConfig,
+  deps: Pick<RedditDeps, 'transport' | 'sleep' | 'now' | 'logger'> = getDepsFromEnv()
+): OAuthClient {
+  let token: AccessToken | null = null;
+  let tokenRequest: TokenRequest | null = null;
+  const rateLimit: RateLimitState = { remaining: null, resetAt: null };
+
+  const requestToken = async (signal: AbortSignal): Promise<AccessToken> => {
+    const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64');
+    const response = await deps.transport(config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': config.userAgent
+      },
+      body: 'grant_type=client_credentials',
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OAuth令牌获取失败 (${response.status})`);
+    }
+
+    const data: { access_token?: string; expires_in?: number } = await response.json();
+    if (!data.access_token) {
+      throw new Error('OAuth令牌响应缺少access_token');
+    }
+
+    deps.logger.log(`🔑 Obtained OAuth token, expires in ${data.expires_in ?? 3600}s`);
+    return {
+      value: data.access_token,
+      expiresAt: deps.now() + (data.expires_in ?? 3600) * 1000
+    };
+  };
+
+  // 等待共享的令牌请求：调用方取消时只有它自己停止等待，所有调用方都取消后才中止请求
+  const waitForToken = (request: TokenRequest, signal?: AbortSignal) => new Promise<AccessToken>((resolve, reject) => {
+    request.waiters++;
+    const onAbort = () => {
+      if (--request.waiters === 0) {
+        if (tokenRequest === request) {
+          tokenRequest = null;
+        }
+        request.controller.abort(signal!.reason);
+      }
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    request.promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+
+  // 缓存令牌，并发请求共用同一次刷新
+  const getToken = async (forceRefresh = false, signal?: AbortSignal): Promise<string> => {
+    if (!forceRefresh && token && token.expiresAt - TOKEN_REFRESH_MARGIN > deps.now()) {
+      return token.value;
+    }
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    if (!tokenRequest) {
+      const controller = new AbortController();
+      const request: TokenRequest = {
+        controller,
+        waiters: 0,
+        promise: requestToken(controller.signal).finally(() => {
+          if (tokenRequest === request) {
+            tokenRequest = null;
+          }
+        })
+      };
+      tokenRequest = request;
+    }
+    token = await waitForToken(tokenRequest, signal);
+    return token.value;
+  };
+
+  const updateRateLimit = (headers: Headers) => {
+    const remaining = parseFloat(headers.get('x-ratelimit-remaining') ?? '');
+    const reset = parseFloat(headers.get('x-ratelimit-reset') ?? '');
+    if (!Number.isNaN(remaining)) {
+      rateLimit.remaining = remaining;
+    }
+    if (!Number.isNaN(reset)) {
+      rateLimit.resetAt = deps.now() + reset * 1000;
+    }
+  };
+
+  // 配额耗尽时等到重置，配额较低时把剩余请求平摊到重置前的时间里
+  const waitForRateLimit = async (signal?: AbortSignal) => {
+    if (rateLimit.remaining === null || rateLimit.resetAt === null) {
+      return;
+    }
+    const untilReset = Math.max(rateLimit.resetAt - deps.now(), 0);
+    if (untilReset === 0) {
+      rateLimit.remaining = null;
+      return;
+    }
+    if (rateLimit.remaining < 1) {
+      deps.logger.log(`⏳ Rate limit exhausted, waiting ${Math.round(untilReset)}ms for reset`);
+      await deps.sleep(untilReset, signal);
+    } else if (rateLimit.remaining < RATE_LIMIT_LOW_WATERMARK) {
+      await deps.sleep(untilReset / rateLimit.remaining, signal);
+    }
+  };
+
+  const oauthFetch = async (url: string, signal?: AbortSignal): Promise<Response> => {
+    // 只保留路径和查询参数，发往 OAuth API 域名
+    const { pathname, search } = new URL(url);
+    const targetUrl = `${config.apiBaseUrl}${pathname}${search}`;
+
+    let response: Response | null = null;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      await waitForRateLimit(signal);
+
+      const accessToken = await getToken(attempt > 1 && response?.status === 401, signal);
+      deps.logger.log(`OAuth attempt ${attempt}/${MAX_ATTEMPTS}: ${targetUrl}`);
+
+      response = await deps.transport(targetUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'User-Agent': config.userAgent
+        },
+        signal
+      });
+      updateRateLimit(response.headers);
+
+      if (response.status === 401) {
+        deps.logger.log('⚠️  OAuth token rejected, refreshing...');
+        continue;
+      }
+      if (response.status === 429) {
+        rateLimit.remaining = 0;
+        if (!response.headers.has('x-ratelimit-reset')) {
+          rateLimit.resetAt = deps.now() + DEFAULT_RATE_LIMIT_WAIT;
+        }
+        deps.logger.log('⚠️  429 from OAuth API, waiting for rate limit reset...');
+        continue;
+      }
+      return response;
+    }
+
+    return response!;
+  };
+
+  return { fetch: oauthFetch, userAgent: config.userAgent };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { makeComment, makeMore, makeSubmission } from './__fixtures__/factories';
+import { parseComments, parsePost, pruneEmptyPlaceholders } from './parse';
+import { RedditMore } from './types';
+
+describe('parsePost', () => {
+  it('maps submission fields and expands the permalink', () => {
+    const post = parsePost(makeSubmission());
+    expect(post).toMatchObject({
+      id: 'abc123',
+      title: 'Hello world',
+      subreddit: 'test',
+      flair: 'Discussion',
+      permalink: 'https://www.reddit.com/r/test/comments/abc123/hello_world/'
+    });
+  });
+});
+
+describe('parseComments', () => {
+  const tree = [
+    makeComment({ id: 'c1', author: 'alice', edited: 1700000100, is_submitter: true }, [
+      makeComment({ id: 'c2', parent_id: 't1_c1' }, [
+        makeMore({ id: '_', parent_id: 't1_c2' })
+      ])
+    ]),
+    makeComment({ id: 'c3', author: '[deleted]', body: '[deleted]' }, [
+      makeComment({ id: 'c5', parent_id: 't1_c3' })
+    ]),
+    makeComment({ id: 'c7', author: '[deleted]', body: '[removed]' }),
+    makeMore({ id: 'c4', children: ['c4', 'c8'] })
+  ];
+
+  it('keeps comment fields, depth and replies', () => {
+    const [first] = parseComments(tree, 'flag');
+    expect(first).toMatchObject({
+      id: 'c1',
+      author: 'alice',
+      edited: 1700000100,
+      is_submitter: true,
+      depth: 0,
+      status: 'active',
+      permalink: 'https://www.reddit.com/r/test/comments/abc123/hello_world/c1/'
+    });
+    expect(first.replies[0]).toMatchObject({ id: 'c2', parent_id: 't1_c1', depth: 1, edited: null });
+  });
+
+  it('collects more placeholders instead of dropping them', () => {
+    const pending: RedditMore['data'][] = [];
+    parseComments(tree, 'flag', pending);
+    expect(pending.map(more => more.id)).toEqual(['_', 'c4']);
+  });
+
+  it('drops deleted and removed comments with their replies in drop mode', () => {
+    const comments = parseComments(tree, 'drop');
+    expect(comments.map(comment => comment.id)).toEqual(['c1']);
+  });
+
+  it('blanks deleted content but keeps replies in placeholder mode', () => {
+    const comments = parseComments(tree, 'placeholder');
+    const deleted = comments.find(comment => comment.id === 'c3')!;
+    expect(deleted).toMatchObject({ status: 'deleted', body: '', author: '' });
+    expect(deleted.replies.map(reply => reply.id)).toEqual(['c5']);
+  });
+
+  it('keeps original content and flags status in flag mode', () => {
+    const comments = parseComments(tree, 'flag');
+    expect(comments.find(comment => comment.id === 'c7')).toMatchObject({ status: 'removed', body: '[removed]' });
+  });
+});
+
+describe('pruneEmptyPlaceholders', () => {
+  it('removes placeholders without replies only', () => {
+    const comments = pruneEmptyPlaceholders(parseComments([
+      makeComment({ id: 'c3', body: '[deleted]' }, [makeComment({ id: 'c5', parent_id: 't1_c3' })]),
+      makeComment({ id: 'c7', body: '[removed]' })
+    ], 'placeholder'));
+    expect(comments.map(comment => comment.id)).toEqual(['c3']);
+  });
+});
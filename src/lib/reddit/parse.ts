@@ -0,0 +1,112 @@
+import { NEUTRAL_SENTIMENT, scoreSentiment } from '@/lib/analysis/sentiment';
+import { CommentStatus, DeletedMode, ParsedComment, ParsedPost, RedditComment, RedditMore, RedditSubmission, RedditThing } from './types';
+
+export const DELETED_MODES: DeletedMode[] = ['drop', 'placeholder', 'flag'];
+
+export const isDeletedMode = (value: string): value is DeletedMode => (DELETED_MODES as string[]).includes(value);
+
+export function parsePost(submission: RedditSubmission): ParsedPost {
+  const { data } = submission;
+  return {
+    id: data.id,
+    title: data.title,
+    subreddit: data.subreddit,
+    author: data.author,
+    selftext: data.selftext,
+    url: data.url,
+    permalink: `https://www.reddit.com${data.permalink}`,
+    score: data.score,
+    upvote_ratio: data.upvote_ratio,
+    num_comments: data.num_comments,
+    flair: data.link_flair_text,
+    created_utc: data.created_utc
+  };
+}
+
+export const getCommentStatus = (data: RedditComment['data']): CommentStatus => {
+  if (data.body === '[removed]') {
+    return 'removed';
+  }
+  if (data.body === '[deleted]') {
+    return 'deleted';
+  }
+  return 'active';
+};
+
+export function parseComments(
+  comments: RedditThing[],
+  deletedMode: DeletedMode,
+  pending: RedditMore['data'][] = [],
+  depth = 0
+): ParsedComment[] {
+  const parsed: ParsedComment[] = [];
+
+  comments.forEach(comment => {
+    if (comment.kind === 'more') {
+      pending.push(comment.data);
+      return;
+    }
+    if (comment.kind !== 't1') {
+      return;
+    }
+
+    const status = getCommentStatus(comment.data);
+    if (status !== 'active' && deletedMode === 'drop') {
+      return;
+    }
+
+    const placeholder = status !== 'active' && deletedMode === 'placeholder';
+    parsed.push({
+      id: comment.data.id,
+      author: placeholder && comment.data.author === '[deleted]' ? '' : comment.data.author,
+      body: placeholder ? '' : comment.data.body,
+      score: comment.data.score,
+      created_utc: comment.data.created_utc,
+      parent_id: comment.data.parent_id,
+      permalink: `https://www.reddit.com${comment.data.permalink}`,
+      edited: comment.data.edited || null,
+      distinguished: comment.data.distinguished,
+      is_submitter: comment.data.is_submitter,
+      stickied: comment.data.stickied,
+      depth,
+      controversiality: comment.data.controversiality,
+      status,
+      // 已删除或被移除的内容不参与情绪评分
+      sentiment: status === 'active' ? scoreSentiment(comment.data.body) : NEUTRAL_SENTIMENT,
+      replies: comment.data.replies
+        ? parseComments(comment.data.replies.data.children, deletedMode, pending, depth + 1)
+        : []
+    });
+  });
+
+  return parsed;
+}
+
+// 移除没有任何回复的占位节点
+// 需要在展开 "加载更多评论" 之后执行，否则会丢失挂在占位节点下的回复
+export function pruneEmptyPlaceholders(comments: ParsedComment[]): ParsedComment[] {
+  return comments
+    .map(comment => ({ ...comment, replies: pruneEmptyPlaceholders(comment.replies) }))
+    .filter(comment => comment.status === 'active' || comment.replies.length > 0);
+}
+
+// 建立评论ID索引，便于把展开的评论插回原来的位置
+export function indexComments(comments: ParsedComment[], index = new Map<string, ParsedComment>()) {
+  comments.forEach(comment => {
+    index.set(comment.id, comment);
+    indexComments(comment.replies, index);
+  });
+  return index;
+}
+
+// 展开的评论来自独立的请求，其层级需要按插入位置重新计算
+export function setDepth(comments: ParsedComment[], depth: number) {
+  comments.forEach(comment => {
+    comment.depth = depth;
+    setDepth(comment.replies, depth + 1);
+  });
+}
+
+// 统计评论树中的评论总数
+export const countComments = (comments: ParsedComment[]): number =>
+  comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
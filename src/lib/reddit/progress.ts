@@ -0,0 +1,75 @@
+import type { ExtractResult } from './extract';
+import type { CrawlResult } from './listing';
+
+// 提取过程中的进度事件，通过 /api/reddit?stream=1 以 NDJSON 逐行推送
+
+export type ProgressEvent =
+  | { type: 'attempt'; attempt: number; maxRetries: number; endpoint: string; delay: number }
+  | { type: 'response'; attempt: number; endpoint: string; status: number }
+  | { type: 'network-error'; attempt: number; endpoint: string; message: string }
+  | { type: 'parsed'; comments: number; pending: number }
+  | { type: 'more'; resolved: number; unresolved: number; requests: number; pending: number; comments: number }
+  // 列表抓取：读完一页，以及逐个获取帖子的评论树
+  | { type: 'page'; page: number; items: number; after: string | null }
+  | { type: 'thread'; index: number; total: number; postId: string };
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// 流式响应中的全部消息：进度事件，加上缓存状态、最终结果或失败信息
+export type StreamMessage =
+  | ProgressEvent
+  | { type: 'cache'; hit: boolean; age: number }
+  | ({ type: 'result' } & ExtractResult)
+  | ({ type: 'crawl' } & CrawlResult)
+  | { type: 'failed'; status: number; error: string; partial: ExtractResult | null };
+
+// 提取在获取到部分评论之后失败时抛出，携带已有的结果
+export class ExtractionError extends Error {
+  partial: ExtractResult;
+  cause: unknown;
+
+  constructor(cause: unknown, partial: ExtractResult) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'ExtractionError';
+    this.partial = partial;
+    this.cause = cause;
+  }
+}
+
+// 把进度事件转换为日志文字
+export const describeProgress = (event: ProgressEvent): string => {
+  switch (event.type) {
+    case 'attempt':
+      return `第 ${event.attempt}/${event.maxRetries} 轮 · ${event.endpoint} · 等待 ${(event.delay / 1000).toFixed(1)} 秒`;
+    case 'response':
+      return `${event.endpoint} 返回 ${event.status}`;
+    case 'network-error':
+      return `${event.endpoint} 请求失败: ${event.message}`;
+    case 'parsed':
+      return `已解析 ${event.comments} 条评论，${event.pending} 个折叠节点待展开`;
+    case 'more':
+      return `展开折叠节点: 完成 ${event.resolved}，失败 ${event.unresolved}，剩余 ${event.pending}，共 ${event.comments} 条评论`;
+    case 'page':
+      return `已读取第 ${event.page} 页，共 ${event.items} 条${event.after ? '' : '，列表已到末尾'}`;
+    case 'thread':
+      return `获取评论 ${event.index}/${event.total}: ${event.postId}`;
+  }
+};
+
+// 逐行读取 NDJSON 流，每读到一条完整的消息就回调一次
+export const readStreamMessages = async (body: ReadableStream<Uint8Array>, onMessage: (message: StreamMessage) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => onMessage(JSON.parse(line)));
+  }
+};
@@ -0,0 +1,18 @@
+// 不依赖 Node 模块，浏览器端的批量提取也可以使用
+
+// 可取消的延迟，signal 中止时立即以中止原因 reject
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    reject(signal!.reason);
+  };
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { flattenComments } from '@/lib/export/fields';
+import { makeComment } from './__fixtures__/factories';
+import { parseComments } from './parse';
+import { controversyScore, estimateVotes, sortComments, wilsonLowerBound } from './sort';
+import { ParsedComment } from './types';
+
+// a: 高分但回复少；b: 低分但讨论多
+const comments = parseComments([
+  makeComment({ id: 'a', score: 50, created_utc: 100, body: 'short' }, [
+    makeComment({ id: 'a1', parent_id: 't1_a', score: 2, created_utc: 300 })
+  ]),
+  makeComment({ id: 'b', score: 3, created_utc: 200, body: 'a much longer body' }, [
+    makeComment({ id: 'b1', parent_id: 't1_b', score: 40, created_utc: 400 }),
+    makeComment({ id: 'b2', parent_id: 't1_b', score: 1, created_utc: 250 }, [
+      makeComment({ id: 'b2x', parent_id: 't1_b2', score: 30, created_utc: 260 })
+    ])
+  ])
+], 'flag');
+
+const ids = (nodes: ParsedComment[]) => nodes.map(comment => comment.id);
+
+describe('sortComments', () => {
+  it('sorts top-level comments and replies independently', () => {
+    const sorted = sortComments(comments, {
+      topLevel: { by: 'score', order: 'desc' },
+      replies: { by: 'time', order: 'asc' }
+    });
+    expect(ids(sorted)).toEqual(['a', 'b']);
+    expect(ids(sorted[1].replies)).toEqual(['b2', 'b1']);
+  });
+
+  it('sorts by subtree metrics and reply count', () => {
+    const bySize = sortComments(comments, { topLevel: { by: 'subtree_size', order: 'desc' }, replies: { by: 'replies', order: 'desc' } });
+    expect(ids(bySize)).toEqual(['b', 'a']);
+    expect(ids(bySize[1].replies)).toEqual(['a1']);
+    expect(ids(bySize[0].replies)).toEqual(['b2', 'b1']);
+
+    // b 的讨论串总分 3 + 40 + 1 + 30 = 74，高于 a 的 52
+    const byScore = sortComments(comments, { topLevel: { by: 'subtree_score', order: 'desc' }, replies: { by: 'subtree_score', order: 'desc' } });
+    expect(ids(byScore)).toEqual(['b', 'a']);
+    expect(ids(byScore[0].replies)).toEqual(['b1', 'b2']);
+  });
+
+  it('sorts by body length', () => {
+    const sorted = sortComments(comments, { topLevel: { by: 'length', order: 'desc' }, replies: { by: 'time', order: 'asc' } });
+    expect(ids(sorted)).toEqual(['b', 'a']);
+  });
+
+  it('keeps the original order for ties and does not mutate the input', () => {
+    const sorted = sortComments(comments, { topLevel: { by: 'controversy', order: 'desc' }, replies: { by: 'controversy', order: 'desc' } });
+    expect(ids(sorted)).toEqual(['a', 'b']);
+    expect(ids(comments[1].replies)).toEqual(['b1', 'b2']);
+  });
+
+  it('applies the same order to flattened export rows', () => {
+    const sorted = sortComments(comments, { topLevel: { by: 'time', order: 'desc' }, replies: { by: 'score', order: 'asc' } });
+    expect(flattenComments(sorted).map(row => row.id)).toEqual(['b', 'b2', 'b2x', 'b1', 'a', 'a1']);
+  });
+});
+
+describe('wilsonLowerBound', () => {
+  it('prefers more votes at the same ratio', () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+    expect(wilsonLowerBound(100, 10)).toBeGreaterThan(wilsonLowerBound(10, 1));
+    expect(wilsonLowerBound(10, 0)).toBeGreaterThan(wilsonLowerBound(10, 10));
+  });
+});
+
+describe('controversyScore', () => {
+  it('is highest for large, evenly split votes', () => {
+    expect(controversyScore(10, 0)).toBe(0);
+    expect(controversyScore(50, 50)).toBe(100);
+    expect(controversyScore(50, 50)).toBeGreaterThan(controversyScore(90, 10));
+  });
+
+  it('only estimates downvotes for comments Reddit marked as controversial', () => {
+    expect(estimateVotes({ score: 5, controversiality: 0 })).toEqual({ ups: 5, downs: 0 });
+    expect(estimateVotes({ score: 5, controversiality: 1 })).toEqual({ ups: 11, downs: 6 });
+    expect(estimateVotes({ score: -2, controversiality: 0 })).toEqual({ ups: 0, downs: 2 });
+  });
+});
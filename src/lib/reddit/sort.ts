@@ -0,0 +1,149 @@
+import { ParsedComment } from './types';
+
+// 本地排序：顶层评论和回复可以使用不同的排序依据，页面和导出共用
+
+export const SORT_KEYS = [
+  'time',
+  'score',
+  'best',
+  'controversy',
+  'replies',
+  'subtree_size',
+  'subtree_score',
+  'length',
+  'sentiment'
+] as const;
+export type SortKey = typeof SORT_KEYS[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortSpec {
+  by: SortKey;
+  order: SortOrder;
+}
+
+export interface CommentSort {
+  topLevel: SortSpec;
+  replies: SortSpec;
+}
+
+export const DEFAULT_COMMENT_SORT: CommentSort = {
+  topLevel: { by: 'time', order: 'desc' },
+  replies: { by: 'time', order: 'desc' }
+};
+
+// 排序依据的名称，以及降序/升序时的说明
+export const SORT_LABELS: Record<SortKey, { label: string; desc: string; asc: string }> = {
+  time: { label: '时间', desc: '最新优先', asc: '最早优先' },
+  score: { label: '点赞数', desc: '最高优先', asc: '最低优先' },
+  best: { label: '最佳 (Wilson)', desc: '最佳优先', asc: '最差优先' },
+  controversy: { label: '争议度 (估计)', desc: '最具争议优先', asc: '最少争议优先' },
+  replies: { label: '直接回复数', desc: '最多优先', asc: '最少优先' },
+  subtree_size: { label: '讨论串评论数', desc: '最多优先', asc: '最少优先' },
+  subtree_score: { label: '讨论串总分', desc: '最高优先', asc: '最低优先' },
+  length: { label: '正文长度', desc: '最长优先', asc: '最短优先' },
+  sentiment: { label: '情绪', desc: '最正面优先', asc: '最负面优先' }
+};
+
+export const describeSortSpec = ({ by, order }: SortSpec) => `${SORT_LABELS[by].label} · ${SORT_LABELS[by][order]}`;
+
+// Reddit 不再公开评论的赞成/反对票数，只能从分数和争议标记估计
+// 被标记为争议 (controversiality = 1) 的评论按双方票数接近处理
+export const estimateVotes = (comment: Pick<ParsedComment, 'score' | 'controversiality'>) => {
+  const ups = Math.max(comment.score, 0);
+  const downs = Math.max(-comment.score, 0);
+  if (!comment.controversiality) {
+    return { ups, downs };
+  }
+  const extra = Math.abs(comment.score) + 1;
+  return { ups: ups + extra, downs: downs + extra };
+};
+
+// Reddit "best" 排序使用的 Wilson 置信区间下限，z 对应 80% 置信度
+const WILSON_Z = 1.281551565545;
+
+export const wilsonLowerBound = (ups: number, downs: number) => {
+  const n = ups + downs;
+  if (n === 0) {
+    return 0;
+  }
+  const p = ups / n;
+  const z2 = WILSON_Z * WILSON_Z;
+  return (p + z2 / (2 * n) - WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) / (1 + z2 / n);
+};
+
+// Reddit 的争议度公式：票数越多、双方越接近，争议度越高
+export const controversyScore = (ups: number, downs: number) => {
+  if (ups <= 0 || downs <= 0) {
+    return 0;
+  }
+  const balance = ups > downs ? downs / ups : ups / downs;
+  return Math.pow(ups + downs, balance);
+};
+
+// 讨论串指标 (含评论自身) 按 ID 预先计算，避免每次比较都遍历子树
+const collectSubtreeMetrics = (comments: ParsedComment[]) => {
+  const metrics = new Map<string, { size: number; score: number }>();
+  const visit = (comment: ParsedComment) => {
+    const total = { size: 1, score: comment.score };
+    for (const reply of comment.replies) {
+      const child = visit(reply);
+      total.size += child.size;
+      total.score += child.score;
+    }
+    metrics.set(comment.id, total);
+    return total;
+  };
+  comments.forEach(visit);
+  return metrics;
+};
+
+const createSortValue = (by: SortKey, metrics: Map<string, { size: number; score: number }>): ((comment: ParsedComment) => number) => {
+  switch (by) {
+    case 'time':
+      return comment => comment.created_utc;
+    case 'score':
+      return comment => comment.score;
+    case 'best':
+      return comment => {
+        const { ups, downs } = estimateVotes(comment);
+        return wilsonLowerBound(ups, downs);
+      };
+    case 'controversy':
+      return comment => {
+        const { ups, downs } = estimateVotes(comment);
+        return controversyScore(ups, downs);
+      };
+    case 'replies':
+      return comment => comment.replies.length;
+    case 'subtree_size':
+      return comment => metrics.get(comment.id)?.size ?? 1;
+    case 'subtree_score':
+      return comment => metrics.get(comment.id)?.score ?? comment.score;
+    case 'length':
+      return comment => comment.body.length;
+    case 'sentiment':
+      return comment => comment.sentiment.score;
+  }
+};
+
+const createComparator = ({ by, order }: SortSpec, metrics: Map<string, { size: number; score: number }>) => {
+  const value = createSortValue(by, metrics);
+  const direction = order === 'asc' ? 1 : -1;
+  return (a: ParsedComment, b: ParsedComment) => (value(a) - value(b)) * direction;
+};
+
+// 顶层评论按 topLevel 排序，各层回复按 replies 排序；相同的评论保持原有顺序
+export const sortComments = (comments: ParsedComment[], sort: CommentSort): ParsedComment[] => {
+  const metrics = collectSubtreeMetrics(comments);
+  const compareTopLevel = createComparator(sort.topLevel, metrics);
+  const compareReplies = createComparator(sort.replies, metrics);
+
+  const visit = (nodes: ParsedComment[], compare: typeof compareTopLevel): ParsedComment[] =>
+    [...nodes].sort(compare).map(comment => ({
+      ...comment,
+      replies: visit(comment.replies, compareReplies)
+    }));
+
+  return visit(comments, compareTopLevel);
+};
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRecordingTransport, createReplayTransport, getDepsFromEnv, getFixtureName, sleep } from './transport';
+
+let dir: string;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'reddit-fixtures-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('getFixtureName', () => {
+  it('ignores the host so rotated endpoints share a fixture', () => {
+    expect(getFixtureName('https://old.reddit.com/r/test.json?limit=5'))
+      .toBe(getFixtureName('https://www.reddit.com/r/test.json?limit=5'));
+    expect(getFixtureName('https://www.reddit.com/r/test.json?limit=5'))
+      .not.toBe(getFixtureName('https://www.reddit.com/r/test.json?limit=6'));
+    expect(getFixtureName('https://www.reddit.com/api/v1/access_token', { method: 'POST' }))
+      .toMatch(/^POST_api_v1_access_token-/);
+  });
+});
+
+describe('record and replay', () => {
+  it('replays a recorded response', async () => {
+    const inner = async () => new Response('{"ok":true}', {
+      status: 201,
+      statusText: 'Created',
+      headers: { 'x-ratelimit-remaining': '99' }
+    });
+    const record = createRecordingTransport(dir, inner);
+
+    const recorded = await record('https://www.reddit.com/r/test.json');
+    expect(await recorded.json()).toEqual({ ok: true });
+
+    const replayed = await createReplayTransport(dir)('https://np.reddit.com/r/test.json');
+    expect(replayed.status).toBe(201);
+    expect(replayed.statusText).toBe('Created');
+    expect(replayed.headers.get('x-ratelimit-remaining')).toBe('99');
+    expect(await replayed.json()).toEqual({ ok: true });
+  });
+
+  it('fails clearly when no fixture was recorded', async () => {
+    await expect(createReplayTransport(dir)('https://www.reddit.com/r/missing.json'))
+      .rejects.toThrow('No recorded fixture for GET https://www.reddit.com/r/missing.json');
+  });
+});
+
+describe('sleep', () => {
+  it('rejects as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = sleep(60000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('getDepsFromEnv', () => {
+  it('rejects an unknown transport mode instead of falling back to live requests', () => {
+    expect(() => getDepsFromEnv({ NODE_ENV: 'test', REDDIT_TRANSPORT: 'replya' }))
+      .toThrow('REDDIT_TRANSPORT 配置无效: replya，可选值为 live/record/replay');
+    expect(getDepsFromEnv({ NODE_ENV: 'test', REDDIT_TRANSPORT: 'replay' }).transport).toBeTypeOf('function');
+  });
+});
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { sleep } from './sleep';
+
+export { sleep };
+
+// Reddit 访问层的网络传输，签名与全局 fetch 一致
+// live: 直接请求; record: 请求并把响应写入磁盘; replay: 只从磁盘读取录制的响应
+export type RedditTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+const TRANSPORT_MODES = ['live', 'record', 'replay'] as const;
+
+export type TransportMode = (typeof TRANSPORT_MODES)[number];
+
+const isTransportMode = (value: string): value is TransportMode => (TRANSPORT_MODES as readonly string[]).includes(value);
+
+// 请求日志的输出位置，默认为 console
+export interface RedditLogger {
+  log: (...data: unknown[]) => void;
+  error: (...data: unknown[]) => void;
+}
+
+// 可注入的依赖，便于离线测试
+export interface RedditDeps {
+  transport: RedditTransport;
+  sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  now: () => number;
+  random: () => number;
+  logger: RedditLogger;
+}
+
+interface Fixture {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/reddit';
+
+// 回放时不需要等待，但仍然响应取消
+const noDelay = (_ms: number, signal?: AbortSignal) =>
+  signal?.aborted ? Promise.reject(signal.reason) : Promise.resolve();
+
+// 录制文件按请求方法、路径和查询参数命名，与域名无关，因此轮换端点时也能命中
+export const getFixtureName = (url: string, init?: RequestInit) => {
+  const { pathname, search } = new URL(url);
+  const method = (init?.method ?? 'GET').toUpperCase();
+  const hash = createHash('sha1').update(`${method} ${pathname}${search}`).digest('hex').slice(0, 12);
+  const slug = `${method}${pathname}`.replace(/[^a-zA-Z0-9]+/g, '_').replace(/_$/, '').slice(0, 80);
+  return `${slug}-${hash}.json`;
+};
+
+export const createLiveTransport = (): RedditTransport => (url, init) => fetch(url, init);
+
+// 把录制文件还原为响应
+const toResponse = (fixture: Fixture) =>
+  new Response(fixture.body, {
+    status: fixture.status,
+    statusText: fixture.statusText,
+    headers: fixture.headers
+  });
+
+export const createRecordingTransport = (
+  dir: string,
+  inner: RedditTransport = createLiveTransport(),
+  logger: RedditLogger = console
+): RedditTransport =>
+  async (url, init) => {
+    const response = await inner(url, init);
+    const fixture: Fixture = {
+      method: (init?.method ?? 'GET').toUpperCase(),
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.text()
+    };
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, getFixtureName(url, init)), JSON.stringify(fixture, null, 2));
+    logger.log(`💾 Recorded ${fixture.method} ${url} (${fixture.status})`);
+
+    return toResponse(fixture);
+  };
+
+export const createReplayTransport = (dir: string): RedditTransport =>
+  async (url, init) => {
+    const file = path.join(dir, getFixtureName(url, init));
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      throw new Error(`No recorded fixture for ${(init?.method ?? 'GET').toUpperCase()} ${url} (${file})`);
+    }
+
+    return toResponse(fixture);
+  };
+
+export const createTransport = (mode: TransportMode, dir = DEFAULT_FIXTURES_DIR, logger: RedditLogger = console): RedditTransport => {
+  if (mode === 'record') {
+    return createRecordingTransport(dir, undefined, logger);
+  }
+  if (mode === 'replay') {
+    return createReplayTransport(dir);
+  }
+  return createLiveTransport();
+};
+
+// 通过 REDDIT_TRANSPORT (live/record/replay) 和 REDDIT_FIXTURES_DIR 选择传输方式
+// 回放时没有真实网络请求，不再需要随机延迟；未知的传输方式直接报错，避免悄悄发出真实请求
+export const getDepsFromEnv = (env: NodeJS.ProcessEnv = process.env, logger: RedditLogger = console): RedditDeps => {
+  const mode = env.REDDIT_TRANSPORT || 'live';
+  if (!isTransportMode(mode)) {
+    throw new Error(`REDDIT_TRANSPORT 配置无效: ${mode}，可选值为 ${TRANSPORT_MODES.join('/')}`);
+  }
+  return {
+    transport: createTransport(mode, env.REDDIT_FIXTURES_DIR || DEFAULT_FIXTURES_DIR, logger),
+    sleep: mode === 'replay' ? noDelay : sleep,
+    now: Date.now,
+    random: Math.random,
+    logger
+  };
+};
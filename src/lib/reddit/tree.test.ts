@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { makeComment } from './__fixtures__/factories';
+import { parseComments } from './parse';
+import {
+  collapseBelowDepth,
+  countDescendants,
+  findCommentPath,
+  findFirstChildIndex,
+  findParentIndex,
+  findSiblingIndex,
+  flattenTree,
+  TreeRow
+} from './tree';
+import { RedditThing } from './types';
+
+// a -> (a1 -> a1x, a2)，另有独立的 b
+const comments = parseComments([
+  makeComment({ id: 'a' }, [
+    makeComment({ id: 'a1', parent_id: 't1_a' }, [makeComment({ id: 'a1x', parent_id: 't1_a1' })]),
+    makeComment({ id: 'a2', parent_id: 't1_a' })
+  ]),
+  makeComment({ id: 'b' })
+], 'flag');
+
+const keys = (rows: TreeRow[]) => rows.map(row => row.type === 'comment' ? row.comment.id : `${row.comment.id}:continue`);
+
+// 指定深度的单线讨论串
+const makeChain = (length: number): RedditThing[] => {
+  let node = makeComment({ id: `n${length - 1}` });
+  for (let i = length - 2; i >= 0; i--) {
+    node = makeComment({ id: `n${i}` }, [node]);
+  }
+  return [node];
+};
+
+describe('flattenTree', () => {
+  it('lists comments in display order with descendant counts', () => {
+    const rows = flattenTree(comments, new Set());
+    expect(keys(rows)).toEqual(['a', 'a1', 'a1x', 'a2', 'b']);
+    expect(rows.map(row => [row.level, row.parentId, row.descendants])).toEqual([
+      [0, null, 3],
+      [1, 'a', 1],
+      [2, 'a1', 0],
+      [1, 'a', 0],
+      [0, null, 0]
+    ]);
+  });
+
+  it('hides the replies of collapsed comments', () => {
+    const rows = flattenTree(comments, new Set(['a1', 'b']));
+    expect(keys(rows)).toEqual(['a', 'a1', 'a2', 'b']);
+    expect(rows[1]).toMatchObject({ collapsed: true, descendants: 1 });
+    // 没有回复的评论不算折叠
+    expect(rows[3]).toMatchObject({ collapsed: false });
+  });
+
+  it('replaces chains deeper than the nesting limit with a continue row', () => {
+    const chain = parseComments(makeChain(6), 'flag');
+    const rows = flattenTree(chain, new Set(), 2);
+    expect(keys(rows)).toEqual(['n0', 'n1', 'n2', 'n2:continue']);
+    expect(rows[3]).toMatchObject({ level: 3, parentId: 'n2', descendants: 3 });
+  });
+});
+
+describe('tree helpers', () => {
+  it('counts descendants of every comment', () => {
+    expect(Object.fromEntries(countDescendants(comments))).toEqual({ a: 3, a1: 1, a1x: 0, a2: 0, b: 0 });
+  });
+
+  it('collapses every comment at or below a depth that has replies', () => {
+    expect([...collapseBelowDepth(comments, 0)]).toEqual(['a', 'a1']);
+    expect([...collapseBelowDepth(comments, 1)]).toEqual(['a1']);
+    expect(collapseBelowDepth(comments, 2).size).toBe(0);
+  });
+
+  it('finds the path from the root to a comment', () => {
+    expect(findCommentPath(comments, 'a1x')?.map(comment => comment.id)).toEqual(['a', 'a1', 'a1x']);
+    expect(findCommentPath(comments, 'missing')).toBeNull();
+  });
+});
+
+describe('keyboard navigation', () => {
+  const rows = flattenTree(comments, new Set());
+
+  it('moves between siblings without leaving the parent', () => {
+    expect(findSiblingIndex(rows, 0, 1)).toBe(4);
+    expect(findSiblingIndex(rows, 1, 1)).toBe(3);
+    expect(findSiblingIndex(rows, 3, -1)).toBe(1);
+    expect(findSiblingIndex(rows, 3, 1)).toBeNull();
+    expect(findSiblingIndex(rows, 2, 1)).toBeNull();
+  });
+
+  it('moves to the parent and the first reply', () => {
+    expect(findParentIndex(rows, 2)).toBe(1);
+    expect(findParentIndex(rows, 0)).toBeNull();
+    expect(findFirstChildIndex(rows, 0)).toBe(1);
+    expect(findFirstChildIndex(rows, 3)).toBeNull();
+  });
+});
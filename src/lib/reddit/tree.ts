@@ -0,0 +1,121 @@
+import { ParsedComment } from './types';
+
+// 评论树的展示结构：按折叠状态展开为扁平的行，供虚拟滚动和键盘导航使用
+
+// 超过该层级的回复不再缩进，改为 "继续查看此讨论串"
+export const MAX_NEST_LEVEL = 8;
+
+export type TreeRow =
+  | {
+    type: 'comment';
+    comment: ParsedComment;
+    // 相对当前视图根节点的层级
+    level: number;
+    parentId: string | null;
+    // 子树中的评论数，不含自身
+    descendants: number;
+    collapsed: boolean;
+  }
+  | {
+    // 层级过深的讨论串，只显示一个入口
+    type: 'continue';
+    comment: ParsedComment;
+    level: number;
+    parentId: string;
+    descendants: number;
+  };
+
+export const countDescendants = (comments: ParsedComment[], counts = new Map<string, number>()) => {
+  const visit = (comment: ParsedComment): number => {
+    const total = comment.replies.reduce((sum, reply) => sum + 1 + visit(reply), 0);
+    counts.set(comment.id, total);
+    return total;
+  };
+  comments.forEach(visit);
+  return counts;
+};
+
+export const flattenTree = (roots: ParsedComment[], collapsed: Set<string>, maxLevel = MAX_NEST_LEVEL): TreeRow[] => {
+  const counts = countDescendants(roots);
+  const rows: TreeRow[] = [];
+
+  const visit = (comments: ParsedComment[], level: number, parentId: string | null) => {
+    for (const comment of comments) {
+      const isCollapsed = collapsed.has(comment.id) && comment.replies.length > 0;
+      rows.push({ type: 'comment', comment, level, parentId, descendants: counts.get(comment.id) ?? 0, collapsed: isCollapsed });
+      if (isCollapsed || comment.replies.length === 0) {
+        continue;
+      }
+      if (level + 1 > maxLevel) {
+        rows.push({ type: 'continue', comment, level: level + 1, parentId: comment.id, descendants: counts.get(comment.id) ?? 0 });
+        continue;
+      }
+      visit(comment.replies, level + 1, comment.id);
+    }
+  };
+
+  visit(roots, 0, null);
+  return rows;
+};
+
+// "折叠第 N 层以下"：层级不小于 N 且有回复的评论全部折叠
+export const collapseBelowDepth = (comments: ParsedComment[], depth: number) => {
+  const collapsed = new Set<string>();
+  const visit = (nodes: ParsedComment[]) => {
+    for (const comment of nodes) {
+      if (comment.depth >= depth && comment.replies.length > 0) {
+        collapsed.add(comment.id);
+      }
+      visit(comment.replies);
+    }
+  };
+  visit(comments);
+  return collapsed;
+};
+
+// 从根到目标评论的路径 (包含目标)，找不到时返回 null
+export const findCommentPath = (comments: ParsedComment[], id: string): ParsedComment[] | null => {
+  for (const comment of comments) {
+    if (comment.id === id) {
+      return [comment];
+    }
+    const path = findCommentPath(comment.replies, id);
+    if (path) {
+      return [comment, ...path];
+    }
+  }
+  return null;
+};
+
+// 同一父评论下的上一条或下一条，跳过被折叠隐藏的回复
+export const findSiblingIndex = (rows: TreeRow[], index: number, direction: 1 | -1) => {
+  const { parentId, level } = rows[index];
+  for (let i = index + direction; i >= 0 && i < rows.length; i += direction) {
+    if (rows[i].level < level) {
+      return null;
+    }
+    if (rows[i].level === level && rows[i].parentId === parentId) {
+      return i;
+    }
+  }
+  return null;
+};
+
+export const findParentIndex = (rows: TreeRow[], index: number) => {
+  const { parentId } = rows[index];
+  if (parentId === null) {
+    return null;
+  }
+  for (let i = index - 1; i >= 0; i--) {
+    if (rows[i].type === 'comment' && rows[i].comment.id === parentId) {
+      return i;
+    }
+  }
+  return null;
+};
+
+// 第一条回复紧跟在父评论之后
+export const findFirstChildIndex = (rows: TreeRow[], index: number) => {
+  const next = rows[index + 1];
+  return next && next.level === rows[index].level + 1 ? index + 1 : null;
+};
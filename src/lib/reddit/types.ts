@@ -0,0 +1,155 @@
+// Reddit 原始数据与解析后的数据结构
+
+export interface RedditComment {
+  kind: 't1';
+  data: {
+    id: string;
+    author: string;
+    body: string;
+    score: number;
+    created_utc: number;
+    parent_id: string;
+    permalink: string;
+    edited: number | false;
+    distinguished: 'moderator' | 'admin' | null;
+    is_submitter: boolean;
+    stickied: boolean;
+    controversiality: number;
+    replies?: {
+      data: {
+        children: RedditThing[];
+      };
+    } | '';
+  };
+}
+
+// "加载更多评论" 占位节点 (kind === 'more')
+// count 为 0 且 children 为空时表示 "continue this thread"，需要重新请求父评论的永久链接
+export interface RedditMore {
+  kind: 'more';
+  data: {
+    id: string;
+    parent_id: string;
+    count: number;
+    children: string[];
+  };
+}
+
+export type RedditThing = RedditComment | RedditMore;
+
+export type CommentStatus = 'active' | 'deleted' | 'removed';
+
+// 已删除/已移除评论的处理方式
+// drop: 连同回复一起丢弃
+// placeholder: 清空内容保留为占位节点，仅在仍有回复时保留
+// flag: 保留原始内容并标记状态
+export type DeletedMode = 'drop' | 'placeholder' | 'flag';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+// 基于词典的离线情绪和攻击性评分
+export interface CommentSentiment {
+  // -1 (负面) 到 1 (正面)
+  score: number;
+  label: SentimentLabel;
+  // 0 到 1，越高越可能包含辱骂或脏话
+  toxicity: number;
+  toxic: boolean;
+}
+
+export interface ParsedComment {
+  id: string;
+  author: string;
+  body: string;
+  score: number;
+  created_utc: number;
+  parent_id: string;
+  permalink: string;
+  edited: number | null;
+  distinguished: 'moderator' | 'admin' | null;
+  is_submitter: boolean;
+  stickied: boolean;
+  depth: number;
+  controversiality: number;
+  status: CommentStatus;
+  sentiment: CommentSentiment;
+  replies: ParsedComment[];
+}
+
+export interface RedditSubmission {
+  kind: 't3';
+  data: {
+    id: string;
+    name: string;
+    title: string;
+    subreddit: string;
+    author: string;
+    selftext: string;
+    url: string;
+    permalink: string;
+    score: number;
+    upvote_ratio: number;
+    num_comments: number;
+    link_flair_text: string | null;
+    created_utc: number;
+  };
+}
+
+export interface RedditListing<T> {
+  kind: 'Listing';
+  data: {
+    children: T[];
+    // 下一页的游标，没有更多内容时为 null
+    after?: string | null;
+  };
+}
+
+// 用户评论列表中的评论，附带所属帖子的信息
+export interface RedditUserComment {
+  kind: 't1';
+  data: RedditComment['data'] & {
+    link_id: string;
+    link_title: string;
+    link_author: string;
+    // 完整网址
+    link_permalink: string;
+    subreddit: string;
+    num_comments?: number;
+  };
+}
+
+// 帖子详情接口返回 [帖子, 评论] 两个 Listing
+export type RedditThreadResponse = [RedditListing<RedditSubmission>, RedditListing<RedditThing>];
+
+export interface ParsedPost {
+  id: string;
+  title: string;
+  subreddit: string;
+  author: string;
+  selftext: string;
+  url: string;
+  permalink: string;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  flair: string | null;
+  created_utc: number;
+}
+
+// morechildren 接口的返回格式
+export interface MoreChildrenResponse {
+  json: {
+    errors: unknown[];
+    data?: {
+      things: RedditThing[];
+    };
+  };
+}
+
+// 按 "加载更多评论" 占位节点计数，拆成多次请求的节点只计一次
+export interface MoreStats {
+  resolved: number;
+  unresolved: number;
+  // 发出过请求的节点数
+  requests: number;
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildListingUrl,
+  buildThreadUrl,
+  DEFAULT_CRAWL_LIMITS,
+  DEFAULT_UPSTREAM_PARAMS,
+  InvalidParameterError,
+  parseCrawlLimits,
+  parseListingUrl,
+  parseMaxMoreRequests,
+  parseRedditUrl,
+  parseUpstreamParams,
+  validateCrawlLimits,
+  validateRedditUrl,
+  validateThreadUrl,
+  validateUpstreamParams
+} from './url';
+
+describe('parseRedditUrl', () => {
+  it.each([
+    'https://www.reddit.com/r/test/comments/abc123/hello_world/',
+    'https://old.reddit.com/r/test/comments/abc123/hello_world/?sort=top',
+    'https://new.reddit.com/r/test/comments/abc123',
+    'http://m.reddit.com/r/test/comments/abc123/hello_world.json',
+    'reddit.com/r/test/comments/ABC123/'
+  ])('reads subreddit and post ID from %s', input => {
+    expect(parseRedditUrl(input)).toEqual({ type: 'thread', ref: { subreddit: 'test', postId: 'abc123' } });
+  });
+
+  it('accepts links without a subreddit', () => {
+    expect(parseRedditUrl('https://redd.it/abc123')).toEqual({ type: 'thread', ref: { subreddit: null, postId: 'abc123' } });
+    expect(parseRedditUrl('https://www.reddit.com/comments/abc123')).toEqual({ type: 'thread', ref: { subreddit: null, postId: 'abc123' } });
+  });
+
+  it('reads single-comment permalinks with context', () => {
+    const expected = { type: 'thread', ref: { subreddit: 'test', postId: 'abc123', focusCommentId: 'c1', context: 3 } };
+    expect(parseRedditUrl('https://www.reddit.com/r/test/comments/abc123/comment/c1/?context=3')).toEqual(expected);
+    expect(parseRedditUrl('https://old.reddit.com/r/test/comments/abc123/hello_world/c1/?context=3')).toEqual(expected);
+  });
+
+  it('caps context at the depth Reddit supports', () => {
+    const target = parseRedditUrl('https://www.reddit.com/r/test/comments/abc123/x/c1/?context=100');
+    expect(target.type === 'thread' && target.ref.context).toBe(8);
+  });
+
+  it('leaves share links for the server to resolve', () => {
+    expect(parseRedditUrl('https://www.reddit.com/r/test/s/AbCdEf')).toEqual({
+      type: 'share',
+      subreddit: 'test',
+      url: 'https://www.reddit.com/r/test/s/AbCdEf'
+    });
+  });
+
+  it.each([
+    ['https://example.com/r/test/comments/abc123/', '不支持的域名'],
+    ['https://reddit.com.evil.io/r/test/comments/abc123/', '不支持的域名'],
+    ['ftp://www.reddit.com/r/test/comments/abc123/', '无效的URL格式'],
+    ['https://www.reddit.com/r/test/', '无法识别的Reddit链接'],
+    ['https://redd.it/', '无法识别的redd.it短链接'],
+    ['   ', '请输入Reddit帖子URL']
+  ])('rejects %s', (input, message) => {
+    expect(validateRedditUrl(input)).toContain(message);
+  });
+});
+
+describe('buildThreadUrl', () => {
+  it('builds the JSON endpoint for a post or a focused comment', () => {
+    expect(buildThreadUrl({ subreddit: 'test', postId: 'abc123' })).toBe('https://www.reddit.com/r/test/comments/abc123.json');
+    expect(buildThreadUrl({ subreddit: null, postId: 'abc123' })).toBe('https://www.reddit.com/comments/abc123.json');
+    expect(buildThreadUrl({ subreddit: 'test', postId: 'abc123', focusCommentId: 'c1', context: 0 }))
+      .toBe('https://www.reddit.com/r/test/comments/abc123/_/c1.json?context=0');
+  });
+
+  it('appends upstream parameters that are set', () => {
+    const params = { sort: 'new' as const, limit: null, depth: 2 };
+    expect(buildThreadUrl({ subreddit: 'test', postId: 'abc123' }, undefined, params))
+      .toBe('https://www.reddit.com/r/test/comments/abc123.json?sort=new&depth=2');
+    expect(buildThreadUrl({ subreddit: 'test', postId: 'abc123', focusCommentId: 'c1', context: 3 }, undefined, params))
+      .toBe('https://www.reddit.com/r/test/comments/abc123/_/c1.json?sort=new&depth=2&context=3');
+  });
+});
+
+describe('parseUpstreamParams', () => {
+  it('reads sort, limit and depth and defaults the rest', () => {
+    expect(parseUpstreamParams(new URLSearchParams('sort=controversial&limit=200'))).toEqual({ sort: 'controversial', limit: 200, depth: null });
+    expect(parseUpstreamParams(new URLSearchParams('sort=&limit='))).toEqual(DEFAULT_UPSTREAM_PARAMS);
+  });
+
+  it.each([
+    ['sort=hot', '无效的sort参数'],
+    ['limit=0', '无效的limit参数'],
+    ['limit=501', '无效的limit参数'],
+    ['depth=2.5', '无效的depth参数'],
+    ['depth=11', '无效的depth参数']
+  ])('rejects %s', (query, message) => {
+    expect(() => parseUpstreamParams(new URLSearchParams(query))).toThrow(InvalidParameterError);
+    expect(validateUpstreamParams(new URLSearchParams(query))).toMatch(new RegExp(`^${message}`));
+  });
+});
+
+describe('parseMaxMoreRequests', () => {
+  it('defaults when missing and accepts 0 to disable expansion', () => {
+    expect(parseMaxMoreRequests(new URLSearchParams())).toBe(10);
+    expect(parseMaxMoreRequests(new URLSearchParams('maxMore=0'))).toBe(0);
+  });
+
+  it.each(['abc', '-5', '2.5', '51'])('rejects maxMore=%s', value => {
+    expect(() => parseMaxMoreRequests(new URLSearchParams({ maxMore: value }))).toThrow(InvalidParameterError);
+  });
+});
+
+describe('listing links', () => {
+  it('reads subreddit and user listings', () => {
+    expect(parseListingUrl('https://www.reddit.com/r/test/new/')).toEqual({ type: 'subreddit', subreddit: 'test', sort: 'new', time: null });
+    expect(parseListingUrl('https://old.reddit.com/r/test/top/?t=WEEK')).toEqual({ type: 'subreddit', subreddit: 'test', sort: 'top', time: 'week' });
+    expect(parseListingUrl('https://www.reddit.com/u/alice/comments')).toEqual({ type: 'user', username: 'alice' });
+    expect(parseListingUrl('reddit.com/user/alice/comments.json')).toEqual({ type: 'user', username: 'alice' });
+  });
+
+  it('rejects listings in thread mode and threads in listing mode', () => {
+    expect(validateThreadUrl('https://www.reddit.com/r/test/new/')).toContain('版块/用户');
+    expect(validateThreadUrl('https://www.reddit.com/r/test/comments/abc123/')).toBeNull();
+    expect(() => parseListingUrl('https://www.reddit.com/r/test/comments/abc123/')).toThrow('请输入版块列表');
+    expect(validateRedditUrl('https://www.reddit.com/r/test/top/?t=decade')).toContain('无效的时间范围');
+  });
+
+  it('builds paged JSON endpoints', () => {
+    expect(buildListingUrl({ type: 'subreddit', subreddit: 'test', sort: 'top', time: 'all' }, 50, 't3_x'))
+      .toBe('https://www.reddit.com/r/test/top.json?limit=50&t=all&after=t3_x');
+    expect(buildListingUrl({ type: 'user', username: 'alice' }, 100)).toBe('https://www.reddit.com/user/alice/comments.json?limit=100');
+  });
+});
+
+describe('parseCrawlLimits', () => {
+  it('reads limits and date bounds and defaults the rest', () => {
+    expect(parseCrawlLimits(new URLSearchParams())).toEqual(DEFAULT_CRAWL_LIMITS);
+    expect(parseCrawlLimits(new URLSearchParams('maxItems=80&maxPages=5&since=100&until=200&comments=1')))
+      .toEqual({ maxItems: 80, maxPages: 5, since: 100, until: 200, includeComments: true });
+  });
+
+  it.each([
+    ['maxItems=0', '无效的maxItems参数'],
+    ['maxPages=51', '无效的maxPages参数'],
+    ['maxItems=500&comments=1', '无效的maxItems参数'],
+    ['since=yesterday', '无效的since参数'],
+    ['since=200&until=100', 'since 不能晚于 until']
+  ])('rejects %s', (query, message) => {
+    expect(() => parseCrawlLimits(new URLSearchParams(query))).toThrow(InvalidParameterError);
+    expect(validateCrawlLimits(new URLSearchParams(query))).toMatch(new RegExp(`^${message}`));
+  });
+});
@@ -0,0 +1,382 @@
+// Reddit 链接解析，前端输入校验和后端提取共用
+// 支持 new/old/np/m 等域名、redd.it 短链接、无 slug 的 /comments/<id>、
+// 单条评论永久链接 (/comment/<id>/?context=3) 以及 /r/<sub>/s/<id> 分享链接
+// 另外支持版块列表 (/r/<sub>/new|top) 和用户评论 (/user/<name>/comments)，用于批量抓取
+
+export interface RedditThreadRef {
+  subreddit: string | null;
+  postId: string;
+  // 单条评论永久链接指向的评论
+  focusCommentId?: string;
+  // 同时返回的父评论层数
+  context?: number;
+}
+
+export const LISTING_SORTS = ['new', 'top'] as const;
+export type ListingSort = typeof LISTING_SORTS[number];
+
+// top 列表的时间范围 (?t=)
+export const TOP_TIMES = ['hour', 'day', 'week', 'month', 'year', 'all'] as const;
+export type TopTime = typeof TOP_TIMES[number];
+
+export const TOP_TIME_LABELS: Record<TopTime, string> = {
+  hour: '一小时内',
+  day: '今天',
+  week: '本周',
+  month: '本月',
+  year: '今年',
+  all: '全部时间'
+};
+
+export type RedditListingRef =
+  | { type: 'subreddit'; subreddit: string; sort: ListingSort; time: TopTime | null }
+  | { type: 'user'; username: string };
+
+// 分享链接需要先跟随重定向才能得到帖子ID，只能在服务端解析
+export type ParsedRedditUrl =
+  | { type: 'thread'; ref: RedditThreadRef }
+  | { type: 'share'; subreddit: string; url: string }
+  | { type: 'listing'; listing: RedditListingRef };
+
+// 输入不是可识别的 Reddit 帖子链接时抛出
+export class InvalidRedditUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRedditUrlError';
+  }
+}
+
+// 查询参数或命令行选项的取值无效时抛出
+export class InvalidParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidParameterError';
+  }
+}
+
+export const REDDIT_HOSTS = [
+  'reddit.com',
+  'www.reddit.com',
+  'old.reddit.com',
+  'new.reddit.com',
+  'np.reddit.com',
+  'm.reddit.com',
+  'i.reddit.com',
+  'sh.reddit.com',
+  'amp.reddit.com'
+];
+
+const SHORT_LINK_HOSTS = ['redd.it', 'www.redd.it'];
+
+// Reddit 最多返回 8 层父评论
+export const MAX_CONTEXT = 8;
+
+const ID_PATTERN = /^[a-z0-9]+$/i;
+const SUBREDDIT_PATTERN = /^[a-z0-9_]+$/i;
+const USERNAME_PATTERN = /^[a-z0-9_-]+$/i;
+
+const isId = (value: string | undefined): value is string => !!value && ID_PATTERN.test(value);
+
+// 补全缺少的协议，只接受 http(s)
+const toUrl = (input: string) => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new InvalidRedditUrlError('请输入Reddit帖子URL');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new InvalidRedditUrlError('无效的URL格式');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new InvalidRedditUrlError('无效的URL格式');
+  }
+  return url;
+};
+
+const parseContext = (value: string | null) => {
+  const context = parseInt(value ?? '', 10);
+  return Number.isNaN(context) ? undefined : Math.min(Math.max(context, 0), MAX_CONTEXT);
+};
+
+// 解析任意形式的帖子链接，不是 Reddit 域名或无法识别时抛出 InvalidRedditUrlError
+export const parseRedditUrl = (input: string): ParsedRedditUrl => {
+  const url = toUrl(input);
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.replace(/\.json$/i, '').split('/').filter(Boolean);
+
+  if (SHORT_LINK_HOSTS.includes(host)) {
+    if (segments.length === 1 && isId(segments[0])) {
+      return { type: 'thread', ref: { subreddit: null, postId: segments[0].toLowerCase() } };
+    }
+    throw new InvalidRedditUrlError('无法识别的redd.it短链接');
+  }
+
+  if (!REDDIT_HOSTS.includes(host)) {
+    throw new InvalidRedditUrlError(`不支持的域名: ${host}，请输入reddit.com或redd.it的帖子链接`);
+  }
+
+  let subreddit: string | null = null;
+  let username: string | null = null;
+  let rest = segments;
+  const prefix = segments[0]?.toLowerCase();
+  if (prefix === 'r' && segments[1] && SUBREDDIT_PATTERN.test(segments[1])) {
+    subreddit = segments[1];
+    rest = segments.slice(2);
+  } else if (prefix === 'u' || prefix === 'user') {
+    // 发在个人主页的帖子，不属于任何版块
+    username = segments[1] && USERNAME_PATTERN.test(segments[1]) ? segments[1] : null;
+    rest = segments.slice(2);
+  }
+
+  const kind = rest[0]?.toLowerCase();
+
+  if (rest.length === 1 && subreddit && (LISTING_SORTS as readonly string[]).includes(kind)) {
+    const time = url.searchParams.get('t')?.toLowerCase() ?? null;
+    if (time !== null && !(TOP_TIMES as readonly string[]).includes(time)) {
+      throw new InvalidRedditUrlError(`无效的时间范围 t=${time}，可选值: ${TOP_TIMES.join(', ')}`);
+    }
+    return {
+      type: 'listing',
+      listing: { type: 'subreddit', subreddit, sort: kind as ListingSort, time: kind === 'top' ? time as TopTime | null : null }
+    };
+  }
+
+  if (rest.length === 1 && username && kind === 'comments') {
+    return { type: 'listing', listing: { type: 'user', username } };
+  }
+
+  if (kind === 's' && subreddit && rest[1]) {
+    return { type: 'share', subreddit, url: `https://www.reddit.com/r/${subreddit}/s/${rest[1]}` };
+  }
+
+  if ((kind === 'comments' || kind === 'gallery') && isId(rest[1])) {
+    const ref: RedditThreadRef = { subreddit, postId: rest[1].toLowerCase() };
+
+    // /comments/<id>/<slug>/<comment> 和 /comments/<id>/comment/<comment> 的评论ID都在第四段
+    if (kind === 'comments' && isId(rest[3])) {
+      ref.focusCommentId = rest[3].toLowerCase();
+      const context = parseContext(url.searchParams.get('context'));
+      if (context !== undefined) {
+        ref.context = context;
+      }
+    }
+    return { type: 'thread', ref };
+  }
+
+  throw new InvalidRedditUrlError('无法识别的Reddit链接，请输入帖子或评论的永久链接');
+};
+
+// 返回校验错误信息，链接有效时返回 null
+export const validateRedditUrl = (input: string): string | null => {
+  try {
+    parseRedditUrl(input);
+    return null;
+  } catch (error) {
+    return error instanceof InvalidRedditUrlError ? error.message : '无效的URL格式';
+  }
+};
+
+// 单个和批量提取只接受帖子链接，版块和用户链接需要使用列表抓取
+export const validateThreadUrl = (input: string): string | null =>
+  validateRedditUrl(input) ?? (parseRedditUrl(input).type === 'listing' ? '版块和用户链接请使用 "版块/用户" 页签抓取' : null);
+
+// 列表抓取只接受 /r/<版块>/new|top 和 /user/<用户名>/comments
+export const parseListingUrl = (input: string): RedditListingRef => {
+  const target = parseRedditUrl(input);
+  if (target.type !== 'listing') {
+    throw new InvalidRedditUrlError('请输入版块列表 (/r/<版块>/new 或 /top) 或用户评论 (/user/<用户名>/comments) 链接');
+  }
+  return target.listing;
+};
+
+const getThreadPath = (ref: RedditThreadRef) =>
+  ref.subreddit ? `/r/${ref.subreddit}/comments/${ref.postId}` : `/comments/${ref.postId}`;
+
+// Reddit 自身的评论排序，决定上游返回哪些评论以及 "加载更多" 的顺序
+export const REDDIT_SORTS = ['confidence', 'top', 'new', 'controversial', 'old', 'qa'] as const;
+export type RedditSort = typeof REDDIT_SORTS[number];
+
+export const REDDIT_SORT_LABELS: Record<RedditSort, string> = {
+  confidence: '最佳',
+  top: '最高',
+  new: '最新',
+  controversial: '争议',
+  old: '最早',
+  qa: '问答'
+};
+
+// 转发给 Reddit 的参数，null 表示使用 Reddit 的默认值
+export interface UpstreamParams {
+  sort: RedditSort | null;
+  // 首次请求返回的评论数上限
+  limit: number | null;
+  // 首次请求返回的回复层数上限
+  depth: number | null;
+}
+
+export const DEFAULT_UPSTREAM_PARAMS: UpstreamParams = { sort: null, limit: null, depth: null };
+
+// Reddit 接受的取值范围
+export const MAX_UPSTREAM_LIMIT = 500;
+export const MAX_UPSTREAM_DEPTH = 10;
+
+// 展开 "加载更多评论" 的请求数
+export const DEFAULT_MAX_MORE_REQUESTS = 10;
+export const MAX_MORE_REQUESTS_LIMIT = 50;
+
+const parsePositiveInt = (value: string | null, max: number, name: string, min = 1) => {
+  if (value === null || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new InvalidParameterError(`无效的${name}参数，应为 ${min} 到 ${max} 之间的整数`);
+  }
+  return number;
+};
+
+// 从 /api/reddit 的查询参数读取上游参数，取值无效时抛出 InvalidParameterError
+export const parseUpstreamParams = (searchParams: URLSearchParams): UpstreamParams => {
+  const sort = searchParams.get('sort') || null;
+  if (sort !== null && !(REDDIT_SORTS as readonly string[]).includes(sort)) {
+    throw new InvalidParameterError(`无效的sort参数，可选值: ${REDDIT_SORTS.join(', ')}`);
+  }
+  return {
+    sort: sort as RedditSort | null,
+    limit: parsePositiveInt(searchParams.get('limit'), MAX_UPSTREAM_LIMIT, 'limit'),
+    depth: parsePositiveInt(searchParams.get('depth'), MAX_UPSTREAM_DEPTH, 'depth')
+  };
+};
+
+export const validateUpstreamParams = (searchParams: URLSearchParams): string | null => {
+  try {
+    parseUpstreamParams(searchParams);
+    return null;
+  } catch (error) {
+    return error instanceof InvalidParameterError ? error.message : String(error);
+  }
+};
+
+// 展开 "加载更多评论" 的请求上限，0 表示不展开；取值无效时抛出 InvalidParameterError
+export const parseMaxMoreRequests = (searchParams: URLSearchParams) =>
+  parsePositiveInt(searchParams.get('maxMore'), MAX_MORE_REQUESTS_LIMIT, 'maxMore', 0) ?? DEFAULT_MAX_MORE_REQUESTS;
+
+export const validateMaxMoreRequests = (searchParams: URLSearchParams): string | null => {
+  try {
+    parseMaxMoreRequests(searchParams);
+    return null;
+  } catch (error) {
+    return error instanceof InvalidParameterError ? error.message : String(error);
+  }
+};
+
+// 只包含设置了的参数，全部为默认值时为空
+export const toUpstreamQuery = (params: UpstreamParams) => {
+  const query = new URLSearchParams();
+  if (params.sort) {
+    query.set('sort', params.sort);
+  }
+  if (params.limit !== null) {
+    query.set('limit', String(params.limit));
+  }
+  if (params.depth !== null) {
+    query.set('depth', String(params.depth));
+  }
+  return query;
+};
+
+// 帖子 JSON 接口地址，指定评论时只返回该评论及其上下文
+export const buildThreadUrl = (ref: RedditThreadRef, origin = 'https://www.reddit.com', params = DEFAULT_UPSTREAM_PARAMS) => {
+  const query = toUpstreamQuery(params);
+  if (ref.focusCommentId && ref.context !== undefined) {
+    query.set('context', String(ref.context));
+  }
+  const path = ref.focusCommentId ? `${getThreadPath(ref)}/_/${ref.focusCommentId}.json` : `${getThreadPath(ref)}.json`;
+  const search = query.toString();
+  return `${origin}${path}${search ? `?${search}` : ''}`;
+};
+
+// 列表的简短说明，用于页面和日志
+export const describeListing = (listing: RedditListingRef) => {
+  if (listing.type === 'user') {
+    return `u/${listing.username} 的评论`;
+  }
+  const sort = listing.sort === 'new' ? '最新帖子' : `最高帖子${listing.time ? ` (${TOP_TIME_LABELS[listing.time]})` : ''}`;
+  return `r/${listing.subreddit} ${sort}`;
+};
+
+// 列表 JSON 接口地址，after 为上一页返回的游标
+export const buildListingUrl = (listing: RedditListingRef, limit: number, after: string | null = null, origin = 'https://www.reddit.com') => {
+  const query = new URLSearchParams({ limit: String(limit) });
+  if (listing.type === 'subreddit' && listing.time) {
+    query.set('t', listing.time);
+  }
+  if (after) {
+    query.set('after', after);
+  }
+  const path = listing.type === 'user'
+    ? `/user/${listing.username}/comments.json`
+    : `/r/${listing.subreddit}/${listing.sort}.json`;
+  return `${origin}${path}?${query}`;
+};
+
+// 列表抓取的范围和停止条件
+export interface CrawlLimits {
+  // 最多收集的帖子或评论数
+  maxItems: number;
+  // 最多读取的页数，每页最多 100 条
+  maxPages: number;
+  // Unix 秒，包含两端；按时间倒序的列表读到早于 since 的内容时停止
+  since: number | null;
+  until: number | null;
+  // 版块列表是否同时获取每个帖子的评论树
+  includeComments: boolean;
+}
+
+export const DEFAULT_CRAWL_LIMITS: CrawlLimits = { maxItems: 100, maxPages: 10, since: null, until: null, includeComments: false };
+
+export const MAX_CRAWL_ITEMS = 1000;
+export const MAX_CRAWL_PAGES = 50;
+// 获取评论树时每个帖子至少一次请求，帖子数另有上限
+export const MAX_CRAWL_THREADS = 100;
+
+const parseTimestamp = (value: string | null, name: string) => {
+  if (value === null || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new InvalidParameterError(`无效的${name}参数，应为 Unix 时间戳 (秒)`);
+  }
+  return number;
+};
+
+// 从 /api/reddit 的查询参数读取抓取范围，取值无效时抛出 InvalidParameterError
+export const parseCrawlLimits = (searchParams: URLSearchParams): CrawlLimits => {
+  const includeComments = searchParams.get('comments') === '1';
+  const limits: CrawlLimits = {
+    maxItems: parsePositiveInt(searchParams.get('maxItems'), includeComments ? MAX_CRAWL_THREADS : MAX_CRAWL_ITEMS, 'maxItems')
+      ?? DEFAULT_CRAWL_LIMITS.maxItems,
+    maxPages: parsePositiveInt(searchParams.get('maxPages'), MAX_CRAWL_PAGES, 'maxPages') ?? DEFAULT_CRAWL_LIMITS.maxPages,
+    since: parseTimestamp(searchParams.get('since'), 'since'),
+    until: parseTimestamp(searchParams.get('until'), 'until'),
+    includeComments
+  };
+  if (limits.since !== null && limits.until !== null && limits.since > limits.until) {
+    throw new InvalidParameterError('since 不能晚于 until');
+  }
+  return limits;
+};
+
+export const validateCrawlLimits = (searchParams: URLSearchParams): string | null => {
+  try {
+    parseCrawlLimits(searchParams);
+    return null;
+  } catch (error) {
+    return error instanceof InvalidParameterError ? error.message : String(error);
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { makeComment } from './__fixtures__/factories';
+import { RateLimitError } from './api';
+import { ExtractResult } from './extract';
+import { parseComments } from './parse';
+import { countNewComments, createWatchBaseline, getWatchDelay, MAX_WATCH_BACKOFF, watchThread } from './watch';
+
+const makeResult = (id: string) => ({ post: { id } }) as ExtractResult;
+
+describe('getWatchDelay', () => {
+  it('doubles the interval per failure up to the cap', () => {
+    expect(getWatchDelay(30, 0)).toBe(30);
+    expect(getWatchDelay(30, 1)).toBe(60);
+    expect(getWatchDelay(30, 3)).toBe(240);
+    expect(getWatchDelay(300, 5)).toBe(MAX_WATCH_BACKOFF);
+  });
+
+  it('waits at least until Retry-After when rate limited', () => {
+    expect(getWatchDelay(15, 1, new RateLimitError(60))).toBe(60);
+    expect(getWatchDelay(15, 3, new RateLimitError(60))).toBe(120);
+  });
+});
+
+describe('watchThread', () => {
+  it('waits before each extraction, backs off on errors and resets after a success', async () => {
+    const controller = new AbortController();
+    const delays: number[] = [];
+    const outcomes = [new RateLimitError(90), new Error('network'), makeResult('a'), makeResult('b')];
+    const extract = vi.fn(async () => {
+      const outcome = outcomes.shift()!;
+      if (outcome instanceof Error) {
+        throw outcome;
+      }
+      if (outcomes.length === 0) {
+        controller.abort();
+      }
+      return outcome;
+    });
+    const onResult = vi.fn();
+    const onError = vi.fn();
+
+    await watchThread(extract, {
+      interval: 30,
+      signal: controller.signal,
+      onResult,
+      onError,
+      sleep: async ms => {
+        delays.push(ms);
+      }
+    });
+
+    // 30 秒后被限流，等待 max(60, 90)；再失败等待 120；成功后回到 30
+    expect(delays).toEqual([30000, 90000, 120000, 30000]);
+    expect(onError.mock.calls.map(([, delay]) => delay)).toEqual([90, 120]);
+    expect(onResult.mock.calls.map(([result]) => result.post.id)).toEqual(['a', 'b']);
+  });
+
+  it('stops without extracting when aborted during the wait', async () => {
+    const controller = new AbortController();
+    const extract = vi.fn(async () => makeResult('a'));
+
+    await watchThread(extract, {
+      interval: 30,
+      signal: controller.signal,
+      onResult: vi.fn(),
+      onError: vi.fn(),
+      sleep: async () => controller.abort()
+    });
+
+    expect(extract).not.toHaveBeenCalled();
+  });
+});
+
+describe('countNewComments', () => {
+  it('counts comments that were not in the baseline', () => {
+    const before = parseComments([makeComment({ id: 'a' })], 'placeholder');
+    const after = parseComments([
+      makeComment({ id: 'a' }, [makeComment({ id: 'a1', parent_id: 't1_a' })]),
+      makeComment({ id: 'b' })
+    ], 'placeholder');
+
+    const baseline = createWatchBaseline(before);
+    expect(baseline).toEqual(new Map([['a', 1]]));
+    expect(countNewComments(after, baseline)).toBe(2);
+  });
+});
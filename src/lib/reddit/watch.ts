@@ -0,0 +1,76 @@
+import { RateLimitError } from './api';
+import type { ExtractResult } from './extract';
+import { sleep } from './sleep';
+import { ParsedComment } from './types';
+
+// 监视模式：按固定间隔重新提取同一个帖子，被限流或出错时逐次加倍等待时间
+
+export const WATCH_INTERVALS = [15, 30, 60, 120, 300] as const;
+export const DEFAULT_WATCH_INTERVAL = 60;
+// 退避后的等待时间上限 (秒)
+export const MAX_WATCH_BACKOFF = 900;
+
+export interface WatchOptions {
+  // 秒
+  interval: number;
+  signal: AbortSignal;
+  onResult: (result: ExtractResult) => void;
+  // delay 为下一次请求前的等待时间 (秒)
+  onError: (error: unknown, delay: number) => void;
+  // 每次等待开始时调用，nextAt 为下一次请求的时间 (毫秒)
+  onWait?: (nextAt: number) => void;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  now?: () => number;
+}
+
+// 连续失败 failures 次后的等待时间；429 至少等到 Retry-After
+export const getWatchDelay = (interval: number, failures: number, error?: unknown) => {
+  if (failures === 0) {
+    return interval;
+  }
+  const backoff = Math.min(interval * 2 ** failures, MAX_WATCH_BACKOFF);
+  return error instanceof RateLimitError ? Math.max(backoff, error.retryAfter) : backoff;
+};
+
+// 页面上已有一次提取的结果，先等待再重新提取，直到 signal 中止
+export const watchThread = async (
+  extract: (signal: AbortSignal) => Promise<ExtractResult>,
+  { interval, signal, onResult, onError, onWait, sleep: wait = sleep, now = Date.now }: WatchOptions
+) => {
+  let failures = 0;
+  let delay = interval;
+
+  while (!signal.aborted) {
+    onWait?.(now() + delay * 1000);
+    await wait(delay * 1000, signal).catch(() => {});
+    if (signal.aborted) {
+      return;
+    }
+
+    try {
+      onResult(await extract(signal));
+      failures = 0;
+      delay = interval;
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      failures++;
+      delay = getWatchDelay(interval, failures, error);
+      onError(error, delay);
+    }
+  }
+};
+
+// 监视开始时的评论ID和分数，之后的结果与之比较
+export const createWatchBaseline = (comments: ParsedComment[], baseline = new Map<string, number>()) => {
+  for (const comment of comments) {
+    baseline.set(comment.id, comment.score);
+    createWatchBaseline(comment.replies, baseline);
+  }
+  return baseline;
+};
+
+// 监视开始后新出现的评论数
+export const countNewComments = (comments: ParsedComment[], baseline: Map<string, number>): number =>
+  comments.reduce((total, comment) => total + (baseline.has(comment.id) ? 0 : 1) + countNewComments(comment.replies, baseline), 0);